@@ -0,0 +1,53 @@
+import { afterAll, beforeAll, describe, expect, setSystemTime, test } from "bun:test";
+import * as fs from "node:fs";
+import { createAirdoService } from "./airdo";
+
+const irregularHTML = fs.readFileSync("fixtures/airdo/irregular.html", "utf-8");
+
+describe("AIRDO", () => {
+    const airdo = createAirdoService();
+
+    beforeAll(() => {
+        setSystemTime(new Date("2025-02-05T10:00:00+09:00"));
+    });
+
+    afterAll(() => {
+        setSystemTime();
+    });
+
+    test("inspectPage", () => {
+        expect(airdo.inspectPage(irregularHTML.replace("<td>大雪</td>", "")).issues).toEqual([
+            "想定外の列数の行があります (2列)",
+        ]);
+    });
+
+    test("parseIrregularFlights", () => {
+        const flightInfos = airdo.parseIrregularFlights(irregularHTML);
+
+        expect(flightInfos.map(info => info.region)).toEqual(["北海道", "本州"]);
+        expect(flightInfos[0].airports[0]).toEqual({
+            name: "札幌（新千歳）",
+            date: "2月5日（水）～2月7日（金）",
+            reason: "大雪",
+            range: { start: "2025-02-05", end: "2025-02-07" },
+            resolved: { iata: "CTS", icao: "RJCC", nameJa: "新千歳", nameEn: "New Chitose" },
+        });
+        expect(flightInfos.flatMap(info => info.airports.map(airport => airport.resolved?.iata))).toEqual([
+            "CTS",
+            "MMB",
+            "HND",
+        ]);
+    });
+
+    test("formatMessage", () => {
+        const flightInfos = airdo.parseIrregularFlights(irregularHTML);
+        const message = airdo.formatMessage(flightInfos, airdo.getUpdateTime(irregularHTML));
+
+        expect(message.airline).toBe("AIRDO");
+        expect(message.sections).toEqual([
+            { heading: "本日対象 / 北海道", lines: ["札幌（新千歳）: 2月5日（水）～2月7日（金） - 大雪"] },
+            { heading: "本日対象 / 本州", lines: ["東京（羽田）: 2月5日（水） - 大雪"] },
+            { heading: "今後 / 北海道", lines: ["女満別: 2月6日（木） - 大雪"] },
+        ]);
+    });
+});
@@ -0,0 +1,69 @@
+import type { AirlineProvider } from "./provider";
+import {
+    type SpecialHandlingFlightInfo,
+    createSpecialHandlingProvider,
+    findUnexpectedColumns,
+} from "./special_handling";
+import type { BaseAirportInfo } from "./state_manager";
+
+const AIRDO_URL = "https://www.airdo.jp/information/special/";
+
+export interface AirdoAirportInfo extends BaseAirportInfo {
+    name: string;
+    date: string;
+    reason: string;
+}
+
+export type AirdoFlightInfo = SpecialHandlingFlightInfo<AirdoAirportInfo>;
+
+export type AirdoService = AirlineProvider<AirdoFlightInfo>;
+
+export const createAirdoService = (): AirdoService =>
+    createSpecialHandlingProvider<AirdoAirportInfo>({
+        id: "airdo",
+        name: "AIRDO",
+        url: AIRDO_URL,
+        defaultIcon: ":airdo:",
+        defaultUsername: "AIRDO運航情報",
+        messages: {
+            ja: {
+                title: "特別なお取り扱いの対象空港",
+                normalMessage: "現在、特別なお取り扱いの対象となる空港はございません。",
+            },
+            en: {
+                title: "Airports subject to special handling",
+                normalMessage: "There are currently no airports subject to special handling.",
+            },
+        },
+        updateTimeSelector: ".lastUpdate",
+        structureSelector: "table.airport-table",
+        // 地域ごとのテーブルの見出しが地域名
+        readAirports: $ =>
+            $("table.airport-table")
+                .toArray()
+                .flatMap(table => {
+                    const region = $(table).find("caption").first().text().trim();
+                    return $(table)
+                        .find("tbody tr")
+                        .toArray()
+                        .flatMap(row => {
+                            const $cells = $(row).find("td");
+                            if ($cells.length !== 3) {
+                                return [];
+                            }
+
+                            const name = $cells.eq(0).text().trim();
+                            const date = $cells.eq(1).text().trim();
+                            const reason = $cells.eq(2).text().trim();
+                            return [{ region, airport: { name, date, reason } }];
+                        });
+                }),
+        // 空港名、対象日、理由の3列以外の行は読み取れない
+        findIssues: $ => findUnexpectedColumns($, "table.airport-table tbody tr", [3]),
+        dateText: airport => airport.date,
+        summarize: airport => `${airport.date} - ${airport.reason}`,
+        describeAirport: airport => [
+            ["対象日", airport.date],
+            ["理由", airport.reason],
+        ],
+    });
@@ -0,0 +1,90 @@
+import { normalizeAirportName } from "./airports";
+import { getDateRangeStatus, todayInTokyo } from "./date_range";
+import type { AirlineProvider } from "./provider";
+import type { BaseAirportInfo, BaseFlightInfo, BaseState } from "./state_manager";
+
+/**
+ * 1つの航空会社の1つの空港の特別な取り扱い
+ */
+export interface AirlineAirportEntry {
+    airline: string;
+    airlineName: string;
+    region: string;
+    airport: BaseAirportInfo;
+    /** 期間や内容などの項目名と値の組 */
+    details: [label: string, value: string][];
+    status: "active" | "upcoming";
+}
+
+/**
+ * 航空会社をまたいで空港ごとにまとめた特別な取り扱い
+ */
+export interface AirportView {
+    /** IATAコード。辞書にない空港は正規化した空港名 */
+    key: string;
+    iata?: string;
+    /** 辞書の日本語名。辞書にない空港は最初に見つかった表記 */
+    name: string;
+    /** 辞書の英語名。辞書にない空港ではundefined */
+    nameEn?: string;
+    /** いずれかの航空会社で本日対象の場合は "active" */
+    status: "active" | "upcoming";
+    entries: AirlineAirportEntry[];
+}
+
+export interface AirlineState {
+    provider: AirlineProvider;
+    /** 状態が保存されていない場合はnull */
+    state: BaseState<BaseFlightInfo> | null;
+}
+
+/**
+ * 航空会社ごとの解析結果を空港ごとにまとめる。期間が終了した空港は除外する
+ *
+ * 本日対象の空港を先にし、それ以外は航空会社とページに記載された順に並べる
+ */
+export const buildAirportView = (airlines: AirlineState[], today = todayInTokyo()): AirportView[] => {
+    const airports = new Map<string, AirportView>();
+
+    for (const { provider, state } of airlines) {
+        for (const info of state?.flightInfos ?? []) {
+            for (const airport of info.airports) {
+                const status = getDateRangeStatus(airport.range, today);
+                if (status === "expired") {
+                    continue;
+                }
+
+                const key = airport.resolved?.iata ?? normalizeAirportName(airport.name);
+                const view = airports.get(key) ?? {
+                    key,
+                    iata: airport.resolved?.iata,
+                    name: airport.resolved?.nameJa ?? airport.name,
+                    nameEn: airport.resolved?.nameEn,
+                    status,
+                    entries: [],
+                };
+                view.entries.push({
+                    airline: provider.id,
+                    airlineName: provider.name,
+                    region: info.region,
+                    airport,
+                    details: provider.describeAirport(airport),
+                    status,
+                });
+                if (status === "active") {
+                    view.status = "active";
+                }
+                airports.set(key, view);
+            }
+        }
+    }
+
+    const views = [...airports.values()];
+    return [...views.filter(view => view.status === "active"), ...views.filter(view => view.status === "upcoming")];
+};
+
+/**
+ * 航空会社の保存されている状態を読み込む。状態は変更しない
+ */
+export const loadAirlineStates = (providers: AirlineProvider[]): Promise<AirlineState[]> =>
+    Promise.all(providers.map(async provider => ({ provider, state: await provider.loadState({ readOnly: true }) })));
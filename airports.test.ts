@@ -0,0 +1,56 @@
+import { describe, expect, test } from "bun:test";
+import {
+    cleanAirportName,
+    findUnknownAirportNames,
+    normalizeAirportName,
+    resolveAirport,
+    withResolvedAirport,
+} from "./airports";
+
+describe("cleanAirportName", () => {
+    test("removes the leading bullet and collapses spaces", () => {
+        expect(cleanAirportName(" ・札幌(新千歳)\n")).toBe("札幌(新千歳)");
+        expect(cleanAirportName("Tokyo   (Haneda)")).toBe("Tokyo (Haneda)");
+        // 空港名の途中の「・」は残す
+        expect(cleanAirportName("・萩・石見")).toBe("萩・石見");
+    });
+});
+
+describe("normalizeAirportName", () => {
+    test("normalizes width, spaces, case and the airport suffix", () => {
+        expect(normalizeAirportName("・東京（羽田）空港")).toBe("東京(羽田)");
+        expect(normalizeAirportName("ＯＫＡ")).toBe("oka");
+        expect(normalizeAirportName("Tokyo Haneda")).toBe("tokyohaneda");
+    });
+});
+
+describe("resolveAirport", () => {
+    test.each([
+        ["羽田", "HND"],
+        ["東京(羽田)", "HND"],
+        ["東京（成田）", "NRT"],
+        ["oka", "OKA"],
+        ["Okinawa Naha", "OKA"],
+        ["たんちょう釧路空港", "KUH"],
+        ["萩・石見", "IWJ"],
+        // 括弧内、括弧の前の順に検索する
+        ["那覇(沖縄)", "OKA"],
+        ["石垣(八重山)", "ISG"],
+    ])("%s is %s", (name, iata) => {
+        expect(resolveAirport(name)?.iata).toBe(iata);
+    });
+
+    test("does not guess an airport from a city with several airports", () => {
+        for (const name of ["東京", "大阪", "名古屋", "札幌", "東京(都心)"]) {
+            expect(resolveAirport(name)).toBeUndefined();
+        }
+        expect(
+            findUnknownAirportNames([
+                {
+                    region: "関西",
+                    airports: [withResolvedAirport({ name: "大阪" }), withResolvedAirport({ name: "大阪(伊丹)" })],
+                },
+            ]),
+        ).toEqual(["大阪"]);
+    });
+});
@@ -0,0 +1,178 @@
+import type { BaseAirportInfo, BaseFlightInfo } from "./state_manager";
+
+export interface Airport {
+    iata: string;
+    icao: string;
+    /** 正式な日本語の空港名 (例: "羽田") */
+    nameJa: string;
+    /** 英語の空港名 (例: "Tokyo Haneda") */
+    nameEn: string;
+}
+
+interface AirportDefinition extends Airport {
+    /** 航空会社ごとの表記ゆれや愛称 */
+    aliases?: string[];
+}
+
+// 国内の定期便が就航している主な空港
+// 「東京」「大阪」「名古屋」「札幌」のように複数の空港がある都市の名前は、誤った空港にしないよう別名にしない
+const airportDefinitions: AirportDefinition[] = [
+    { iata: "HKD", icao: "RJCH", nameJa: "函館", nameEn: "Hakodate" },
+    {
+        iata: "CTS",
+        icao: "RJCC",
+        nameJa: "新千歳",
+        nameEn: "New Chitose",
+        aliases: ["札幌(新千歳)", "千歳", "札幌/千歳"],
+    },
+    { iata: "OKD", icao: "RJCO", nameJa: "丘珠", nameEn: "Okadama", aliases: ["札幌(丘珠)"] },
+    { iata: "AKJ", icao: "RJEC", nameJa: "旭川", nameEn: "Asahikawa" },
+    { iata: "MMB", icao: "RJCM", nameJa: "女満別", nameEn: "Memanbetsu", aliases: ["オホーツク女満別"] },
+    { iata: "KUH", icao: "RJCK", nameJa: "釧路", nameEn: "Kushiro", aliases: ["たんちょう釧路"] },
+    { iata: "OBO", icao: "RJCB", nameJa: "帯広", nameEn: "Obihiro", aliases: ["とかち帯広"] },
+    { iata: "WKJ", icao: "RJCW", nameJa: "稚内", nameEn: "Wakkanai" },
+    { iata: "MBE", icao: "RJEB", nameJa: "紋別", nameEn: "Monbetsu", aliases: ["オホーツク紋別"] },
+    { iata: "SHB", icao: "RJCN", nameJa: "中標津", nameEn: "Nakashibetsu", aliases: ["根室中標津"] },
+    { iata: "RIS", icao: "RJER", nameJa: "利尻", nameEn: "Rishiri" },
+    { iata: "OIR", icao: "RJEO", nameJa: "奥尻", nameEn: "Okushiri" },
+    { iata: "AOJ", icao: "RJSA", nameJa: "青森", nameEn: "Aomori" },
+    { iata: "MSJ", icao: "RJSM", nameJa: "三沢", nameEn: "Misawa" },
+    { iata: "HNA", icao: "RJSI", nameJa: "花巻", nameEn: "Hanamaki", aliases: ["いわて花巻"] },
+    { iata: "AXT", icao: "RJSK", nameJa: "秋田", nameEn: "Akita" },
+    { iata: "ONJ", icao: "RJSR", nameJa: "大館能代", nameEn: "Odate-Noshiro", aliases: ["あきた北空港"] },
+    { iata: "SDJ", icao: "RJSS", nameJa: "仙台", nameEn: "Sendai" },
+    { iata: "GAJ", icao: "RJSC", nameJa: "山形", nameEn: "Yamagata", aliases: ["おいしい山形"] },
+    { iata: "SYO", icao: "RJSY", nameJa: "庄内", nameEn: "Shonai", aliases: ["おいしい庄内"] },
+    { iata: "FKS", icao: "RJSF", nameJa: "福島", nameEn: "Fukushima" },
+    { iata: "HND", icao: "RJTT", nameJa: "羽田", nameEn: "Tokyo Haneda", aliases: ["東京(羽田)", "東京国際"] },
+    { iata: "NRT", icao: "RJAA", nameJa: "成田", nameEn: "Tokyo Narita", aliases: ["東京(成田)", "成田国際"] },
+    { iata: "IBR", icao: "RJAH", nameJa: "茨城", nameEn: "Ibaraki" },
+    { iata: "HAC", icao: "RJTH", nameJa: "八丈島", nameEn: "Hachijojima" },
+    { iata: "OIM", icao: "RJTO", nameJa: "大島", nameEn: "Oshima" },
+    { iata: "MYE", icao: "RJTQ", nameJa: "三宅島", nameEn: "Miyakejima" },
+    { iata: "KIJ", icao: "RJSN", nameJa: "新潟", nameEn: "Niigata" },
+    { iata: "TOY", icao: "RJNT", nameJa: "富山", nameEn: "Toyama", aliases: ["富山きときと"] },
+    { iata: "KMQ", icao: "RJNK", nameJa: "小松", nameEn: "Komatsu" },
+    { iata: "NTQ", icao: "RJNW", nameJa: "能登", nameEn: "Noto", aliases: ["のと里山"] },
+    { iata: "MMJ", icao: "RJAF", nameJa: "松本", nameEn: "Matsumoto", aliases: ["信州まつもと"] },
+    { iata: "FSZ", icao: "RJNS", nameJa: "静岡", nameEn: "Shizuoka", aliases: ["富士山静岡"] },
+    {
+        iata: "NGO",
+        icao: "RJGG",
+        nameJa: "中部",
+        nameEn: "Chubu Centrair",
+        aliases: ["名古屋(中部)", "中部国際", "セントレア"],
+    },
+    { iata: "NKM", icao: "RJNA", nameJa: "小牧", nameEn: "Nagoya Komaki", aliases: ["名古屋(小牧)", "県営名古屋"] },
+    { iata: "ITM", icao: "RJOO", nameJa: "伊丹", nameEn: "Osaka Itami", aliases: ["大阪(伊丹)", "大阪国際"] },
+    { iata: "KIX", icao: "RJBB", nameJa: "関西", nameEn: "Kansai", aliases: ["大阪(関西)", "関西国際"] },
+    { iata: "UKB", icao: "RJBE", nameJa: "神戸", nameEn: "Kobe" },
+    { iata: "SHM", icao: "RJBD", nameJa: "南紀白浜", nameEn: "Nanki-Shirahama", aliases: ["白浜"] },
+    { iata: "TJH", icao: "RJBT", nameJa: "但馬", nameEn: "Tajima", aliases: ["コウノトリ但馬"] },
+    { iata: "OKI", icao: "RJNO", nameJa: "隠岐", nameEn: "Oki" },
+    { iata: "TTJ", icao: "RJOR", nameJa: "鳥取", nameEn: "Tottori", aliases: ["鳥取砂丘コナン"] },
+    { iata: "YGJ", icao: "RJOH", nameJa: "米子", nameEn: "Yonago", aliases: ["米子鬼太郎"] },
+    { iata: "IZO", icao: "RJOC", nameJa: "出雲", nameEn: "Izumo", aliases: ["出雲縁結び"] },
+    { iata: "IWJ", icao: "RJOW", nameJa: "石見", nameEn: "Iwami", aliases: ["萩・石見", "萩石見"] },
+    { iata: "OKJ", icao: "RJOB", nameJa: "岡山", nameEn: "Okayama", aliases: ["岡山桃太郎"] },
+    { iata: "HIJ", icao: "RJOA", nameJa: "広島", nameEn: "Hiroshima" },
+    { iata: "UBJ", icao: "RJDC", nameJa: "山口宇部", nameEn: "Yamaguchi Ube" },
+    { iata: "IWK", icao: "RJOI", nameJa: "岩国", nameEn: "Iwakuni", aliases: ["岩国錦帯橋"] },
+    { iata: "TKS", icao: "RJOS", nameJa: "徳島", nameEn: "Tokushima", aliases: ["徳島阿波おどり"] },
+    { iata: "TAK", icao: "RJOT", nameJa: "高松", nameEn: "Takamatsu" },
+    { iata: "MYJ", icao: "RJOM", nameJa: "松山", nameEn: "Matsuyama" },
+    { iata: "KCZ", icao: "RJOK", nameJa: "高知", nameEn: "Kochi", aliases: ["高知龍馬"] },
+    { iata: "FUK", icao: "RJFF", nameJa: "福岡", nameEn: "Fukuoka" },
+    { iata: "KKJ", icao: "RJFR", nameJa: "北九州", nameEn: "Kitakyushu" },
+    { iata: "HSG", icao: "RJFS", nameJa: "佐賀", nameEn: "Saga", aliases: ["九州佐賀"] },
+    { iata: "NGS", icao: "RJFU", nameJa: "長崎", nameEn: "Nagasaki" },
+    { iata: "TSJ", icao: "RJDT", nameJa: "対馬", nameEn: "Tsushima", aliases: ["対馬やまねこ"] },
+    { iata: "IKI", icao: "RJDB", nameJa: "壱岐", nameEn: "Iki" },
+    { iata: "FUJ", icao: "RJFE", nameJa: "五島福江", nameEn: "Goto-Fukue", aliases: ["福江", "五島つばき"] },
+    { iata: "KMJ", icao: "RJFT", nameJa: "熊本", nameEn: "Kumamoto", aliases: ["阿蘇くまもと"] },
+    { iata: "AXJ", icao: "RJDA", nameJa: "天草", nameEn: "Amakusa" },
+    { iata: "OIT", icao: "RJFO", nameJa: "大分", nameEn: "Oita" },
+    { iata: "KMI", icao: "RJFM", nameJa: "宮崎", nameEn: "Miyazaki", aliases: ["宮崎ブーゲンビリア"] },
+    { iata: "KOJ", icao: "RJFK", nameJa: "鹿児島", nameEn: "Kagoshima" },
+    { iata: "TNE", icao: "RJFG", nameJa: "種子島", nameEn: "Tanegashima" },
+    { iata: "KUM", icao: "RJFC", nameJa: "屋久島", nameEn: "Yakushima" },
+    { iata: "ASJ", icao: "RJKA", nameJa: "奄美", nameEn: "Amami", aliases: ["奄美大島"] },
+    { iata: "KKX", icao: "RJKI", nameJa: "喜界", nameEn: "Kikai", aliases: ["喜界島"] },
+    { iata: "TKN", icao: "RJKN", nameJa: "徳之島", nameEn: "Tokunoshima" },
+    { iata: "OKE", icao: "RJKB", nameJa: "沖永良部", nameEn: "Okinoerabu" },
+    { iata: "RNJ", icao: "RORY", nameJa: "与論", nameEn: "Yoron" },
+    { iata: "OKA", icao: "ROAH", nameJa: "那覇", nameEn: "Okinawa Naha", aliases: ["沖縄(那覇)", "沖縄", "Naha"] },
+    { iata: "UEO", icao: "ROKJ", nameJa: "久米島", nameEn: "Kumejima" },
+    { iata: "MMY", icao: "ROMY", nameJa: "宮古", nameEn: "Miyako", aliases: ["宮古島"] },
+    { iata: "SHI", icao: "RORS", nameJa: "下地島", nameEn: "Shimojishima", aliases: ["みやこ下地島"] },
+    { iata: "ISG", icao: "ROIG", nameJa: "石垣", nameEn: "Ishigaki", aliases: ["新石垣", "南ぬ島石垣"] },
+    { iata: "OGN", icao: "ROYN", nameJa: "与那国", nameEn: "Yonaguni" },
+    { iata: "KTD", icao: "RORK", nameJa: "北大東", nameEn: "Kitadaito" },
+    { iata: "MMD", icao: "ROMD", nameJa: "南大東", nameEn: "Minamidaito" },
+    { iata: "TRA", icao: "RORT", nameJa: "多良間", nameEn: "Tarama" },
+];
+
+/**
+ * ページに記載された空港名から先頭の「・」などの記号を取り除き、連続した空白をまとめる。表示にはこの名前を使う
+ */
+export const cleanAirportName = (name: string): string =>
+    name
+        .trim()
+        .replace(/^[・･]+\s*/, "")
+        .replace(/\s+/g, " ");
+
+/**
+ * 空港名を辞書の検索用に正規化する
+ *
+ * `cleanAirportName` に加えて全角英数字・括弧を半角にし、空白と末尾の「空港」を取り除く
+ */
+export const normalizeAirportName = (name: string): string =>
+    cleanAirportName(name.normalize("NFKC")).replace(/\s+/g, "").replace(/空港$/, "").toLowerCase();
+
+const airportIndex = new Map<string, Airport>();
+for (const { aliases = [], ...airport } of airportDefinitions) {
+    for (const name of [airport.iata, airport.nameJa, airport.nameEn, ...aliases]) {
+        airportIndex.set(normalizeAirportName(name), airport);
+    }
+}
+
+/**
+ * 航空会社のページに記載された空港名から空港を求める
+ *
+ * 「東京(羽田)」のような表記は全体、括弧内、括弧の前の順に検索する
+ */
+export const resolveAirport = (name: string): Airport | undefined => {
+    const normalized = normalizeAirportName(name);
+    const candidates = [normalized];
+
+    const match = normalized.match(/^(.+)\((.+)\)$/);
+    if (match) {
+        candidates.push(match[2], match[1]);
+    }
+
+    for (const candidate of candidates) {
+        const airport = airportIndex.get(candidate);
+        if (airport) {
+            return airport;
+        }
+    }
+
+    return undefined;
+};
+
+/**
+ * 空港名から解決した空港を付与する
+ */
+export const withResolvedAirport = <A extends BaseAirportInfo>(airport: A): A => {
+    const resolved = resolveAirport(airport.name);
+    return resolved ? { ...airport, resolved } : airport;
+};
+
+/**
+ * 辞書で解決できなかった空港名を返す
+ */
+export const findUnknownAirportNames = (flightInfos: BaseFlightInfo[]): string[] => [
+    ...new Set(
+        flightInfos.flatMap(info => info.airports.filter(airport => !airport.resolved).map(airport => airport.name)),
+    ),
+];
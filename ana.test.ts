@@ -0,0 +1,120 @@
+import { afterAll, beforeAll, describe, expect, setSystemTime, test } from "bun:test";
+import * as fs from "node:fs";
+import { createAnaService } from "./ana";
+
+const irregularHTML = fs.readFileSync("fixtures/ana/irregular.html", "utf-8");
+const normalHTML = fs.readFileSync("fixtures/ana/normal.html", "utf-8");
+const brokenHTML = fs.readFileSync("fixtures/ana/broken.html", "utf-8");
+const englishHTML = fs.readFileSync("fixtures/ana/irregular_en.html", "utf-8");
+
+describe("ANA", () => {
+    const ana = createAnaService();
+
+    beforeAll(() => {
+        setSystemTime(new Date("2025-02-05T10:00:00+09:00"));
+    });
+
+    afterAll(() => {
+        setSystemTime();
+    });
+
+    test("hasIrregularFlights", () => {
+        expect(ana.hasIrregularFlights(irregularHTML)).toBe(true);
+        expect(ana.hasIrregularFlights(normalHTML)).toBe(false);
+    });
+
+    test("getUpdateTime", () => {
+        expect(ana.getUpdateTime(irregularHTML)).toBe("2025年2月5日 10:00更新");
+    });
+
+    test("inspectPage", () => {
+        expect(ana.inspectPage(irregularHTML).issues).toEqual([]);
+        expect(ana.inspectPage(normalHTML).issues).toEqual([]);
+        expect(ana.inspectPage(brokenHTML).issues).toEqual([
+            "更新日時 (.hinichi) が見つかりません",
+            "想定外の列数の行があります (3列)",
+        ]);
+    });
+
+    test("inspectPage fingerprint ignores the number of rows", () => {
+        const fewerRowsHTML = irregularHTML.replace(/<tr>\s*<td>・旭川<\/td>[\s\S]*?<\/tr>/, "");
+
+        expect(fewerRowsHTML).not.toBe(irregularHTML);
+        expect(ana.inspectPage(fewerRowsHTML).fingerprint).toBe(ana.inspectPage(irregularHTML).fingerprint);
+        expect(ana.inspectPage(normalHTML).fingerprint).not.toBe(ana.inspectPage(irregularHTML).fingerprint);
+    });
+
+    test("parseIrregularFlights", () => {
+        const flightInfos = ana.parseIrregularFlights(irregularHTML);
+
+        expect(flightInfos.map(info => info.region)).toEqual(["北海道", "沖縄"]);
+        // 期間が空の函館は含まない
+        expect(flightInfos[0].airports).toEqual([
+            {
+                name: "札幌(新千歳)",
+                period: "2月5日～2月7日",
+                range: { start: "2025-02-05", end: "2025-02-07" },
+                resolved: { iata: "CTS", icao: "RJCC", nameJa: "新千歳", nameEn: "New Chitose" },
+            },
+            {
+                name: "旭川",
+                period: "2月6日",
+                range: { start: "2025-02-06", end: "2025-02-06" },
+                resolved: { iata: "AKJ", icao: "RJEC", nameJa: "旭川", nameEn: "Asahikawa" },
+            },
+        ]);
+        expect(flightInfos[1].airports.map(airport => airport.resolved?.iata)).toEqual(["OKA", "ISG"]);
+        expect(flightInfos[1].airports[0].range).toEqual({ start: "2025-02-08", end: "2025-02-09" });
+    });
+
+    test("parseIrregularFlights reads the English page", () => {
+        const flightInfos = ana.parseIrregularFlights(englishHTML, "en");
+
+        expect(flightInfos.map(info => info.region)).toEqual(["Hokkaido", "Okinawa"]);
+        expect(flightInfos[0].airports[0]).toEqual({
+            name: "Sapporo (New Chitose)",
+            period: "Feb. 5 - Feb. 7",
+            resolved: { iata: "CTS", icao: "RJCC", nameJa: "新千歳", nameEn: "New Chitose" },
+        });
+        // 日本語のページと同じ空港を対応付けられる
+        expect(flightInfos.flatMap(info => info.airports.map(airport => airport.resolved?.iata))).toEqual([
+            "CTS",
+            "AKJ",
+            "OKA",
+            "ISG",
+        ]);
+    });
+
+    test("formatMessage groups airports by status and hides expired airports", () => {
+        const flightInfos = ana.parseIrregularFlights(irregularHTML);
+        const message = ana.formatMessage(flightInfos, "2025年2月5日 10:00更新");
+
+        expect(message.mention).toBe(true);
+        expect(message.changes).toEqual([]);
+        expect(message.sections).toEqual([
+            { heading: "本日対象 / 北海道", lines: ["札幌(新千歳): 2月5日～2月7日"] },
+            { heading: "今後 / 北海道", lines: ["旭川: 2月6日"] },
+            { heading: "今後 / 沖縄", lines: ["沖縄(那覇): ２月８日～２月９日"] },
+        ]);
+    });
+
+    test("formatMessage shows changes", () => {
+        const flightInfos = ana.parseIrregularFlights(irregularHTML);
+        const diff = ana.diffState({ lastCheck: "", flightInfos: [] }, flightInfos.slice(0, 1));
+        const message = ana.formatMessage(flightInfos.slice(0, 1), "", true, diff);
+
+        expect(message.changes).toEqual([
+            { heading: "🆕 追加", lines: ["北海道 / 札幌(新千歳): 2月5日～2月7日", "北海道 / 旭川: 2月6日"] },
+        ]);
+    });
+
+    test("formatMessage without flights", () => {
+        const message = ana.formatMessage([], ana.getUpdateTime(normalHTML), false);
+
+        expect(message.mention).toBe(false);
+        expect(message.sections).toEqual([
+            { lines: ["現在、台風などの大幅な気象の乱れにより、今後運航への影響が予測される空港はありません。"] },
+        ]);
+        expect(message.footer).toBe("2025年2月10日 10:00更新");
+    });
+});
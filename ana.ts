@@ -1,10 +1,29 @@
-import type { Block, KnownBlock } from "@slack/web-api";
 import * as cheerio from "cheerio";
+import { cleanAirportName, withResolvedAirport } from "./airports";
+import { parseDateRange } from "./date_range";
+import { type FlightInfoDiff, formatDiffSections, formatStatusSections } from "./diff";
 import { fetchHTML } from "./http_client";
-import type { SlackMessage } from "./notification";
-import { type BaseAirportInfo, type BaseFlightInfo, type BaseState, createStateManager } from "./state_manager";
+import type { Locale } from "./locale";
+import type { NotificationMessage } from "./notification";
+import { type PageInspection, fingerprintStructure } from "./page_check";
+import type { AirlineProvider } from "./provider";
+import type { BaseAirportInfo, BaseFlightInfo } from "./state_manager";
+import { createAirlineStateManager } from "./state_store";
 
 const ANA_URL = "https://www.ana.co.jp/asw/ncf_info";
+const ANA_EN_URL = "https://www.ana.co.jp/asw/ncf_info_e";
+
+const messages: Record<Locale, { title: string; normalMessage: string }> = {
+    ja: {
+        title: "特別な取り扱いの一覧",
+        normalMessage: "現在、台風などの大幅な気象の乱れにより、今後運航への影響が予測される空港はありません。",
+    },
+    en: {
+        title: "Special handling",
+        normalMessage:
+            "There are currently no airports where flights are expected to be affected by major weather disruptions such as typhoons.",
+    },
+};
 
 export interface AnaAirportInfo extends BaseAirportInfo {
     name: string;
@@ -16,19 +35,11 @@ export interface AnaFlightInfo extends BaseFlightInfo {
     airports: AnaAirportInfo[];
 }
 
-export interface AnaService {
-    hasIrregularFlights: (html: string) => boolean;
-    parseIrregularFlights: (html: string) => AnaFlightInfo[];
-    getUpdateTime: (html: string) => string;
-    formatMessage: (flightInfos: AnaFlightInfo[], updateTime: string, withMention?: boolean) => SlackMessage;
-    loadState: () => Promise<BaseState<AnaFlightInfo> | null>;
-    saveState: (state: BaseState<AnaFlightInfo>) => Promise<void>;
-    hasStateChanged: (oldState: BaseState<AnaFlightInfo> | null, newFlightInfos: AnaFlightInfo[]) => boolean;
-    fetchFlightInfo: () => Promise<string>;
-}
+export type AnaService = AirlineProvider<AnaFlightInfo>;
 
 export const createAnaService = (): AnaService => {
-    const stateManager = createStateManager<AnaFlightInfo>("ana.json");
+    const stateFileName = "ana.json";
+    const stateManager = createAirlineStateManager<AnaFlightInfo>("ana", stateFileName);
 
     const hasIrregularFlights = (html: string): boolean => {
         const $ = cheerio.load(html);
@@ -39,6 +50,7 @@ export const createAnaService = (): AnaService => {
         return normalMessage.length === 0;
     };
 
+    // 英語版のページも同じ構造のため、言語によらず同じ方法で読み取る
     const parseIrregularFlights = (html: string): AnaFlightInfo[] => {
         const $ = cheerio.load(html);
         const flightInfos: AnaFlightInfo[] = [];
@@ -61,7 +73,7 @@ export const createAnaService = (): AnaService => {
 
                 // areaがない場合は，地域名が入らず空港情報が入る
                 if (!firstCell.hasClass("area")) {
-                    const airportName = firstCell.text().trim().replace("・", "").replace(/\s+/g, " ").trim();
+                    const airportName = cleanAirportName(firstCell.text());
                     const period = secondCell.text().trim().replace(/\s+/g, " ");
 
                     // 空の期間情報は無視
@@ -76,7 +88,10 @@ export const createAnaService = (): AnaService => {
                         flightInfos.push(regionInfo);
                     }
 
-                    regionInfo.airports.push({ name: airportName, period });
+                    const range = parseDateRange(period);
+                    regionInfo.airports.push(
+                        withResolvedAirport({ name: airportName, period, ...(range ? { range } : {}) }),
+                    );
                 }
             }
         });
@@ -90,81 +105,79 @@ export const createAnaService = (): AnaService => {
         return timeText || new Date().toLocaleString("ja-JP", { timeZone: "Asia/Tokyo" });
     };
 
-    const formatMessage = (flightInfos: AnaFlightInfo[], updateTime: string, withMention = true): SlackMessage => {
-        const headerText = `*特別な取り扱いの一覧 / <${ANA_URL}|ANA>* ${withMention ? " @channel" : ""}\n`;
-        const blocks: (Block | KnownBlock)[] = [
-            {
-                type: "section",
-                text: {
-                    type: "mrkdwn",
-                    text: headerText,
-                },
-            },
-        ];
-
-        if (flightInfos.length === 0) {
-            blocks.push({
-                type: "section",
-                text: {
-                    type: "mrkdwn",
-                    text: "現在、台風などの大幅な気象の乱れにより、今後運航への影響が予測される空港はありません。",
-                },
-            });
-        } else {
-            for (const info of flightInfos) {
-                blocks.push({
-                    type: "section",
-                    text: {
-                        type: "mrkdwn",
-                        text: `*${info.region}*`,
-                    },
-                });
-
-                // 空港情報のリスト
-                const airportList = info.airports.map(airport => `${airport.name}: ${airport.period}`).join("\n");
-
-                blocks.push({
-                    type: "section",
-                    text: {
-                        type: "mrkdwn",
-                        text: airportList,
-                    },
-                });
-            }
+    const inspectPage = (html: string): PageInspection => {
+        const $ = cheerio.load(html);
+        const issues: string[] = [];
+
+        if ($(".hinichi").text().trim() === "") {
+            issues.push("更新日時 (.hinichi) が見つかりません");
         }
 
-        // 取得日時を追加
-        blocks.push({
-            type: "divider",
-            block_id: "divider",
-        } as Block);
-        blocks.push({
-            type: "context",
-            elements: [
-                {
-                    type: "mrkdwn",
-                    text: updateTime,
-                },
-            ],
-        });
+        // 空港名と期間の2列以外の行は読み取れない
+        const columnCounts = new Set(
+            $("table tr")
+                .toArray()
+                .map(row => $(row).find("td").length)
+                .filter(count => count > 0 && count !== 2),
+        );
+        if (columnCounts.size > 0) {
+            issues.push(`想定外の列数の行があります (${[...columnCounts].join(", ")}列)`);
+        }
+
+        return { issues, fingerprint: fingerprintStructure($, "table, .hinichi") };
+    };
+
+    const describeAirport = (airport: AnaAirportInfo): [string, string][] => [["対象期間", airport.period]];
+
+    const formatMessage = (
+        flightInfos: AnaFlightInfo[],
+        updateTime: string,
+        withMention = true,
+        diff?: FlightInfoDiff<AnaAirportInfo>,
+        locale: Locale = "ja",
+    ): NotificationMessage => {
+        // 終了した空港は表示せず、本日対象と今後に分けて表示する
+        const sections = formatStatusSections(
+            flightInfos,
+            airport => airport.period,
+            messages[locale].normalMessage,
+            locale,
+        );
 
         return {
-            text: headerText,
-            blocks,
+            airline: "ANA",
+            title: messages[locale].title,
+            url: locale === "en" ? ANA_EN_URL : ANA_URL,
+            mention: withMention,
+            // 前回からの変更点
+            changes: diff ? formatDiffSections(diff, airport => airport.period, locale) : [],
+            sections,
+            footer: updateTime,
         };
     };
 
-    const fetchFlightInfo = async (): Promise<string> => {
-        return await fetchHTML(ANA_URL);
+    const fetchFlightInfo = async (locale: Locale = "ja"): Promise<string> => {
+        return await fetchHTML(locale === "en" ? ANA_EN_URL : ANA_URL);
     };
 
     return {
+        id: "ana",
+        name: "ANA",
+        url: ANA_URL,
+        englishUrl: ANA_EN_URL,
+        stateFileName,
+        defaultIcon: ":ana:",
+        defaultUsername: "ANA運航情報",
         hasIrregularFlights,
         parseIrregularFlights,
         getUpdateTime,
+        inspectPage,
+        describeAirport,
         formatMessage,
         loadState: stateManager.loadState,
         saveState: stateManager.saveState,
+        withLock: stateManager.withLock,
+        diffState: stateManager.diffState,
         hasStateChanged: stateManager.hasStateChanged,
         fetchFlightInfo,
     };
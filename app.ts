@@ -1,240 +1,421 @@
-import { Command } from "commander";
-import { createAnaService } from "./ana";
-import { getConfig } from "./config";
-import { createJalService } from "./jal";
-import { postToSlack } from "./notification";
+import * as fs from "node:fs/promises";
+import { Command, InvalidArgumentError } from "commander";
+import { buildTimeline, createSnapshotArchive } from "./archive";
+import { exportCalendar } from "./calendar";
+import {
+    type Config,
+    getAirlinesConfig,
+    getConfig,
+    getObservabilityConfig,
+    getStateConfig,
+    setConfigSource,
+} from "./config";
+import { postDigest } from "./digest";
+import { setHttpCacheReadOnly } from "./http_client";
+import { configureLogger, logger } from "./logger";
+import { timePattern } from "./mention_policy";
+import { formatPreview, parseProviderHTML, previewProvider, runProvider, runProviders } from "./pipeline";
+import { getProvider, getProviders } from "./providers";
+import { watchProviders } from "./scheduler";
+import { type ImportResult, importJsonStates } from "./sqlite_state";
+import { startStatusServer } from "./status_server";
+
+interface ProviderCommandOptions {
+    icon?: string;
+    username?: string;
+    force: boolean;
+    updateParent?: boolean;
+    archive?: boolean;
+    dryRun?: boolean;
+}
+
+/**
+ * エラーを記録して終了する
+ */
+function exitWithError(error: unknown): never {
+    logger.error("Command failed", { error });
+    process.exit(1);
+}
+
+const runProviderCommand = async (airline: string, options: ProviderCommandOptions) => {
+    try {
+        // 必須の環境変数が揃っているかを最初に確認する
+        getConfig();
+        if (options.dryRun) {
+            setHttpCacheReadOnly(true);
+        }
+        await runProvider(getProvider(airline), options);
+    } catch (error) {
+        exitWithError(error);
+    }
+};
+
+/**
+ * 分単位の間隔をミリ秒にする
+ */
+const parseMinutes = (name: string, value: string): number => {
+    const minutes = Number(value);
+    if (!Number.isFinite(minutes) || minutes <= 0) {
+        throw new Error(`${name} must be a positive number of minutes: ${value}`);
+    }
+
+    return minutes * 60 * 1000;
+};
+
+/**
+ * 設定ファイルで対象の航空会社が指定されている場合はその航空会社のみを返す
+ */
+const getConfiguredProviders = (config: Pick<Config, "airlines">) =>
+    config.airlines?.map(getProvider) ?? getProviders();
+
+const parsePort = (name: string, value: string): number => {
+    const port = Number(value);
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+        throw new Error(`${name} must be a port number: ${value}`);
+    }
+
+    return port;
+};
+
+/**
+ * commanderのオプションの値を正の整数として解析する
+ */
+const parsePositiveInteger = (value: string): number => {
+    const number = Number(value);
+    if (!Number.isInteger(number) || number <= 0) {
+        throw new InvalidArgumentError("Must be a positive integer.");
+    }
+
+    return number;
+};
 
 async function main() {
-    const config = getConfig();
     const program = new Command();
+    const airlineIds = getProviders().map(provider => provider.id);
 
     program
         .name("airline-irregular-notification")
-        .description("航空会社の運航情報を取得してSlackに通知するCLIツール")
-        .version("1.0.0");
+        .description("航空会社の運航情報を取得して通知するCLIツール")
+        .version("1.0.0")
+        .option("--config <path>", "設定ファイル (JSONまたはYAML)。省略した場合は環境変数 CONFIG_FILE")
+        .option("--profile <name>", "設定ファイルのプロファイル。省略した場合は環境変数 CONFIG_PROFILE")
+        .hook("preAction", () => {
+            const { config, profile } = program.opts<{ config?: string; profile?: string }>();
+            setConfigSource({ file: config, profile });
+            const { logFormat, logLevel } = getObservabilityConfig();
+            configureLogger({ format: logFormat, level: logLevel });
+        });
 
     program
-        .command("ana")
-        .description("ANAの運航情報を取得してSlackに通知します")
-        .option("--icon <emoji>", "Slackに投稿する際のアイコン絵文字", ":ana:")
-        .option("--username <name>", "Slackに投稿する際のユーザー名", "ANA運航情報")
+        .command("run")
+        .description("指定した航空会社の運航情報を取得して通知します")
+        .argument("<airline>", `航空会社 (${airlineIds.join(", ")})`)
+        .option("--icon <emoji>", "Slackに投稿する際のアイコン絵文字")
+        .option("--username <name>", "Slackに投稿する際のユーザー名")
         .option("--force", "強制的に通知を送信する", false)
+        .option("--update-parent", "続報をスレッドに返信する際に最初のメッセージも最新の内容に更新する")
+        .option("--archive", "取得したHTMLと解析結果をスナップショットとして保存する")
+        .option("--dry-run", "通知や状態の保存をせずに、送信するメッセージと状態の変化を表示する")
+        .action(async (airline: string, options: ProviderCommandOptions) => {
+            await runProviderCommand(airline, options);
+        });
+
+    program
+        .command("all")
+        .description("登録されているすべての航空会社の運航情報を取得して通知します")
+        .option("--force", "強制的に通知を送信する", false)
+        .option("--update-parent", "続報をスレッドに返信する際に最初のメッセージも最新の内容に更新する")
+        .option("--archive", "取得したHTMLと解析結果をスナップショットとして保存する")
+        .option("--dry-run", "通知や状態の保存をせずに、送信するメッセージと状態の変化を表示する")
         .action(async options => {
+            let providers: ReturnType<typeof getProviders>;
             try {
-                const anaService = createAnaService();
-                const html = await anaService.fetchFlightInfo();
-                const lastState = await anaService.loadState();
-                const hasIrregular = anaService.hasIrregularFlights(html);
-                const updateTime = anaService.getUpdateTime(html);
-
-                if (!hasIrregular) {
-                    // --forceオプションが指定されている場合は通常運航のメッセージを送信
-                    if (options.force) {
-                        const message = anaService.formatMessage([], updateTime, false);
-                        await postToSlack(message, {
-                            icon: options.icon,
-                            username: options.username,
-                            token: config.slackToken,
-                            channel: config.slackChannel,
-                        });
+                providers = getConfiguredProviders(getConfig());
+                if (options.dryRun) {
+                    setHttpCacheReadOnly(true);
+                }
+            } catch (error) {
+                exitWithError(error);
+            }
 
-                        const newState = {
-                            lastCheck: new Date().toISOString(),
-                            flightInfos: [],
-                        };
-                        await anaService.saveState(newState);
-                        console.log("Posted normal operation message (forced)");
-                        return;
-                    }
+            const succeeded = await runProviders(providers, options);
+            if (!succeeded) {
+                process.exit(1);
+            }
+        });
 
-                    // 前回の状態がない場合は何もしない
-                    if (!lastState) {
-                        console.log("No irregular flights found and no previous state exists");
-                        const newState = {
-                            lastCheck: new Date().toISOString(),
-                            flightInfos: [],
-                        };
-                        await anaService.saveState(newState);
-                        return;
+    program
+        .command("preview")
+        .description(
+            "通知や状態の保存をせずに、送信するメッセージ (Block KitのJSONとテキスト) と状態の変化を表示します",
+        )
+        .argument("<airline>", `航空会社 (${airlineIds.join(", ")})`)
+        .option("--force", "変更がない場合も通知する場合のメッセージを表示する", false)
+        .option("--update-parent", "続報をスレッドに返信する際に最初のメッセージも最新の内容に更新する")
+        .option("--json", "結果をJSONで出力する", false)
+        .action(async (airline: string, options: { force: boolean; updateParent?: boolean; json: boolean }) => {
+            try {
+                getConfig();
+                setHttpCacheReadOnly(true);
+                const preview = await previewProvider(getProvider(airline), options);
+                console.log(options.json ? JSON.stringify(preview, null, 2) : formatPreview(preview));
+            } catch (error) {
+                exitWithError(error);
+            }
+        });
+
+    program
+        .command("digest")
+        .description("保存されている状態から航空会社をまたいだ空港ごとのまとめを送信します (変更がなくても送信します)")
+        .argument("[airlines...]", `航空会社 (${airlineIds.join(", ")})。省略した場合は設定ファイルの対象の航空会社`)
+        .option("--dry-run", "送信せずに送信するメッセージを表示する")
+        .action(async (airlines: string[], options: { dryRun?: boolean }) => {
+            try {
+                const providers = airlines.length > 0 ? airlines.map(getProvider) : getConfiguredProviders(getConfig());
+                await postDigest(providers, options);
+            } catch (error) {
+                exitWithError(error);
+            }
+        });
+
+    program
+        .command("watch")
+        .description("終了するまで航空会社ごとの間隔で運航情報を確認し続けます")
+        .argument("[airlines...]", `航空会社 (${airlineIds.join(", ")})。省略した場合はすべての航空会社`)
+        .option("--interval <minutes>", "通常運航時の確認間隔 (分、既定値は10)")
+        .option("--irregular-interval <minutes>", "特別な取り扱いが続いている間の確認間隔 (分、既定値は3)")
+        .option("--jitter <ratio>", "確認間隔をランダムにずらす割合 (既定値は0.1)")
+        .option("--digest-at <time>", "毎日この時刻 (日本時間の HH:MM) に空港ごとのまとめを送信する")
+        .option("--update-parent", "続報をスレッドに返信する際に最初のメッセージも最新の内容に更新する")
+        .option("--archive", "取得したHTMLと解析結果をスナップショットとして保存する")
+        .option("--status-port <port>", "指定した場合は状態を返すHTTPサーバーも起動する")
+        .option("--status-host <host>", "HTTPサーバーのホスト", "127.0.0.1")
+        .action(
+            async (
+                airlines: string[],
+                options: {
+                    interval?: string;
+                    irregularInterval?: string;
+                    jitter?: string;
+                    digestAt?: string;
+                    updateParent?: boolean;
+                    archive?: boolean;
+                    statusPort?: string;
+                    statusHost: string;
+                },
+            ) => {
+                try {
+                    const config = getConfig();
+                    const providers = airlines.length > 0 ? airlines.map(getProvider) : getConfiguredProviders(config);
+                    // CLIの指定、設定ファイルのschedule、既定値の順に使う
+                    const { schedule } = config;
+                    const jitter = options.jitter !== undefined ? Number(options.jitter) : (schedule.jitter ?? 0.1);
+                    if (!Number.isFinite(jitter) || jitter < 0 || jitter >= 1) {
+                        throw new Error(`--jitter must be between 0 and 1: ${options.jitter}`);
                     }
 
-                    // 前回の状態がある場合、前回も空だった場合は通知しない
-                    if (lastState.flightInfos.length === 0) {
-                        console.log("No irregular flights found and previous state was also empty");
-                        const newState = {
-                            lastCheck: new Date().toISOString(),
-                            flightInfos: [],
-                        };
-                        await anaService.saveState(newState);
-                        return;
+                    const digestAt = options.digestAt ?? schedule.digestAt;
+                    if (digestAt !== undefined && !timePattern.test(digestAt)) {
+                        throw new Error(`--digest-at must be a time like 07:30: ${digestAt}`);
                     }
 
-                    // 前回は運航情報があり、今回はない場合のみ通常運航のメッセージを送信
-                    const message = anaService.formatMessage([], updateTime, false);
-                    await postToSlack(message, {
-                        icon: options.icon,
-                        username: options.username,
-                        token: config.slackToken,
-                        channel: config.slackChannel,
+                    const watcher = watchProviders(providers, {
+                        normalInterval: parseMinutes("--interval", options.interval ?? String(schedule.interval ?? 10)),
+                        irregularInterval: parseMinutes(
+                            "--irregular-interval",
+                            options.irregularInterval ?? String(schedule.irregularInterval ?? 3),
+                        ),
+                        jitter,
+                        digestAt,
+                        updateParent: options.updateParent,
+                        archive: options.archive,
                     });
 
-                    const newState = {
-                        lastCheck: new Date().toISOString(),
-                        flightInfos: [],
-                    };
-                    await anaService.saveState(newState);
-                    console.log("Posted normal operation message");
-                    return;
-                }
+                    const server =
+                        options.statusPort !== undefined
+                            ? startStatusServer(providers, {
+                                  port: parsePort("--status-port", options.statusPort),
+                                  host: options.statusHost,
+                              })
+                            : undefined;
 
-                const flightInfos = anaService.parseIrregularFlights(html);
-                const hasChanged = anaService.hasStateChanged(lastState, flightInfos);
+                    // 状態の保存中に終了しないよう、実行中の確認が終わるのを待ってから終了する
+                    for (const signal of ["SIGTERM", "SIGINT"] as const) {
+                        process.once(signal, () => {
+                            logger.info(`Received ${signal}, waiting for running checks to finish`);
+                            server?.close();
+                            watcher.stop();
+                        });
+                    }
 
-                // 変更がない場合は通知しない (ただし--forceオプションが指定されている場合は通知する)
-                if (!hasChanged && !options.force) {
-                    console.log("No changes in flight information since last check");
-                    return;
+                    await watcher.done;
+                    logger.info("Stopped");
+                } catch (error) {
+                    exitWithError(error);
                 }
+            },
+        );
 
-                const message = anaService.formatMessage(flightInfos, updateTime, true);
-                await postToSlack(message, {
-                    icon: options.icon,
-                    username: options.username,
-                    token: config.slackToken,
-                    channel: config.slackChannel,
+    program
+        .command("serve")
+        .description("保存されている状態をJSONで返すHTTPサーバーを起動します")
+        .option("--port <port>", "ポート番号", "8080")
+        .option("--host <host>", "ホスト", "127.0.0.1")
+        .action((options: { port: string; host: string }) => {
+            try {
+                startStatusServer(getConfiguredProviders(getAirlinesConfig()), {
+                    port: parsePort("--port", options.port),
+                    host: options.host,
                 });
-
-                // 新しい状態を保存
-                const newState = {
-                    lastCheck: new Date().toISOString(),
-                    flightInfos,
-                };
-                await anaService.saveState(newState);
-
-                console.log(
-                    options.force
-                        ? "Successfully posted irregular flight information to Slack (forced)"
-                        : "Successfully posted irregular flight information to Slack",
-                );
             } catch (error) {
-                console.error("Error:", error);
-                process.exit(1);
+                exitWithError(error);
             }
         });
 
     program
-        .command("jal")
-        .description("JALの運航情報を取得してSlackに通知します")
-        .option("--icon <emoji>", "Slackに投稿する際のアイコン絵文字", ":jal:")
-        .option("--username <name>", "Slackに投稿する際のユーザー名", "JAL運航情報")
-        .option("--force", "強制的に通知を送信する", false)
-        .action(async options => {
+        .command("ics")
+        .description("保存されている状態から特別な取り扱いの期間をiCalendar形式で出力します")
+        .argument("[airlines...]", `航空会社 (${airlineIds.join(", ")})。省略した場合はすべての航空会社`)
+        .option("--output <path>", "出力するファイル。省略した場合は標準出力に出力する")
+        .action(async (airlines: string[], options: { output?: string }) => {
             try {
-                const jalService = createJalService();
-                const html = await jalService.fetchFlightInfo();
-                const lastState = await jalService.loadState();
-                const hasIrregular = jalService.hasIrregularFlights(html);
-                const updateTime = jalService.getUpdateTime(html);
-
-                if (!hasIrregular) {
-                    // --forceオプションが指定されている場合は通常運航のメッセージを送信
-                    if (options.force) {
-                        const message = jalService.formatMessage([], updateTime, false);
-                        await postToSlack(message, {
-                            icon: options.icon,
-                            username: options.username,
-                            token: config.slackToken,
-                            channel: config.slackChannel,
-                        });
-
-                        const newState = {
-                            lastCheck: new Date().toISOString(),
-                            flightInfos: [],
-                        };
-                        await jalService.saveState(newState);
-                        console.log("Posted normal operation message (forced)");
-                        return;
-                    }
-
-                    // 前回の状態がない場合は何もしない
-                    if (!lastState) {
-                        console.log("No irregular flights found and no previous state exists");
-                        const newState = {
-                            lastCheck: new Date().toISOString(),
-                            flightInfos: [],
-                        };
-                        await jalService.saveState(newState);
-                        return;
-                    }
+                const providers = airlines.length > 0 ? airlines.map(getProvider) : getProviders();
+                const calendar = await exportCalendar(providers);
+                if (options.output) {
+                    await fs.writeFile(options.output, calendar, "utf-8");
+                } else {
+                    process.stdout.write(calendar);
+                }
+            } catch (error) {
+                exitWithError(error);
+            }
+        });
 
-                    // 前回の状態がある場合、前回も空だった場合は通知しない
-                    if (lastState.flightInfos.length === 0) {
-                        console.log("No irregular flights found and previous state was also empty");
-                        const newState = {
-                            lastCheck: new Date().toISOString(),
-                            flightInfos: [],
-                        };
-                        await jalService.saveState(newState);
-                        return;
-                    }
+    program
+        .command("parse")
+        .description("保存したHTMLファイルを解析し、解析結果と通知するメッセージをJSONで出力します")
+        .argument("<airline>", `航空会社 (${airlineIds.join(", ")})`)
+        .requiredOption("--file <path>", "解析するHTMLファイル")
+        .action(async (airline: string, options: { file: string }) => {
+            try {
+                const html = await fs.readFile(options.file, "utf-8");
+                const result = parseProviderHTML(getProvider(airline), html);
+                console.log(JSON.stringify(result, null, 2));
+            } catch (error) {
+                exitWithError(error);
+            }
+        });
 
-                    // 前回は運航情報があり、今回はない場合のみ通常運航のメッセージを送信
-                    const message = jalService.formatMessage([], updateTime, false);
-                    await postToSlack(message, {
-                        icon: options.icon,
-                        username: options.username,
-                        token: config.slackToken,
-                        channel: config.slackChannel,
-                    });
+    const history = program.command("history").description("保存したスナップショットを表示します");
 
-                    const newState = {
-                        lastCheck: new Date().toISOString(),
-                        flightInfos: [],
-                    };
-                    await jalService.saveState(newState);
-                    console.log("Posted normal operation message");
-                    return;
+    history
+        .command("list")
+        .description("保存したスナップショットの一覧を表示します")
+        .argument("<airline>", `航空会社 (${airlineIds.join(", ")})`)
+        .option("--limit <count>", "表示する件数 (新しい順)", parsePositiveInteger, 20)
+        .action(async (airline: string, options: { limit: number }) => {
+            try {
+                const snapshots = await createSnapshotArchive(getProvider(airline).id).listSnapshots();
+                for (const snapshot of snapshots.reverse().slice(0, options.limit)) {
+                    const airportCount = snapshot.flightInfos.reduce((count, info) => count + info.airports.length, 0);
+                    console.log(
+                        `${snapshot.id}\t${snapshot.fetchedAt}\t${snapshot.updateTime}\t${airportCount} airports`,
+                    );
                 }
+            } catch (error) {
+                exitWithError(error);
+            }
+        });
 
-                const flightInfos = jalService.parseIrregularFlights(html);
-                const hasChanged = jalService.hasStateChanged(lastState, flightInfos);
+    history
+        .command("show")
+        .description("スナップショットの解析結果をJSONで表示します")
+        .argument("<airline>", `航空会社 (${airlineIds.join(", ")})`)
+        .argument("<id>", "スナップショットのID")
+        .option("--html", "解析結果の代わりに保存したHTMLを出力する", false)
+        .action(async (airline: string, id: string, options: { html: boolean }) => {
+            try {
+                const { snapshot, html } = await createSnapshotArchive(getProvider(airline).id).loadSnapshot(id);
+                console.log(options.html ? html : JSON.stringify(snapshot, null, 2));
+            } catch (error) {
+                exitWithError(error);
+            }
+        });
 
-                // 変更がない場合は通知しない (ただし--forceオプションが指定されている場合は通知する)
-                if (!hasChanged && !options.force) {
-                    console.log("No changes in flight information since last check");
-                    return;
+    history
+        .command("timeline")
+        .description("空港ごとに特別な取り扱いの対象になった日時と外れた日時を表示します")
+        .argument("<airline>", `航空会社 (${airlineIds.join(", ")})`)
+        .option("--from <date>", "この日 (YYYY-MM-DD) 以降に続いていた期間を表示する")
+        .option("--to <date>", "この日 (YYYY-MM-DD) までに始まった期間を表示する")
+        .action(async (airline: string, options: { from?: string; to?: string }) => {
+            try {
+                const snapshots = await createSnapshotArchive(getProvider(airline).id).listSnapshots();
+                // 日付は日本時間で解釈する
+                const from = options.from && new Date(`${options.from}T00:00:00+09:00`).toISOString();
+                const to =
+                    options.to &&
+                    new Date(Date.parse(`${options.to}T00:00:00+09:00`) + 24 * 60 * 60 * 1000).toISOString();
+                const format = (date: string) => new Date(date).toLocaleString("ja-JP", { timeZone: "Asia/Tokyo" });
+
+                for (const entry of buildTimeline(snapshots, from, to)) {
+                    const airport = entry.iata ? `${entry.airport} (${entry.iata})` : entry.airport;
+                    const end = entry.end ? format(entry.end) : "継続中";
+                    console.log(`${format(entry.start)} → ${end}\t${entry.region} / ${airport}`);
                 }
+            } catch (error) {
+                exitWithError(error);
+            }
+        });
 
-                const message = jalService.formatMessage(flightInfos, updateTime, true);
-                await postToSlack(message, {
-                    icon: options.icon,
-                    username: options.username,
-                    token: config.slackToken,
-                    channel: config.slackChannel,
-                });
+    const state = program.command("state").description("保存した状態を管理します");
 
-                // 新しい状態を保存
-                const newState = {
-                    lastCheck: new Date().toISOString(),
-                    flightInfos,
+    state
+        .command("import")
+        .description("storage/*.json に保存した状態をSQLiteのデータベースに取り込みます")
+        .argument("[airlines...]", `航空会社 (${airlineIds.join(", ")})。省略した場合はすべての航空会社`)
+        .option("--database <path>", "取り込み先のデータベース。省略した場合は STATE_DATABASE")
+        .option("--directory <path>", "JSONの状態を保存しているディレクトリ", "storage")
+        .option("--force", "データベースにすでに状態がある航空会社も上書きする", false)
+        .action(async (airlines: string[], options: { database?: string; directory: string; force: boolean }) => {
+            try {
+                const providers = airlines.length > 0 ? airlines.map(getProvider) : getProviders();
+                const database = options.database ?? getStateConfig().database;
+                const results = await importJsonStates(providers, database, options);
+                const messages: Record<ImportResult, string> = {
+                    imported: "imported",
+                    exists: "skipped (already in the database; use --force to overwrite)",
+                    missing: "skipped (no JSON state)",
                 };
-                await jalService.saveState(newState);
 
-                console.log(
-                    options.force
-                        ? "Successfully posted irregular flight information to Slack (forced)"
-                        : "Successfully posted irregular flight information to Slack",
-                );
+                for (const [airline, result] of Object.entries(results)) {
+                    console.log(`${airline}\t${messages[result]}`);
+                }
+                console.log(`Database: ${database}`);
             } catch (error) {
-                console.error("Error:", error);
-                process.exit(1);
+                exitWithError(error);
             }
         });
 
+    // 既存の `ana` / `jal` などのコマンドは `run <airline>` のショートカットとして残す
+    for (const provider of getProviders()) {
+        program
+            .command(provider.id)
+            .description(`${provider.name}の運航情報を取得して通知します`)
+            .option("--icon <emoji>", `Slackに投稿する際のアイコン絵文字 (既定値は ${provider.defaultIcon})`)
+            .option("--username <name>", `Slackに投稿する際のユーザー名 (既定値は ${provider.defaultUsername})`)
+            .option("--force", "強制的に通知を送信する", false)
+            .option("--update-parent", "続報をスレッドに返信する際に最初のメッセージも最新の内容に更新する")
+            .option("--archive", "取得したHTMLと解析結果をスナップショットとして保存する")
+            .option("--dry-run", "通知や状態の保存をせずに、送信するメッセージと状態の変化を表示する")
+            .action(async (options: ProviderCommandOptions) => {
+                await runProviderCommand(provider.id, options);
+            });
+    }
+
     program.parse();
 }
 
 main().catch(error => {
-    console.error("Error:", error);
-    process.exit(1);
+    exitWithError(error);
 });
@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { type Snapshot, buildTimeline, createSnapshotArchive } from "./archive";
+
+const snapshot = (fetchedAt: string, airports: string[]): Snapshot => ({
+    id: fetchedAt,
+    airline: "ana",
+    fetchedAt,
+    hash: fetchedAt,
+    updateTime: "",
+    hasIrregularFlights: airports.length > 0,
+    flightInfos: airports.length > 0 ? [{ region: "沖縄", airports: airports.map(name => ({ name })) }] : [],
+});
+
+describe("buildTimeline", () => {
+    const snapshots = [
+        snapshot("2025-02-05T01:00:00.000Z", ["那覇"]),
+        snapshot("2025-02-06T01:00:00.000Z", ["那覇", "石垣"]),
+        snapshot("2025-02-07T01:00:00.000Z", ["石垣"]),
+        snapshot("2025-02-08T01:00:00.000Z", []),
+        snapshot("2025-02-10T01:00:00.000Z", ["那覇"]),
+    ];
+
+    test("records when each airport entered and left special handling", () => {
+        expect(buildTimeline(snapshots)).toEqual([
+            { region: "沖縄", airport: "那覇", start: "2025-02-05T01:00:00.000Z", end: "2025-02-07T01:00:00.000Z" },
+            { region: "沖縄", airport: "石垣", start: "2025-02-06T01:00:00.000Z", end: "2025-02-08T01:00:00.000Z" },
+            { region: "沖縄", airport: "那覇", start: "2025-02-10T01:00:00.000Z" },
+        ]);
+    });
+
+    test("filters by date range", () => {
+        const timeline = buildTimeline(snapshots, "2025-02-07T12:00:00.000Z", "2025-02-09T00:00:00.000Z");
+
+        expect(timeline.map(entry => [entry.airport, entry.start])).toEqual([["石垣", "2025-02-06T01:00:00.000Z"]]);
+    });
+});
+
+describe("createSnapshotArchive", () => {
+    let directory: string;
+    const result = { updateTime: "", hasIrregularFlights: false, flightInfos: [] };
+
+    beforeEach(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), "archive-"));
+    });
+
+    afterEach(async () => {
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    test("skips a page identical to the latest snapshot", async () => {
+        const archive = createSnapshotArchive("ana", directory);
+
+        expect(await archive.saveSnapshot("<p>1</p>", result)).not.toBeNull();
+        expect(await archive.saveSnapshot("<p>1</p>", result)).toBeNull();
+        expect(await archive.saveSnapshot("<p>2</p>", result)).not.toBeNull();
+
+        const snapshots = await archive.listSnapshots();
+        expect(snapshots).toHaveLength(2);
+        expect((await fs.readdir(directory)).filter(fileName => fileName.endsWith(".tmp"))).toEqual([]);
+    });
+
+    test("compares with the newest snapshot when the latest snapshot is not recorded", async () => {
+        const archive = createSnapshotArchive("ana", directory);
+        await archive.saveSnapshot("<p>1</p>", result);
+        await fs.rm(path.join(directory, "latest.json"));
+
+        expect(await archive.saveSnapshot("<p>1</p>", result)).toBeNull();
+    });
+});
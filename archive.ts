@@ -0,0 +1,169 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { writeFileAtomic } from "./file_store";
+import { hashContent } from "./hash";
+import type { BaseFlightInfo } from "./state_manager";
+
+export interface Snapshot<T extends BaseFlightInfo = BaseFlightInfo> {
+    id: string;
+    airline: string;
+    fetchedAt: string;
+    /** 取得したHTMLのSHA-256 */
+    hash: string;
+    updateTime: string;
+    hasIrregularFlights: boolean;
+    flightInfos: T[];
+}
+
+export interface TimelineEntry {
+    region: string;
+    airport: string;
+    iata?: string;
+    /** 特別な取り扱いの対象として最初に記録された日時 */
+    start: string;
+    /** 対象から外れたことが最初に記録された日時。続いている場合はundefined */
+    end?: string;
+}
+
+export interface SnapshotArchive<T extends BaseFlightInfo> {
+    /**
+     * 取得したHTMLと解析結果を保存する。前回と同じ内容の場合は保存せずnullを返す
+     */
+    saveSnapshot: (
+        html: string,
+        result: Omit<Snapshot<T>, "id" | "airline" | "fetchedAt" | "hash">,
+    ) => Promise<Snapshot<T> | null>;
+    /** 保存されているスナップショットを古い順に返す */
+    listSnapshots: () => Promise<Snapshot<T>[]>;
+    loadSnapshot: (id: string) => Promise<{ snapshot: Snapshot<T>; html: string }>;
+}
+
+/** 最新のスナップショット。保存のたびにすべてのスナップショットを読み込まずに前回と比較するために使う */
+interface LatestSnapshot {
+    id: string;
+    hash: string;
+}
+
+const latestFileName = "latest.json";
+
+export const createSnapshotArchive = <T extends BaseFlightInfo>(
+    airlineId: string,
+    directory = path.join("storage", "archive", airlineId),
+): SnapshotArchive<T> => {
+    const latestPath = path.join(directory, latestFileName);
+
+    const listSnapshots = async (): Promise<Snapshot<T>[]> => {
+        let fileNames: string[];
+        try {
+            fileNames = await fs.readdir(directory);
+        } catch (error) {
+            // まだスナップショットが保存されていない
+            return [];
+        }
+
+        const snapshots = await Promise.all(
+            fileNames
+                .filter(fileName => fileName.endsWith(".json") && fileName !== latestFileName)
+                .map(async fileName => {
+                    const data = await fs.readFile(path.join(directory, fileName), "utf-8");
+                    return JSON.parse(data) as Snapshot<T>;
+                }),
+        );
+
+        return snapshots.sort((a, b) => a.fetchedAt.localeCompare(b.fetchedAt));
+    };
+
+    const loadLatest = async (): Promise<LatestSnapshot | undefined> => {
+        try {
+            return JSON.parse(await fs.readFile(latestPath, "utf-8")) as LatestSnapshot;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+                throw error;
+            }
+            // 最新のスナップショットを記録する前に保存したアーカイブは、すべてのスナップショットから求める
+            return (await listSnapshots()).at(-1);
+        }
+    };
+
+    const saveSnapshot: SnapshotArchive<T>["saveSnapshot"] = async (html, result) => {
+        const hash = hashContent(html);
+
+        // 前回と同じ内容の場合は保存しない
+        if ((await loadLatest())?.hash === hash) {
+            return null;
+        }
+
+        const fetchedAt = new Date().toISOString();
+        const id = `${fetchedAt.replace(/[-:]/g, "").replace(/\.\d+/, "")}-${hash.slice(0, 8)}`;
+        const snapshot: Snapshot<T> = { id, airline: airlineId, fetchedAt, hash, ...result };
+
+        // HTML、解析結果、最新の記録の順に保存し、途中で終了しても読み込めないスナップショットを残さない
+        await writeFileAtomic(path.join(directory, `${id}.html`), html);
+        await writeFileAtomic(path.join(directory, `${id}.json`), JSON.stringify(snapshot, null, 2));
+        await writeFileAtomic(latestPath, JSON.stringify({ id, hash } satisfies LatestSnapshot));
+
+        return snapshot;
+    };
+
+    const loadSnapshot = async (id: string): Promise<{ snapshot: Snapshot<T>; html: string }> => {
+        if (!/^[\w-]+$/.test(id)) {
+            throw new Error(`Invalid snapshot id: ${id}`);
+        }
+
+        try {
+            const data = await fs.readFile(path.join(directory, `${id}.json`), "utf-8");
+            const html = await fs.readFile(path.join(directory, `${id}.html`), "utf-8");
+            return { snapshot: JSON.parse(data) as Snapshot<T>, html };
+        } catch (error) {
+            throw new Error(`Snapshot not found: ${airlineId}/${id}`);
+        }
+    };
+
+    return {
+        saveSnapshot,
+        listSnapshots,
+        loadSnapshot,
+    };
+};
+
+/**
+ * スナップショットから空港ごとに特別な取り扱いの対象になった日時と外れた日時を求める
+ *
+ * @param from この日時以降に続いていた期間のみを返す (ISO 8601)
+ * @param to この日時より前に始まった期間のみを返す (ISO 8601)
+ */
+export const buildTimeline = (snapshots: Snapshot[], from?: string, to?: string): TimelineEntry[] => {
+    const entries: TimelineEntry[] = [];
+    const ongoing = new Map<string, TimelineEntry>();
+
+    for (const snapshot of [...snapshots].sort((a, b) => a.fetchedAt.localeCompare(b.fetchedAt))) {
+        const current = new Set<string>();
+
+        for (const info of snapshot.flightInfos) {
+            for (const airport of info.airports) {
+                const key = JSON.stringify([info.region, airport.name]);
+                current.add(key);
+
+                if (!ongoing.has(key)) {
+                    const entry: TimelineEntry = {
+                        region: info.region,
+                        airport: airport.name,
+                        ...(airport.resolved ? { iata: airport.resolved.iata } : {}),
+                        start: snapshot.fetchedAt,
+                    };
+                    ongoing.set(key, entry);
+                    entries.push(entry);
+                }
+            }
+        }
+
+        for (const [key, entry] of ongoing) {
+            if (!current.has(key)) {
+                entry.end = snapshot.fetchedAt;
+                ongoing.delete(key);
+            }
+        }
+    }
+
+    return entries.filter(entry => (!from || !entry.end || entry.end >= from) && (!to || entry.start < to));
+};
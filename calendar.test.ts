@@ -0,0 +1,99 @@
+import { afterAll, beforeAll, describe, expect, setSystemTime, test } from "bun:test";
+import * as fs from "node:fs";
+import { buildCalendarEvents, renderCalendar } from "./calendar";
+import { createJalService } from "./jal";
+
+const irregularHTML = fs.readFileSync("fixtures/jal/irregular.html", "utf-8");
+
+describe("calendar", () => {
+    const jal = createJalService();
+
+    beforeAll(() => {
+        setSystemTime(new Date("2025-02-05T10:00:00+09:00"));
+    });
+
+    afterAll(() => {
+        setSystemTime();
+    });
+
+    test("buildCalendarEvents turns periods into all-day events", () => {
+        const state = {
+            lastCheck: "2025-02-05T01:00:00.000Z",
+            flightInfos: jal.parseIrregularFlights(irregularHTML),
+        };
+        const events = buildCalendarEvents(jal, state);
+
+        expect(events[0]).toMatchObject({
+            start: "2025-02-05",
+            // 終日の予定の終了日は最終日の翌日
+            end: "2025-02-08",
+            summary: "JAL 特別な取り扱い: 札幌（新千歳）",
+            description:
+                "航空会社: JAL\n地域: 北海道\n空港: 札幌（新千歳） (CTS)\n対象日: 2月5日（水）～2月7日（金）\n内容: 大雪の影響",
+        });
+
+        // 終了日が延長されても同じ予定として更新される
+        const extended = buildCalendarEvents(jal, {
+            ...state,
+            flightInfos: state.flightInfos.map(info => ({
+                ...info,
+                airports: info.airports.map(airport => ({
+                    ...airport,
+                    range: { ...airport.range, end: "2025-02-10" },
+                })),
+            })),
+        });
+        expect(extended[0].uid).toBe(events[0].uid);
+        expect(new Set(events.map(event => event.uid)).size).toBe(events.length);
+    });
+
+    test("keeps the same UID for a period without a start date across checks", () => {
+        const state = (lastCheck: string) => ({
+            lastCheck,
+            flightInfos: [
+                {
+                    region: "沖縄",
+                    airports: [
+                        {
+                            name: "沖縄(那覇)",
+                            date: "2月10日まで",
+                            content: "台風の影響",
+                            range: { end: "2025-02-10" },
+                        },
+                    ],
+                },
+            ],
+        });
+        const first = buildCalendarEvents(jal, state("2025-02-05T01:00:00.000Z"));
+        const next = buildCalendarEvents(jal, state("2025-02-06T01:00:00.000Z"));
+
+        expect(first[0].start).toBe("2025-02-05");
+        expect(next[0].start).toBe("2025-02-06");
+        expect(next[0].uid).toBe(first[0].uid);
+    });
+
+    test("renderCalendar escapes and folds lines", () => {
+        const ics = renderCalendar(
+            [
+                {
+                    uid: "1@test",
+                    start: "2025-02-05",
+                    end: "2025-02-08",
+                    summary: "ANA 特別な取り扱い: 札幌(新千歳)",
+                    description: `対象期間: 2月5日～2月7日, 大雪;\n${"あ".repeat(40)}`,
+                    url: "https://example.com/",
+                    stamp: "2025-02-05T01:00:00.000Z",
+                },
+            ],
+            "テスト",
+        );
+        const lines = ics.split("\r\n");
+
+        expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+        expect(lines).toContain("DTSTART;VALUE=DATE:20250205");
+        expect(lines).toContain("DTSTAMP:20250205T010000Z");
+        expect(ics).toContain("DESCRIPTION:対象期間: 2月5日～2月7日\\, 大雪\\;\\n");
+        expect(lines.every(line => new TextEncoder().encode(line).length <= 75)).toBe(true);
+        expect(ics.replace(/\r\n /g, "")).toContain("あ".repeat(40));
+    });
+});
@@ -0,0 +1,135 @@
+import { todayInTokyo } from "./date_range";
+import { hashContent } from "./hash";
+import type { AirlineProvider } from "./provider";
+import type { BaseFlightInfo, BaseState } from "./state_manager";
+
+export interface CalendarEvent {
+    /** 航空会社、地域、空港、ページに記載された開始日から求めるため、終了日が変わっても同じUIDのまま更新される */
+    uid: string;
+    /** 開始日 (YYYY-MM-DD) */
+    start: string;
+    /** 終了日 (YYYY-MM-DD)。終日の予定のため最終日の翌日 */
+    end: string;
+    summary: string;
+    description: string;
+    url: string;
+    /** 予定を作成した日時 (ISO 8601) */
+    stamp: string;
+}
+
+const addDays = (date: string, days: number): string =>
+    new Date(Date.parse(`${date}T00:00:00Z`) + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+/**
+ * 保存されている状態の空港ごとの期間を終日の予定にする
+ *
+ * 日付が読み取れない空港は除外する。終了日のない期間は開始日のみ、開始日のない期間は最終確認日から終了日までとする
+ */
+export const buildCalendarEvents = <T extends BaseFlightInfo>(
+    provider: AirlineProvider<T>,
+    state: BaseState<T>,
+): CalendarEvent[] =>
+    state.flightInfos.flatMap(info =>
+        info.airports.flatMap(airport => {
+            const range = airport.range;
+            if (!range || (!range.start && !range.end)) {
+                return [];
+            }
+
+            const lastCheckDate = todayInTokyo(new Date(state.lastCheck));
+            const end = range.end ?? range.start ?? lastCheckDate;
+            const start = range.start ?? (lastCheckDate < end ? lastCheckDate : end);
+            const details: [string, string][] = [
+                ["航空会社", provider.name],
+                ["地域", info.region],
+                ["空港", airport.resolved ? `${airport.name} (${airport.resolved.iata})` : airport.name],
+                ...provider.describeAirport(airport),
+            ];
+            // 開始日のない期間の開始日は確認するたびに変わるため、UIDには含めない
+            const key = hashContent(JSON.stringify([provider.id, info.region, airport.name, range.start ?? null]));
+
+            return [
+                {
+                    uid: `${key.slice(0, 32)}@airline-irregular-notification`,
+                    start,
+                    end: addDays(end, 1),
+                    summary: `${provider.name} 特別な取り扱い: ${airport.name}`,
+                    description: details.map(([label, value]) => `${label}: ${value}`).join("\n"),
+                    url: provider.url,
+                    stamp: state.lastCheck,
+                },
+            ];
+        }),
+    );
+
+const escapeText = (value: string): string =>
+    value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+const toDateValue = (date: string): string => date.replace(/-/g, "");
+
+const toDateTimeValue = (date: string): string => `${new Date(date).toISOString().replace(/[-:]/g, "").slice(0, 15)}Z`;
+
+/**
+ * RFC 5545に従い、75オクテットを超える行を折り返す
+ */
+const foldLine = (line: string): string => {
+    const encoder = new TextEncoder();
+    const lines: string[] = [];
+    let current = "";
+
+    for (const char of line) {
+        // 2行目以降は先頭の空白の分だけ短くする
+        const limit = lines.length === 0 ? 75 : 74;
+        if (encoder.encode(current + char).length > limit) {
+            lines.push(current);
+            current = "";
+        }
+        current += char;
+    }
+    lines.push(current);
+
+    return lines.join("\r\n ");
+};
+
+export const renderCalendar = (events: CalendarEvent[], name: string): string => {
+    const lines = [
+        "BEGIN:VCALENDAR",
+        "VERSION:2.0",
+        "PRODID:-//airline-irregular-notification//JA",
+        "CALSCALE:GREGORIAN",
+        "METHOD:PUBLISH",
+        `X-WR-CALNAME:${escapeText(name)}`,
+        ...events.flatMap(event => [
+            "BEGIN:VEVENT",
+            `UID:${event.uid}`,
+            `DTSTAMP:${toDateTimeValue(event.stamp)}`,
+            `DTSTART;VALUE=DATE:${toDateValue(event.start)}`,
+            `DTEND;VALUE=DATE:${toDateValue(event.end)}`,
+            `SUMMARY:${escapeText(event.summary)}`,
+            `DESCRIPTION:${escapeText(event.description)}`,
+            `URL:${event.url}`,
+            "TRANSP:TRANSPARENT",
+            "END:VEVENT",
+        ]),
+        "END:VCALENDAR",
+    ];
+
+    return `${lines.map(foldLine).join("\r\n")}\r\n`;
+};
+
+/**
+ * 航空会社の保存されている状態から予定を作る。状態がない航空会社は除外する
+ */
+export const exportCalendar = async (providers: AirlineProvider[]): Promise<string> => {
+    const events: CalendarEvent[] = [];
+    for (const provider of providers) {
+        const state = await provider.loadState({ readOnly: true });
+        if (state) {
+            events.push(...buildCalendarEvents(provider, state));
+        }
+    }
+
+    const name = providers.length === 1 ? `${providers[0].name} 特別な取り扱い` : "航空会社の特別な取り扱い";
+
+    return renderCalendar(events, name);
+};
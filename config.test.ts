@@ -0,0 +1,29 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { getAirlinesConfig, getObservabilityConfig, getStateConfig, setConfigSource } from "./config";
+
+describe("config", () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), "config-"));
+    const filePath = path.join(directory, "config.json");
+
+    afterEach(() => {
+        setConfigSource({});
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    test("reads the config file once until the source changes", () => {
+        fs.writeFileSync(filePath, JSON.stringify({ airlines: ["ana"], state: { backend: "sqlite" } }));
+        setConfigSource({ file: filePath });
+        expect(getStateConfig().backend).toBe("sqlite");
+
+        // 読み込んだ後にファイルが変わっても、同じ設定を使う
+        fs.writeFileSync(filePath, "{");
+        expect(getAirlinesConfig()).toEqual({ airlines: ["ana"] });
+        expect(getObservabilityConfig().logLevel).toBe("info");
+
+        setConfigSource({ file: filePath });
+        expect(() => getStateConfig()).toThrow(`Failed to load config from ${filePath}`);
+    });
+});
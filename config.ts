@@ -1,30 +1,398 @@
-type Config = {
-    slackToken: string;
-    slackChannel: string;
+import * as path from "node:path";
+import {
+    type ProfileConfig,
+    type ScheduleConfig,
+    type SenderConfig,
+    loadConfigFile,
+    resolveProfile,
+} from "./config_file";
+import {
+    type LogFormat,
+    type LogLevel,
+    type NotifierId,
+    type StateBackend,
+    logFormats,
+    logLevels,
+    notifierIds,
+    stateBackends,
+} from "./config_options";
+import { type MessageLanguage, messageLanguages } from "./locale";
+import { type MentionPolicy, type QuietHoursMode, quietHoursModes, timePattern } from "./mention_policy";
+import { type RoutingConfig, loadRoutingConfig } from "./routing";
+
+export type SlackConfig = {
+    token: string;
+    channel: string;
+};
+
+export type DiscordConfig = {
+    webhookUrl: string;
+};
+
+export type WebhookConfig = {
+    url: string;
+};
+
+export type EmailConfig = {
+    smtpUrl: string;
+    from: string;
+    to: string[];
+};
+
+export type Config = {
     userAgent: string;
+    slack?: SlackConfig;
+    discord?: DiscordConfig;
+    webhook?: WebhookConfig;
+    email?: EmailConfig;
+    /** 航空会社ごとの設定がない場合に使う通知先 (設定されているすべての通知先) */
+    defaultNotifiers: NotifierId[];
+    /** `<AIRLINE>_NOTIFIERS` で指定された航空会社ごとの通知先 */
+    airlineNotifiers: Record<string, NotifierId[]>;
+    /** `<NOTIFIER>_LANGUAGE` で指定された通知先ごとのメッセージの言語。指定されていない通知先は日本語 */
+    languages: Partial<Record<NotifierId, MessageLanguage>>;
+    /** 既定の通知先のメンションの条件 (`QUIET_HOURS` / `MENTION_*`) */
+    mentionPolicy: MentionPolicy;
+    /** `ROUTING_FILE` で指定された空港ごとの通知先 */
+    routing?: RoutingConfig;
+    /** `ARCHIVE_SNAPSHOTS` が有効な場合は取得したHTMLと解析結果を保存する */
+    archive: boolean;
+    /** `FEEDS` が有効な場合は変更をAtomフィードとして `storage/feeds/` に書き出す */
+    feeds: boolean;
+    /** `OPS_SLACK_CHANNEL` で指定された運用者向けのSlackチャンネル。ページの構造の異常を通知する */
+    opsChannel?: string;
+    /** 設定ファイルで指定された `all` と `watch` の対象の航空会社。省略した場合はすべての航空会社 */
+    airlines?: string[];
+    updateParent: boolean;
+    /** 航空会社ごとのアイコン絵文字とユーザー名 */
+    senders: Record<string, SenderConfig>;
+    schedule: ScheduleConfig;
+    fetch: {
+        /** 1回のリクエストのタイムアウト (ミリ秒) */
+        timeout: number;
+        /** 一時的な失敗を再試行する回数 */
+        retries: number;
+    };
+};
+
+export type StateConfig = {
+    /** `json` は航空会社ごとのJSONファイル、`sqlite` は1つのSQLiteファイルに保存する */
+    backend: StateBackend;
+    /** `sqlite` の場合のデータベースファイル */
+    database: string;
+    /** `sqlite` の場合に確認の履歴を残す日数 */
+    retentionDays: number;
+};
+
+export type ObservabilityConfig = {
+    logFormat: LogFormat;
+    logLevel: LogLevel;
+    /** 指定された場合は確認のたびにPrometheusのテキスト形式でメトリクスを書き出す */
+    metricsFile?: string;
 };
 
-const requiredEnvNames = ["SLACK_TOKEN", "SLACK_CHANNEL", "USER_AGENT"] as const;
+export interface ConfigSource {
+    /** 設定ファイル。省略した場合は `CONFIG_FILE` */
+    file?: string;
+    /** 設定ファイルのプロファイル。省略した場合は `CONFIG_PROFILE` */
+    profile?: string;
+}
 
 let config: Config | undefined;
+let configSource: ConfigSource = {};
+/** 読み込んだプロファイル。設定ファイルとプロファイル名ごとに1回だけ読み込む */
+let loadedProfile: { key: string; profile: ProfileConfig } | undefined;
+
+/**
+ * CLIで指定された設定ファイルとプロファイルを使う。読み込み済みの設定は破棄する
+ */
+export const setConfigSource = (source: ConfigSource): void => {
+    configSource = source;
+    config = undefined;
+    loadedProfile = undefined;
+};
+
+const getEnv = (name: string): string | undefined => {
+    const value = process.env[name];
+    return typeof value === "string" && value !== "" ? value : undefined;
+};
+
+/**
+ * `1` / `true` の場合は有効、それ以外の値は無効とする。設定されていない場合はundefinedを返す
+ */
+const getEnvFlag = (name: string): boolean | undefined => {
+    const value = getEnv(name);
+    return value === undefined ? undefined : ["1", "true"].includes(value.toLowerCase());
+};
+
+/**
+ * 通知先のグループ (例: SLACK_TOKEN と SLACK_CHANNEL) がすべて設定されている場合のみ値を返す
+ *
+ * @param fallback 環境変数が設定されていない項目に使う設定ファイルの値
+ */
+const getEnvGroup = <K extends string>(
+    names: Record<K, string>,
+    fallback: Partial<Record<K, string>> = {},
+): Record<K, string> | undefined => {
+    const entries = Object.entries(names) as [K, string][];
+    const values = entries.map(([key, name]) => [key, getEnv(name) ?? fallback[key]] as const);
+    const missing = entries.filter((_, index) => values[index][1] === undefined).map(([, name]) => name);
+
+    if (missing.length === entries.length) {
+        return undefined;
+    }
+
+    if (missing.length > 0) {
+        throw new Error(`Required environment variables are missing: ${missing.join(", ")}`);
+    }
+
+    return Object.fromEntries(values) as Record<K, string>;
+};
+
+const getEnvNumber = (name: string, isValid: (value: number) => boolean): number | undefined => {
+    const value = getEnv(name);
+    if (value === undefined) {
+        return undefined;
+    }
+
+    const number = Number(value);
+    if (!Number.isFinite(number) || !isValid(number)) {
+        throw new Error(`${name} is invalid: ${value}`);
+    }
+
+    return number;
+};
+
+const parseList = (value: string): string[] =>
+    value
+        .split(",")
+        .map(item => item.trim())
+        .filter(item => item !== "");
+
+/**
+ * 環境変数で指定された項目を設定ファイルのメンションの条件に重ねる
+ */
+const getMentionPolicy = (file: MentionPolicy = {}): MentionPolicy => {
+    let quietHours = file.quietHours;
+    const quietHoursValue = getEnv("QUIET_HOURS");
+    if (quietHoursValue !== undefined) {
+        const [start, end] = quietHoursValue.split("-").map(time => time.trim());
+        if (!timePattern.test(start ?? "") || !timePattern.test(end ?? "")) {
+            throw new Error(`QUIET_HOURS must be like "22:00-07:00": ${quietHoursValue}`);
+        }
+        quietHours = { start, end, mode: quietHours?.mode ?? "defer" };
+    }
+
+    const mode = getEnv("QUIET_HOURS_MODE");
+    if (mode !== undefined) {
+        if (!(quietHoursModes as readonly string[]).includes(mode)) {
+            throw new Error(`QUIET_HOURS_MODE is invalid: ${mode} (available: ${quietHoursModes.join(", ")})`);
+        }
+        if (!quietHours) {
+            throw new Error("QUIET_HOURS_MODE requires QUIET_HOURS");
+        }
+        quietHours = { ...quietHours, mode: mode as QuietHoursMode };
+    }
+
+    const minAirports = getEnvNumber("MENTION_MIN_AIRPORTS", value => Number.isInteger(value) && value > 0);
+    const hubs = getEnv("MENTION_HUBS");
+    const escalation =
+        minAirports !== undefined || hubs !== undefined
+            ? {
+                  ...file.escalation,
+                  ...(minAirports !== undefined ? { minAirports } : {}),
+                  ...(hubs !== undefined ? { hubs: parseList(hubs) } : {}),
+              }
+            : file.escalation;
+    const mentions = getEnv("MENTION_TARGETS");
+
+    return {
+        ...(quietHours ? { quietHours } : {}),
+        ...(escalation ? { escalation } : {}),
+        ...(mentions !== undefined
+            ? { mentions: parseList(mentions) }
+            : file.mentions
+              ? { mentions: file.mentions }
+              : {}),
+    };
+};
 
+const parseNotifierIds = (name: string, value: string): NotifierId[] => {
+    const ids = parseList(value);
+    const unknownIds = ids.filter(id => !(notifierIds as readonly string[]).includes(id));
+
+    if (unknownIds.length > 0) {
+        throw new Error(
+            `${name} contains unknown notifiers: ${unknownIds.join(", ")} (available: ${notifierIds.join(", ")})`,
+        );
+    }
+
+    return ids as NotifierId[];
+};
+
+const loadProfile = (): ProfileConfig => {
+    const configFile = configSource.file ?? getEnv("CONFIG_FILE");
+    const profileName = configSource.profile ?? getEnv("CONFIG_PROFILE");
+
+    if (profileName && !configFile) {
+        throw new Error("A config profile was specified without a config file: set CONFIG_FILE or --config");
+    }
+
+    // getConfigやgetStateConfigなどから呼ばれるたびにファイルを読み込んで検証し直さない
+    const key = JSON.stringify([configFile, profileName]);
+    if (loadedProfile?.key !== key) {
+        loadedProfile = { key, profile: configFile ? resolveProfile(loadConfigFile(configFile), profileName) : {} };
+    }
+
+    return loadedProfile.profile;
+};
+
+/**
+ * 状態の保存先の設定。通知先を設定していなくても状態を読めるよう、getConfigとは別に求める
+ */
+export function getStateConfig(): StateConfig {
+    const file = loadProfile();
+    const backend = getEnv("STATE_BACKEND") ?? file.state?.backend ?? "json";
+
+    if (!(stateBackends as readonly string[]).includes(backend)) {
+        throw new Error(`STATE_BACKEND is invalid: ${backend} (available: ${stateBackends.join(", ")})`);
+    }
+
+    return {
+        backend: backend as StateBackend,
+        database: getEnv("STATE_DATABASE") ?? file.state?.database ?? path.join("storage", "state.sqlite"),
+        retentionDays:
+            getEnvNumber("STATE_RETENTION_DAYS", value => Number.isInteger(value) && value > 0) ??
+            file.state?.retentionDays ??
+            90,
+    };
+}
+
+const parseChoice = <T extends string>(name: string, value: string, choices: readonly T[]): T => {
+    if (!(choices as readonly string[]).includes(value)) {
+        throw new Error(`${name} is invalid: ${value} (available: ${choices.join(", ")})`);
+    }
+
+    return value as T;
+};
+
+/**
+ * ログとメトリクスの設定。通知先を設定していなくても使えるよう、getConfigとは別に求める
+ */
+export function getObservabilityConfig(): ObservabilityConfig {
+    const file = loadProfile();
+    const metricsFile = getEnv("METRICS_FILE") ?? file.metrics?.file;
+
+    return {
+        logFormat: parseChoice("LOG_FORMAT", getEnv("LOG_FORMAT") ?? file.logging?.format ?? "text", logFormats),
+        logLevel: parseChoice("LOG_LEVEL", getEnv("LOG_LEVEL") ?? file.logging?.level ?? "info", logLevels),
+        ...(metricsFile ? { metricsFile } : {}),
+    };
+}
+
+/**
+ * 対象の航空会社の設定。通知先を設定していなくても使えるよう、getConfigとは別に求める
+ */
+export function getAirlinesConfig(): Pick<Config, "airlines"> {
+    const file = loadProfile();
+    return file.airlines ? { airlines: file.airlines } : {};
+}
+
+/**
+ * 設定ファイルのプロファイルに環境変数を重ねて設定を作る。環境変数が設定されている項目は環境変数を優先する
+ */
 export function getConfig(): Config {
     if (config) {
         return config;
     }
 
-    const missingEnvNames = requiredEnvNames.filter(
-        name => typeof process.env[name] !== "string" || process.env[name] === "",
+    const file = loadProfile();
+    const userAgent = getEnv("USER_AGENT") ?? file.userAgent;
+
+    if (!userAgent) {
+        throw new Error("Required environment variables are missing: USER_AGENT");
+    }
+
+    const slack = getEnvGroup({ token: "SLACK_TOKEN", channel: "SLACK_CHANNEL" }, file.slack);
+    const discord = getEnvGroup({ webhookUrl: "DISCORD_WEBHOOK_URL" });
+    const webhook = getEnvGroup({ url: "WEBHOOK_URL" });
+    const email = getEnvGroup(
+        { smtpUrl: "SMTP_URL", from: "EMAIL_FROM", to: "EMAIL_TO" },
+        { ...file.email, to: file.email?.to?.join(",") },
     );
 
-    if (missingEnvNames.length > 0) {
-        throw new Error(`Required environment variables are missing: ${missingEnvNames.join(", ")}`);
+    const configured = { slack, discord, webhook, email };
+    const defaultNotifiers = notifierIds.filter(id => configured[id] !== undefined);
+
+    if (defaultNotifiers.length === 0) {
+        throw new Error(
+            "No notifiers are configured: set SLACK_TOKEN and SLACK_CHANNEL, DISCORD_WEBHOOK_URL, WEBHOOK_URL, or SMTP_URL, EMAIL_FROM and EMAIL_TO",
+        );
+    }
+
+    const airlineNotifiers: Record<string, NotifierId[]> = { ...file.notifiers };
+    for (const [name, value] of Object.entries(process.env)) {
+        const match = name.match(/^([A-Z0-9]+)_NOTIFIERS$/);
+        if (match && value) {
+            airlineNotifiers[match[1].toLowerCase()] = parseNotifierIds(name, value);
+        }
+    }
+
+    const languages: Partial<Record<NotifierId, MessageLanguage>> = { ...file.languages };
+    for (const id of notifierIds) {
+        const name = `${id.toUpperCase()}_LANGUAGE`;
+        const value = getEnv(name);
+        if (value === undefined) {
+            continue;
+        }
+        if (!(messageLanguages as readonly string[]).includes(value)) {
+            throw new Error(`${name} is invalid: ${value} (available: ${messageLanguages.join(", ")})`);
+        }
+        languages[id] = value as MessageLanguage;
+    }
+
+    const routingFile = getEnv("ROUTING_FILE") ?? file.routingFile;
+    const routing = routingFile ? loadRoutingConfig(routingFile) : file.routing;
+
+    if (routing && routing.rules.length > 0 && !slack) {
+        throw new Error("Routing rules require SLACK_TOKEN and SLACK_CHANNEL because they post to Slack channels");
+    }
+
+    const opsChannel = getEnv("OPS_SLACK_CHANNEL") ?? file.opsChannel;
+
+    if (opsChannel && !slack) {
+        throw new Error("OPS_SLACK_CHANNEL requires SLACK_TOKEN and SLACK_CHANNEL");
     }
 
     config = {
-        slackToken: process.env.SLACK_TOKEN as string,
-        slackChannel: process.env.SLACK_CHANNEL as string,
-        userAgent: process.env.USER_AGENT as string,
+        userAgent,
+        slack,
+        discord,
+        webhook,
+        email: email && {
+            smtpUrl: email.smtpUrl,
+            from: email.from,
+            to: email.to.split(",").map(address => address.trim()),
+        },
+        defaultNotifiers,
+        airlineNotifiers,
+        languages,
+        mentionPolicy: getMentionPolicy(file.mentionPolicy),
+        routing,
+        archive: getEnvFlag("ARCHIVE_SNAPSHOTS") ?? file.archive ?? false,
+        feeds: getEnvFlag("FEEDS") ?? file.feeds ?? false,
+        opsChannel,
+        airlines: file.airlines,
+        updateParent: file.updateParent ?? false,
+        senders: file.senders ?? {},
+        schedule: file.schedule ?? {},
+        fetch: {
+            timeout: (getEnvNumber("FETCH_TIMEOUT", value => value > 0) ?? file.fetch?.timeout ?? 30) * 1000,
+            retries:
+                getEnvNumber("FETCH_RETRIES", value => Number.isInteger(value) && value >= 0) ??
+                file.fetch?.retries ??
+                2,
+        },
     };
 
     return config;
@@ -0,0 +1,451 @@
+import * as fs from "node:fs";
+import {
+    type LogFormat,
+    type LogLevel,
+    type NotifierId,
+    type StateBackend,
+    logFormats,
+    logLevels,
+    notifierIds,
+    secretSettings,
+    stateBackends,
+} from "./config_options";
+import { type MessageLanguage, messageLanguages } from "./locale";
+import { type MentionPolicy, type QuietHoursMode, quietHoursModes, timePattern } from "./mention_policy";
+import { type RoutingConfig, parseRoutingConfig } from "./routing";
+
+export interface SenderConfig {
+    icon?: string;
+    username?: string;
+}
+
+export interface ScheduleConfig {
+    /** 通常運航時の確認間隔 (分) */
+    interval?: number;
+    /** 特別な取り扱いが続いている間の確認間隔 (分) */
+    irregularInterval?: number;
+    jitter?: number;
+    /** 毎日まとめを送信する時刻 (日本時間の "HH:MM") */
+    digestAt?: string;
+}
+
+export interface FetchConfig {
+    /** 1回のリクエストのタイムアウト (秒) */
+    timeout?: number;
+    /** 一時的な失敗を再試行する回数 */
+    retries?: number;
+}
+
+export interface LoggingConfig {
+    format?: LogFormat;
+    level?: LogLevel;
+}
+
+export interface MetricsConfig {
+    /** Prometheusのテキスト形式で書き出すファイル */
+    file?: string;
+}
+
+export interface StateStoreConfig {
+    backend?: StateBackend;
+    /** `sqlite` の場合のデータベースファイル */
+    database?: string;
+    /** `sqlite` の場合に確認の履歴を残す日数 */
+    retentionDays?: number;
+}
+
+/**
+ * 設定ファイルの1つのプロファイル。環境変数で一部の値のみを指定できるよう、すべての値を省略できる
+ */
+export interface ProfileConfig {
+    userAgent?: string;
+    /** `all` と `watch` で対象にする航空会社 */
+    airlines?: string[];
+    /** トークンなどの秘密の値は環境変数でのみ指定できる (`secretSettings`) */
+    slack?: { channel?: string };
+    email?: { from?: string; to?: string[] };
+    /** 航空会社ごとの通知先 */
+    notifiers?: Record<string, NotifierId[]>;
+    /** 通知先ごとのメッセージの言語 */
+    languages?: Partial<Record<NotifierId, MessageLanguage>>;
+    /** 空港ごとの通知先。routingFileと同時には指定できない */
+    routing?: RoutingConfig;
+    routingFile?: string;
+    opsChannel?: string;
+    archive?: boolean;
+    feeds?: boolean;
+    updateParent?: boolean;
+    /** 航空会社ごとのアイコン絵文字とユーザー名 */
+    senders?: Record<string, SenderConfig>;
+    schedule?: ScheduleConfig;
+    fetch?: FetchConfig;
+    /** 状態の保存先 */
+    state?: StateStoreConfig;
+    /** 既定の通知先のメンションの条件 */
+    mentionPolicy?: MentionPolicy;
+    logging?: LoggingConfig;
+    metrics?: MetricsConfig;
+}
+
+export interface ConfigFile extends ProfileConfig {
+    /** プロファイルが指定されなかった場合に使うプロファイル */
+    defaultProfile?: string;
+    profiles?: Record<string, ProfileConfig>;
+}
+
+type Fail = (path: string, message: string) => never;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+const expectObject = (value: unknown, path: string, fail: Fail): Record<string, unknown> =>
+    isObject(value) ? value : fail(path, "must be an object");
+
+const checkKeys = (value: Record<string, unknown>, keys: readonly string[], path: string, fail: Fail) => {
+    for (const key of Object.keys(value)) {
+        if (!keys.includes(key)) {
+            fail(path ? `${path}.${key}` : key, `is not a known setting (available: ${keys.join(", ")})`);
+        }
+    }
+};
+
+const withoutUndefined = <T extends object>(value: T): Partial<T> =>
+    Object.fromEntries(Object.entries(value).filter(([, item]) => item !== undefined)) as Partial<T>;
+
+const optional = <T>(value: unknown, parse: (value: unknown) => T): T | undefined =>
+    value === undefined ? undefined : parse(value);
+
+const parseString = (value: unknown, path: string, fail: Fail): string =>
+    typeof value === "string" && value !== "" ? value : fail(path, "must be a non-empty string");
+
+const parseStrings = (value: unknown, path: string, fail: Fail): string[] =>
+    Array.isArray(value) && value.every(item => typeof item === "string")
+        ? value
+        : fail(path, "must be an array of strings");
+
+const parseBoolean = (value: unknown, path: string, fail: Fail): boolean =>
+    typeof value === "boolean" ? value : fail(path, "must be true or false");
+
+const parseStringFields = <K extends string>(
+    value: unknown,
+    keys: readonly K[],
+    path: string,
+    fail: Fail,
+): Partial<Record<K, string>> => {
+    const object = expectObject(value, path, fail);
+    checkKeys(object, keys, path, fail);
+
+    return Object.fromEntries(
+        keys
+            .filter(key => object[key] !== undefined)
+            .map(key => [key, parseString(object[key], `${path}.${key}`, fail)]),
+    ) as Partial<Record<K, string>>;
+};
+
+/**
+ * 設定ファイルはリポジトリや共有のストレージに置かれやすいため、秘密の値が書かれている場合は環境変数を案内する
+ */
+const checkSecrets = (value: Record<string, unknown>, path: string, fail: Fail) => {
+    for (const [key, name] of Object.entries(secretSettings)) {
+        const [section, field] = key.split(".");
+        const object = value[section];
+        if (isObject(object) && object[field] !== undefined) {
+            fail(path ? `${path}.${key}` : key, `must be set with the ${name} environment variable`);
+        }
+    }
+};
+
+const parseProfile = (value: unknown, path: string, source: string, fail: Fail): ProfileConfig => {
+    const at = (key: string) => (path ? `${path}.${key}` : key);
+    const profile = expectObject(value, path, fail);
+    const { email, notifiers, languages, routing, senders, schedule } = profile;
+
+    if (profile.routing !== undefined && profile.routingFile !== undefined) {
+        fail(at("routing"), "cannot be used together with routingFile");
+    }
+
+    return {
+        userAgent: optional(profile.userAgent, value => parseString(value, at("userAgent"), fail)),
+        airlines: optional(profile.airlines, value => parseStrings(value, at("airlines"), fail)),
+        slack: optional(profile.slack, value => parseStringFields(value, ["channel"], at("slack"), fail)),
+        email: optional(email, value => {
+            const object = expectObject(value, at("email"), fail);
+            const { to, ...fields } = object;
+            return {
+                ...parseStringFields(fields, ["from"], at("email"), fail),
+                ...(to !== undefined ? { to: parseStrings(to, at("email.to"), fail) } : {}),
+            };
+        }),
+        notifiers: optional(notifiers, value =>
+            Object.fromEntries(
+                Object.entries(expectObject(value, at("notifiers"), fail)).map(([airline, ids]) => {
+                    const list = parseStrings(ids, at(`notifiers.${airline}`), fail);
+                    const unknownIds = list.filter(id => !(notifierIds as readonly string[]).includes(id));
+                    if (unknownIds.length > 0) {
+                        fail(
+                            at(`notifiers.${airline}`),
+                            `contains unknown notifiers: ${unknownIds.join(", ")} (available: ${notifierIds.join(", ")})`,
+                        );
+                    }
+                    return [airline, list as NotifierId[]];
+                }),
+            ),
+        ),
+        languages: optional(languages, value => {
+            const object = expectObject(value, at("languages"), fail);
+            checkKeys(object, notifierIds, at("languages"), fail);
+            return Object.fromEntries(
+                Object.entries(object).map(([id, language]) => [
+                    id,
+                    (messageLanguages as readonly unknown[]).includes(language)
+                        ? (language as MessageLanguage)
+                        : fail(at(`languages.${id}`), `must be one of ${messageLanguages.join(", ")}`),
+                ]),
+            );
+        }),
+        routing: optional(routing, value => parseRoutingConfig(value, `${source} (${at("routing")})`)),
+        routingFile: optional(profile.routingFile, value => parseString(value, at("routingFile"), fail)),
+        opsChannel: optional(profile.opsChannel, value => parseString(value, at("opsChannel"), fail)),
+        archive: optional(profile.archive, value => parseBoolean(value, at("archive"), fail)),
+        feeds: optional(profile.feeds, value => parseBoolean(value, at("feeds"), fail)),
+        updateParent: optional(profile.updateParent, value => parseBoolean(value, at("updateParent"), fail)),
+        senders: optional(senders, value =>
+            Object.fromEntries(
+                Object.entries(expectObject(value, at("senders"), fail)).map(([airline, sender]) => [
+                    airline,
+                    parseStringFields(sender, ["icon", "username"], at(`senders.${airline}`), fail),
+                ]),
+            ),
+        ),
+        schedule: optional(schedule, value => {
+            const object = expectObject(value, at("schedule"), fail);
+            checkKeys(object, ["interval", "irregularInterval", "jitter", "digestAt"], at("schedule"), fail);
+            const parsePositive = (key: string) =>
+                optional(object[key], value =>
+                    typeof value === "number" && value > 0 ? value : fail(at(`schedule.${key}`), "must be positive"),
+                );
+            return withoutUndefined({
+                interval: parsePositive("interval"),
+                irregularInterval: parsePositive("irregularInterval"),
+                jitter: optional(object.jitter, value =>
+                    typeof value === "number" && value >= 0 && value < 1
+                        ? value
+                        : fail(at("schedule.jitter"), "must be between 0 and 1"),
+                ),
+                digestAt: optional(object.digestAt, value =>
+                    typeof value === "string" && timePattern.test(value)
+                        ? value
+                        : fail(at("schedule.digestAt"), 'must be a time like "07:30"'),
+                ),
+            });
+        }),
+        fetch: optional(profile.fetch, value => {
+            const object = expectObject(value, at("fetch"), fail);
+            checkKeys(object, ["timeout", "retries"], at("fetch"), fail);
+            return withoutUndefined({
+                timeout: optional(object.timeout, value =>
+                    typeof value === "number" && value > 0 ? value : fail(at("fetch.timeout"), "must be positive"),
+                ),
+                retries: optional(object.retries, value =>
+                    Number.isInteger(value) && (value as number) >= 0
+                        ? (value as number)
+                        : fail(at("fetch.retries"), "must be a non-negative integer"),
+                ),
+            });
+        }),
+        mentionPolicy: optional(profile.mentionPolicy, value => {
+            const object = expectObject(value, at("mentionPolicy"), fail);
+            checkKeys(object, ["quietHours", "escalation", "mentions"], at("mentionPolicy"), fail);
+            return withoutUndefined({
+                quietHours: optional(object.quietHours, value => {
+                    const quietHours = expectObject(value, at("mentionPolicy.quietHours"), fail);
+                    checkKeys(quietHours, ["start", "end", "mode"], at("mentionPolicy.quietHours"), fail);
+                    const parseTime = (key: string) =>
+                        typeof quietHours[key] === "string" && timePattern.test(quietHours[key])
+                            ? quietHours[key]
+                            : fail(at(`mentionPolicy.quietHours.${key}`), 'must be a time like "22:00"');
+                    return {
+                        start: parseTime("start"),
+                        end: parseTime("end"),
+                        mode:
+                            optional(quietHours.mode, value =>
+                                (quietHoursModes as readonly unknown[]).includes(value)
+                                    ? (value as QuietHoursMode)
+                                    : fail(
+                                          at("mentionPolicy.quietHours.mode"),
+                                          `must be one of ${quietHoursModes.join(", ")}`,
+                                      ),
+                            ) ?? "defer",
+                    };
+                }),
+                escalation: optional(object.escalation, value => {
+                    const escalation = expectObject(value, at("mentionPolicy.escalation"), fail);
+                    checkKeys(escalation, ["minAirports", "hubs"], at("mentionPolicy.escalation"), fail);
+                    return withoutUndefined({
+                        minAirports: optional(escalation.minAirports, value =>
+                            Number.isInteger(value) && (value as number) > 0
+                                ? (value as number)
+                                : fail(at("mentionPolicy.escalation.minAirports"), "must be a positive integer"),
+                        ),
+                        hubs: optional(escalation.hubs, value =>
+                            parseStrings(value, at("mentionPolicy.escalation.hubs"), fail),
+                        ),
+                    });
+                }),
+                mentions: optional(object.mentions, value => parseStrings(value, at("mentionPolicy.mentions"), fail)),
+            });
+        }),
+        state: optional(profile.state, value => {
+            const object = expectObject(value, at("state"), fail);
+            checkKeys(object, ["backend", "database", "retentionDays"], at("state"), fail);
+            return withoutUndefined({
+                backend: optional(object.backend, value =>
+                    (stateBackends as readonly unknown[]).includes(value)
+                        ? (value as StateBackend)
+                        : fail(at("state.backend"), `must be one of ${stateBackends.join(", ")}`),
+                ),
+                database: optional(object.database, value => parseString(value, at("state.database"), fail)),
+                retentionDays: optional(object.retentionDays, value =>
+                    Number.isInteger(value) && (value as number) > 0
+                        ? (value as number)
+                        : fail(at("state.retentionDays"), "must be a positive integer"),
+                ),
+            });
+        }),
+        logging: optional(profile.logging, value => {
+            const object = expectObject(value, at("logging"), fail);
+            checkKeys(object, ["format", "level"], at("logging"), fail);
+            return withoutUndefined({
+                format: optional(object.format, value =>
+                    (logFormats as readonly unknown[]).includes(value)
+                        ? (value as LogFormat)
+                        : fail(at("logging.format"), `must be one of ${logFormats.join(", ")}`),
+                ),
+                level: optional(object.level, value =>
+                    (logLevels as readonly unknown[]).includes(value)
+                        ? (value as LogLevel)
+                        : fail(at("logging.level"), `must be one of ${logLevels.join(", ")}`),
+                ),
+            });
+        }),
+        metrics: optional(profile.metrics, value => {
+            const object = expectObject(value, at("metrics"), fail);
+            checkKeys(object, ["file"], at("metrics"), fail);
+            return withoutUndefined({
+                file: optional(object.file, value => parseString(value, at("metrics.file"), fail)),
+            });
+        }),
+    };
+};
+
+const profileKeys = [
+    "userAgent",
+    "airlines",
+    "slack",
+    "email",
+    "notifiers",
+    "languages",
+    "routing",
+    "routingFile",
+    "opsChannel",
+    "archive",
+    "feeds",
+    "updateParent",
+    "senders",
+    "schedule",
+    "fetch",
+    "state",
+    "mentionPolicy",
+    "logging",
+    "metrics",
+] as const;
+
+/**
+ * 設定ファイルを検証する
+ *
+ * @param source エラーメッセージに表示する設定の読み込み元
+ */
+export const parseConfigFile = (value: unknown, source: string): ConfigFile => {
+    const fail: Fail = (path, message) => {
+        throw new Error(`Invalid config in ${source}: ${path ? `${path} ` : ""}${message}`);
+    };
+
+    const object = expectObject(value, "", fail);
+    checkSecrets(object, "", fail);
+    checkKeys(object, [...profileKeys, "defaultProfile", "profiles"], "", fail);
+    const { defaultProfile, profiles, ...base } = object;
+
+    const parsedProfiles = optional(profiles, value =>
+        Object.fromEntries(
+            Object.entries(expectObject(value, "profiles", fail)).map(([name, profile]) => {
+                const path = `profiles.${name}`;
+                checkSecrets(expectObject(profile, path, fail), path, fail);
+                checkKeys(expectObject(profile, path, fail), profileKeys, path, fail);
+                return [name, parseProfile(profile, path, source, fail)];
+            }),
+        ),
+    );
+
+    if (defaultProfile !== undefined && !parsedProfiles?.[parseString(defaultProfile, "defaultProfile", fail)]) {
+        fail("defaultProfile", `refers to an unknown profile "${defaultProfile}"`);
+    }
+
+    return {
+        ...parseProfile(base, "", source, fail),
+        defaultProfile: defaultProfile as string | undefined,
+        profiles: parsedProfiles,
+    };
+};
+
+/**
+ * 設定ファイルを読み込む。拡張子が `.yaml` / `.yml` の場合はYAML、それ以外はJSONとして読み込む
+ */
+export const loadConfigFile = (filePath: string): ConfigFile => {
+    let data: unknown;
+    try {
+        const text = fs.readFileSync(filePath, "utf-8");
+        data = /\.ya?ml$/i.test(filePath) ? Bun.YAML.parse(text) : JSON.parse(text);
+    } catch (error) {
+        throw new Error(`Failed to load config from ${filePath}: ${error}`);
+    }
+
+    return parseConfigFile(data, filePath);
+};
+
+/**
+ * 共通の設定にプロファイルの設定を重ねる。オブジェクトの設定は項目ごとに上書きする
+ *
+ * @param profileName 省略した場合は `defaultProfile`、それもない場合は共通の設定のみを使う
+ */
+export const resolveProfile = (file: ConfigFile, profileName?: string): ProfileConfig => {
+    const { defaultProfile, profiles = {}, ...base } = file;
+    const name = profileName ?? defaultProfile;
+
+    if (name === undefined) {
+        return withoutUndefined(base);
+    }
+
+    const profile = profiles[name];
+    if (!profile) {
+        const available = Object.keys(profiles);
+        throw new Error(
+            `Unknown config profile: ${name} (available: ${available.length > 0 ? available.join(", ") : "none"})`,
+        );
+    }
+
+    const merged: Record<string, unknown> = withoutUndefined(base);
+    for (const [key, value] of Object.entries(withoutUndefined(profile))) {
+        const current = merged[key];
+        merged[key] = isObject(current) && isObject(value) && key !== "routing" ? { ...current, ...value } : value;
+    }
+
+    // ルーティングはファイルと直接の指定のうちプロファイルで指定された方を使う
+    if (profile.routing !== undefined) {
+        merged.routingFile = undefined;
+    }
+    if (profile.routingFile !== undefined) {
+        merged.routing = undefined;
+    }
+
+    return withoutUndefined(merged) as ProfileConfig;
+};
@@ -0,0 +1,29 @@
+/**
+ * 設定で選べる値。環境変数と設定ファイルの両方の検証で使う
+ */
+
+export const notifierIds = ["slack", "discord", "webhook", "email"] as const;
+
+export type NotifierId = (typeof notifierIds)[number];
+
+export const stateBackends = ["json", "sqlite"] as const;
+
+export type StateBackend = (typeof stateBackends)[number];
+
+export const logFormats = ["text", "json"] as const;
+
+export type LogFormat = (typeof logFormats)[number];
+
+export const logLevels = ["debug", "info", "warn", "error"] as const;
+
+export type LogLevel = (typeof logLevels)[number];
+
+/**
+ * トークンやパスワードを含むため、環境変数でのみ指定できる項目と環境変数の名前
+ */
+export const secretSettings = {
+    "slack.token": "SLACK_TOKEN",
+    "discord.webhookUrl": "DISCORD_WEBHOOK_URL",
+    "webhook.url": "WEBHOOK_URL",
+    "email.smtpUrl": "SMTP_URL",
+} as const;
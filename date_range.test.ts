@@ -0,0 +1,54 @@
+import { describe, expect, test } from "bun:test";
+import { getDateRangeStatus, parseDateRange } from "./date_range";
+
+describe("parseDateRange", () => {
+    const reference = "2025-02-05";
+
+    test.each([
+        ["2月5日～2月7日", { start: "2025-02-05", end: "2025-02-07" }],
+        ["２月５日～２月７日", { start: "2025-02-05", end: "2025-02-07" }],
+        ["2月5日（水）～7日（金）", { start: "2025-02-05", end: "2025-02-07" }],
+        ["2月6日", { start: "2025-02-06", end: "2025-02-06" }],
+        ["2月5日～", { start: "2025-02-05" }],
+        ["～2月7日", { end: "2025-02-07" }],
+        ["2月7日まで", { end: "2025-02-07" }],
+        ["2/5〜2/7", { start: "2025-02-05", end: "2025-02-07" }],
+    ])("%s", (text, expected) => {
+        expect(parseDateRange(text, reference)).toEqual(expected);
+    });
+
+    test("handles year rollover", () => {
+        expect(parseDateRange("12月30日～1月2日", "2024-12-28")).toEqual({ start: "2024-12-30", end: "2025-01-02" });
+        expect(parseDateRange("1月2日", "2024-12-28")).toEqual({ start: "2025-01-02", end: "2025-01-02" });
+        expect(parseDateRange("12月30日", "2025-01-02")).toEqual({ start: "2024-12-30", end: "2024-12-30" });
+    });
+
+    test("returns undefined without dates", () => {
+        expect(parseDateRange("未定", reference)).toBeUndefined();
+    });
+
+    test("returns undefined for impossible dates", () => {
+        expect(parseDateRange("2月30日", reference)).toBeUndefined();
+        expect(parseDateRange("2月5日～2月30日", reference)).toBeUndefined();
+        expect(parseDateRange("13月1日", reference)).toBeUndefined();
+        expect(parseDateRange("2025年2月29日", reference)).toBeUndefined();
+        // 期間が不明な空港は終了したとみなさない
+        expect(getDateRangeStatus(parseDateRange("2月30日", reference), reference)).toBe("active");
+    });
+
+    test("uses the nearest year in which the date exists", () => {
+        expect(parseDateRange("2月29日", "2025-02-05")).toEqual({ start: "2024-02-29", end: "2024-02-29" });
+        expect(parseDateRange("2月29日", "2027-12-01")).toEqual({ start: "2028-02-29", end: "2028-02-29" });
+    });
+});
+
+describe("getDateRangeStatus", () => {
+    test.each([
+        [{ start: "2025-02-05", end: "2025-02-07" }, "active"],
+        [{ start: "2025-02-06" }, "upcoming"],
+        [{ end: "2025-02-04" }, "expired"],
+        [undefined, "active"],
+    ] as const)("%o is %s", (range, expected) => {
+        expect(getDateRangeStatus(range, "2025-02-05")).toBe(expected);
+    });
+});
@@ -0,0 +1,191 @@
+import type { BaseFlightInfo } from "./state_manager";
+
+/**
+ * 期間の開始日と終了日 (YYYY-MM-DD)。開始日・終了日のない期間は片側のみ
+ */
+export interface DateRange {
+    start?: string;
+    end?: string;
+}
+
+export type DateRangeStatus = "active" | "upcoming" | "expired";
+
+interface DateToken {
+    year?: number;
+    month: number;
+    day: number;
+    index: number;
+    length: number;
+}
+
+// 「2025年2月5日」「2月5日」「5日」「2025/2/5」「2/5」
+const datePattern = /(?:(\d{4})年)?(?:(\d{1,2})月)?(\d{1,2})日|(?:(\d{4})\/)?(\d{1,2})\/(\d{1,2})/g;
+const rangeSeparatorPattern = /[~〜～]|から/;
+const untilPattern = /^\s*(?:\([^)]*\))?\s*(?:[\d:]+\s*)?まで/;
+
+const pad = (value: number): string => String(value).padStart(2, "0");
+
+const toDateString = (year: number, month: number, day: number): string => `${year}-${pad(month)}-${pad(day)}`;
+
+const toTime = (date: string): number => Date.parse(`${date}T00:00:00Z`);
+
+/** 「2月30日」のような存在しない日付を除く */
+const isValidDate = (year: number, month: number, day: number): boolean => {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+/**
+ * 日本時間での今日の日付 (YYYY-MM-DD)
+ */
+export const todayInTokyo = (now = new Date()): string => now.toLocaleDateString("sv-SE", { timeZone: "Asia/Tokyo" });
+
+const tokenize = (text: string): DateToken[] => {
+    const tokens: DateToken[] = [];
+    let lastMonth: number | undefined;
+
+    for (const match of text.matchAll(datePattern)) {
+        const year = match[1] ?? match[4];
+        const month = match[2] ?? match[5];
+        const day = match[3] ?? match[6];
+        // 「2月5日～7日」のように月が省略された場合は直前の月を使う
+        const resolvedMonth = month ? Number(month) : lastMonth;
+
+        if (resolvedMonth === undefined) {
+            continue;
+        }
+
+        lastMonth = resolvedMonth;
+        tokens.push({
+            year: year ? Number(year) : undefined,
+            month: resolvedMonth,
+            day: Number(day),
+            index: match.index ?? 0,
+            length: match[0].length,
+        });
+    }
+
+    return tokens;
+};
+
+/**
+ * 年が省略された日付は基準日に最も近い年とみなす。どの年でも存在しない日付の場合はundefinedを返す
+ */
+const inferYear = (token: DateToken, reference: string): number | undefined => {
+    if (token.year) {
+        return isValidDate(token.year, token.month, token.day) ? token.year : undefined;
+    }
+
+    const referenceYear = Number(reference.slice(0, 4));
+    const candidates = [referenceYear - 1, referenceYear, referenceYear + 1].filter(year =>
+        isValidDate(year, token.month, token.day),
+    );
+    const distance = (year: number) => Math.abs(toTime(toDateString(year, token.month, token.day)) - toTime(reference));
+
+    return candidates.reduce<number | undefined>(
+        (best, year) => (best === undefined || distance(year) < distance(best) ? year : best),
+        undefined,
+    );
+};
+
+/**
+ * 「2月5日～2月7日」のような期間の文字列を開始日と終了日にする
+ *
+ * 全角の数字や記号、年をまたぐ期間、単日、「2月5日～」のような終了日のない期間に対応する。
+ * 日付が含まれない場合や「2月30日」のような存在しない日付を含む場合はundefinedを返す。
+ * 期間が不明な空港は終了したとみなさず、対象として通知する
+ *
+ * @param reference 年が省略された日付の年を決める基準日 (YYYY-MM-DD)
+ */
+export const parseDateRange = (text: string, reference = todayInTokyo()): DateRange | undefined => {
+    const normalized = text.normalize("NFKC");
+    const tokens = tokenize(normalized);
+
+    if (tokens.length === 0) {
+        return undefined;
+    }
+
+    const first = tokens[0];
+    const last = tokens[tokens.length - 1];
+    const before = normalized.slice(0, first.index);
+    const after = normalized.slice(last.index + last.length);
+
+    const startYear = inferYear(first, reference);
+    if (startYear === undefined) {
+        return undefined;
+    }
+    const start = toDateString(startYear, first.month, first.day);
+
+    if (tokens.length === 1) {
+        // 「～2月7日」「2月7日まで」
+        if (rangeSeparatorPattern.test(before) || untilPattern.test(after)) {
+            return { end: start };
+        }
+
+        // 「2月5日～」「2月5日から」
+        if (rangeSeparatorPattern.test(after) || /以降/.test(after)) {
+            return { start };
+        }
+
+        return { start, end: start };
+    }
+
+    // 終了日の年が省略された場合は開始日の年とし、開始日より前になる場合は翌年とする
+    let endYear = last.year ?? startYear;
+    if (!last.year && toTime(toDateString(endYear, last.month, last.day)) < toTime(start)) {
+        endYear += 1;
+    }
+    if (!isValidDate(endYear, last.month, last.day)) {
+        return undefined;
+    }
+
+    return { start, end: toDateString(endYear, last.month, last.day) };
+};
+
+/**
+ * 期間が今日の時点で対象か、今後か、終了しているかを判定する。期間が不明な場合は対象とみなす
+ */
+export const getDateRangeStatus = (range: DateRange | undefined, today = todayInTokyo()): DateRangeStatus => {
+    if (range?.end && range.end < today) {
+        return "expired";
+    }
+
+    if (range?.start && range.start > today) {
+        return "upcoming";
+    }
+
+    return "active";
+};
+
+/**
+ * 空港を期間の状態ごとに分ける。空港がなくなった地域は除外する
+ */
+export const groupFlightInfosByStatus = <T extends BaseFlightInfo>(
+    flightInfos: T[],
+    today = todayInTokyo(),
+): Record<DateRangeStatus, T[]> => {
+    const pick = (status: DateRangeStatus): T[] =>
+        flightInfos
+            .map(info => ({
+                ...info,
+                airports: info.airports.filter(airport => getDateRangeStatus(airport.range, today) === status),
+            }))
+            .filter(info => info.airports.length > 0);
+
+    return {
+        active: pick("active"),
+        upcoming: pick("upcoming"),
+        expired: pick("expired"),
+    };
+};
+
+/**
+ * 終了した空港を除外する。空港がなくなった地域は除外する
+ */
+export const excludeExpired = <T extends BaseFlightInfo>(flightInfos: T[], today = todayInTokyo()): T[] =>
+    flightInfos
+        .map(info => ({
+            ...info,
+            airports: info.airports.filter(airport => getDateRangeStatus(airport.range, today) !== "expired"),
+        }))
+        .filter(info => info.airports.length > 0);
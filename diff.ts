@@ -0,0 +1,185 @@
+import { groupFlightInfosByStatus } from "./date_range";
+import { type Locale, messageLabels } from "./locale";
+import type { MessageSection } from "./notification";
+import type { BaseAirportInfo, BaseFlightInfo } from "./state_manager";
+
+export type AirportInfoOf<T extends BaseFlightInfo> = T["airports"][number];
+
+export interface AirportEntry<A extends BaseAirportInfo> {
+    region: string;
+    airport: A;
+}
+
+export interface AirportChange<A extends BaseAirportInfo> {
+    region: string;
+    before: A;
+    after: A;
+    /** 値が変わった項目名 (ANAなら "period"、JALなら "date" / "content") */
+    fields: string[];
+    /** 変更前の表記がメッセージの言語で分からない場合はtrue。変更後の値のみ表示する */
+    beforeUnknown?: boolean;
+}
+
+export interface FlightInfoDiff<A extends BaseAirportInfo = BaseAirportInfo> {
+    addedRegions: string[];
+    removedRegions: string[];
+    added: AirportEntry<A>[];
+    removed: AirportEntry<A>[];
+    changed: AirportChange<A>[];
+}
+
+/**
+ * 地域名と空港名の組ごとに空港を並べる。同じ組の行が複数ある場合は何番目の行かで区別し、1つにまとめない
+ */
+const toAirportMap = <T extends BaseFlightInfo>(flightInfos: T[]): Map<string, AirportEntry<AirportInfoOf<T>>> => {
+    const map = new Map<string, AirportEntry<AirportInfoOf<T>>>();
+    const counts = new Map<string, number>();
+    for (const info of flightInfos) {
+        for (const airport of info.airports) {
+            const name = JSON.stringify([info.region, airport.name]);
+            const index = counts.get(name) ?? 0;
+            counts.set(name, index + 1);
+            map.set(JSON.stringify([info.region, airport.name, index]), { region: info.region, airport });
+        }
+    }
+    return map;
+};
+
+const changedFields = (before: BaseAirportInfo, after: BaseAirportInfo): string[] => {
+    const beforeValues = new Map(Object.entries(before));
+    const afterValues = new Map(Object.entries(after));
+    const keys = new Set([...beforeValues.keys(), ...afterValues.keys()]);
+    // 空港名と、空港名や期間の文字列から求まる項目は比較しない
+    keys.delete("name");
+    keys.delete("resolved");
+    keys.delete("range");
+
+    return [...keys]
+        .filter(key => JSON.stringify(beforeValues.get(key)) !== JSON.stringify(afterValues.get(key)))
+        .sort();
+};
+
+/**
+ * 前回と今回の運航情報を比較し、追加・解除・変更された地域と空港を求める
+ *
+ * 空港は地域名と空港名の組で同一とみなし、並び順の違いは変更として扱わない。
+ * 同じ地域に同じ空港が複数回掲載されている場合は、それぞれの行を掲載順に比較する
+ */
+export const diffFlightInfos = <T extends BaseFlightInfo>(
+    oldFlightInfos: T[],
+    newFlightInfos: T[],
+): FlightInfoDiff<AirportInfoOf<T>> => {
+    const oldRegions = new Set(oldFlightInfos.map(info => info.region));
+    const newRegions = new Set(newFlightInfos.map(info => info.region));
+    const oldAirports = toAirportMap(oldFlightInfos);
+    const newAirports = toAirportMap(newFlightInfos);
+
+    const diff: FlightInfoDiff<AirportInfoOf<T>> = {
+        addedRegions: [...newRegions].filter(region => !oldRegions.has(region)),
+        removedRegions: [...oldRegions].filter(region => !newRegions.has(region)),
+        added: [],
+        removed: [],
+        changed: [],
+    };
+
+    for (const [key, entry] of newAirports) {
+        const oldEntry = oldAirports.get(key);
+        if (!oldEntry) {
+            diff.added.push(entry);
+            continue;
+        }
+
+        const fields = changedFields(oldEntry.airport, entry.airport);
+        if (fields.length > 0) {
+            diff.changed.push({ region: entry.region, before: oldEntry.airport, after: entry.airport, fields });
+        }
+    }
+
+    for (const [key, entry] of oldAirports) {
+        if (!newAirports.has(key)) {
+            diff.removed.push(entry);
+        }
+    }
+
+    return diff;
+};
+
+export const isEmptyDiff = (diff: FlightInfoDiff): boolean =>
+    diff.addedRegions.length === 0 &&
+    diff.removedRegions.length === 0 &&
+    diff.added.length === 0 &&
+    diff.removed.length === 0 &&
+    diff.changed.length === 0;
+
+/**
+ * 差分を通知メッセージのセクションにする
+ *
+ * @param describe 空港名を除いた空港情報の表示 (ANAなら期間、JALなら日付と内容)
+ * @param locale 見出しの言語
+ */
+export const formatDiffSections = <A extends BaseAirportInfo>(
+    diff: FlightInfoDiff<A>,
+    describe: (airport: A) => string,
+    locale: Locale = "ja",
+): MessageSection[] => {
+    const labels = messageLabels[locale];
+    const sections: MessageSection[] = [];
+
+    if (diff.added.length > 0) {
+        sections.push({
+            heading: labels.added,
+            lines: diff.added.map(entry => `${entry.region} / ${entry.airport.name}: ${describe(entry.airport)}`),
+        });
+    }
+
+    if (diff.removed.length > 0) {
+        sections.push({
+            heading: labels.removed,
+            lines: diff.removed.map(entry => `${entry.region} / ${entry.airport.name}: ${describe(entry.airport)}`),
+        });
+    }
+
+    if (diff.changed.length > 0) {
+        sections.push({
+            heading: labels.changed,
+            lines: diff.changed.map(
+                change =>
+                    `${change.region} / ${change.after.name}: ${
+                        change.beforeUnknown
+                            ? describe(change.after)
+                            : `${describe(change.before)} → ${describe(change.after)}`
+                    }`,
+            ),
+        });
+    }
+
+    return sections;
+};
+
+/**
+ * 終了した空港を除き、本日対象と今後に分けて地域ごとのセクションにする
+ *
+ * @param describe 空港名を除いた空港情報の表示
+ * @param normalMessage 対象の空港がない場合に表示する通常運航のメッセージ
+ * @param locale 見出しの言語
+ */
+export const formatStatusSections = <T extends BaseFlightInfo>(
+    flightInfos: T[],
+    describe: (airport: AirportInfoOf<T>) => string,
+    normalMessage: string,
+    locale: Locale = "ja",
+): MessageSection[] => {
+    const { active, upcoming } = groupFlightInfosByStatus(flightInfos);
+    if (active.length === 0 && upcoming.length === 0) {
+        return [{ lines: [normalMessage] }];
+    }
+
+    const toSections = (infos: T[], label: string): MessageSection[] =>
+        infos.map(info => ({
+            heading: `${label} / ${info.region}`,
+            lines: info.airports.map(airport => `${airport.name}: ${describe(airport)}`),
+        }));
+
+    const labels = messageLabels[locale];
+    return [...toSections(active, labels.active), ...toSections(upcoming, labels.upcoming)];
+};
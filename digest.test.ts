@@ -0,0 +1,65 @@
+import { afterAll, beforeAll, describe, expect, setSystemTime, test } from "bun:test";
+import * as fs from "node:fs";
+import { buildAirportView } from "./airport_view";
+import { createAnaService } from "./ana";
+import { formatDigestMessage } from "./digest";
+import { createJalService } from "./jal";
+
+describe("digest", () => {
+    const ana = createAnaService();
+    const jal = createJalService();
+    let airlines: Parameters<typeof buildAirportView>[0];
+
+    beforeAll(() => {
+        setSystemTime(new Date("2025-02-05T10:00:00+09:00"));
+        airlines = [
+            {
+                provider: ana,
+                state: {
+                    lastCheck: "2025-02-05T01:00:00.000Z",
+                    updateTime: "2025年2月5日 10:00更新",
+                    flightInfos: ana.parseIrregularFlights(fs.readFileSync("fixtures/ana/irregular.html", "utf-8")),
+                },
+            },
+            {
+                provider: jal,
+                state: {
+                    lastCheck: "2025-02-05T01:00:00.000Z",
+                    flightInfos: jal.parseIrregularFlights(fs.readFileSync("fixtures/jal/irregular.html", "utf-8")),
+                },
+            },
+        ];
+    });
+
+    afterAll(() => {
+        setSystemTime();
+    });
+
+    test("buildAirportView merges both airlines by airport", () => {
+        const views = buildAirportView(airlines);
+
+        // 期間が終了した石垣は除外し、本日対象の空港を先にする
+        expect(views.map(view => view.key)).toEqual(["CTS", "AKJ", "OKA", "MMB"]);
+        expect(views[0]).toMatchObject({ name: "新千歳", status: "active" });
+        expect(views[0].entries.map(entry => entry.airline)).toEqual(["ana", "jal"]);
+    });
+
+    test("formatDigestMessage lists airports with a column for each airline", () => {
+        const message = formatDigestMessage(airlines);
+
+        expect(message.title).toBe("特別な取り扱いのまとめ (2025-02-05)");
+        expect(message.sections.map(section => section.heading)).toEqual(["本日対象", "今後"]);
+        expect(message.sections[0].lines[0]).toBe(
+            "新千歳 (CTS) | ANA: 2月5日～2月7日 | JAL: 2月5日（水）～2月7日（金） 大雪の影響",
+        );
+        expect(message.sections[1].lines).toContain("旭川 (AKJ) | ANA: 2月6日 | JAL: -");
+        expect(message.mention).toBe(false);
+    });
+
+    test("formatDigestMessage still reports when nothing is affected", () => {
+        const message = formatDigestMessage([{ provider: ana, state: null }], "en");
+
+        expect(message.sections).toEqual([{ lines: ["There are currently no airports subject to special handling."] }]);
+        expect(message.footer).toBe("Updated: ANA not checked");
+    });
+});
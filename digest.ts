@@ -0,0 +1,141 @@
+import { type AirlineState, type AirportView, buildAirportView, loadAirlineStates } from "./airport_view";
+import { getConfig } from "./config";
+import { todayInTokyo } from "./date_range";
+import { type Locale, type MessageLanguage, combineMessages, messageLabels } from "./locale";
+import { createRunId, logger, withRunContext } from "./logger";
+import { metrics } from "./metrics";
+import {
+    type MessageSection,
+    type NotificationMessage,
+    type NotificationSender,
+    renderPlainText,
+} from "./notification";
+import { createNotifiers } from "./notifiers";
+import { renderSlackMessages } from "./notifiers/slack";
+import type { AirlineProvider } from "./provider";
+
+/** 通知先や送信者の設定で使う識別子 (`DIGEST_NOTIFIERS`、設定ファイルの `senders.digest` など) */
+export const digestId = "digest";
+
+const messages: Record<Locale, { title: string; normalMessage: string; updated: string; none: string }> = {
+    ja: {
+        title: "特別な取り扱いのまとめ",
+        normalMessage: "現在、特別な取り扱いの対象となる空港はありません。",
+        updated: "更新日時",
+        none: "未確認",
+    },
+    en: {
+        title: "Summary of special handling",
+        normalMessage: "There are currently no airports subject to special handling.",
+        updated: "Updated",
+        none: "not checked",
+    },
+};
+
+const defaultSender: NotificationSender = { username: "運航情報のまとめ", icon: ":airplane:" };
+
+/**
+ * 空港ごとに1行とし、特別な取り扱いがある航空会社の列を並べる
+ *
+ * いずれかの空港で特別な取り扱いがある航空会社は、対象でない空港も "-" として表示する
+ */
+const formatRows = (views: AirportView[], columns: AirlineProvider[], locale: Locale): string[] =>
+    views.map(view => {
+        const name = locale === "en" ? (view.nameEn ?? view.name) : view.name;
+        const cells = columns.map(provider => {
+            const entries = view.entries.filter(entry => entry.airline === provider.id);
+            const value = entries.map(entry => entry.details.map(([, detail]) => detail).join(" ")).join(" / ");
+            return `${provider.name}: ${value || "-"}`;
+        });
+        return `${view.iata ? `${name} (${view.iata})` : name} | ${cells.join(" | ")}`;
+    });
+
+/**
+ * 航空会社をまたいだ空港ごとの特別な取り扱いのまとめを作る。特別な取り扱いがない場合もメッセージを作る
+ */
+export const formatDigestMessage = (
+    airlines: AirlineState[],
+    locale: Locale = "ja",
+    today = todayInTokyo(),
+): NotificationMessage => {
+    const views = buildAirportView(airlines, today);
+    const columns = airlines
+        .map(({ provider }) => provider)
+        .filter(provider => views.some(view => view.entries.some(entry => entry.airline === provider.id)));
+    const labels = messageLabels[locale];
+
+    const sections: MessageSection[] = (["active", "upcoming"] as const)
+        .map(status => ({
+            heading: labels[status],
+            lines: formatRows(
+                views.filter(view => view.status === status),
+                columns,
+                locale,
+            ),
+        }))
+        .filter(section => section.lines.length > 0);
+
+    const updates = airlines.map(
+        ({ provider, state }) => `${provider.name} ${state?.updateTime ?? state?.lastCheck ?? messages[locale].none}`,
+    );
+
+    return {
+        airline: airlines.map(({ provider }) => provider.name).join(" / "),
+        title: `${messages[locale].title} (${today})`,
+        url: airlines[0]?.provider.url ?? "",
+        mention: false,
+        changes: [],
+        sections: sections.length > 0 ? sections : [{ lines: [messages[locale].normalMessage] }],
+        footer: `${messages[locale].updated}: ${updates.join(" / ")}`,
+    };
+};
+
+const sendDigest = async (providers: AirlineProvider[], options: { dryRun?: boolean }): Promise<void> => {
+    const config = getConfig();
+    const airlines = await loadAirlineStates(providers);
+    const sender: NotificationSender = {
+        username: config.senders[digestId]?.username ?? defaultSender.username,
+        icon: config.senders[digestId]?.icon ?? defaultSender.icon,
+    };
+    const render = (language: MessageLanguage): NotificationMessage =>
+        language === "both"
+            ? combineMessages(formatDigestMessage(airlines, "ja"), formatDigestMessage(airlines, "en"))
+            : formatDigestMessage(airlines, language);
+    const languages: Partial<Record<string, MessageLanguage>> = config.languages;
+    const errors: unknown[] = [];
+
+    for (const notifier of createNotifiers(config, digestId)) {
+        const message = render(languages[notifier.id] ?? "ja");
+
+        if (options.dryRun) {
+            console.log(`--- post to ${notifier.id}`);
+            console.log(renderPlainText(message));
+            console.log(JSON.stringify(renderSlackMessages(message), null, 2));
+            continue;
+        }
+
+        try {
+            await notifier.send(message, { sender });
+            logger.info(`Posted to ${notifier.id}`);
+            metrics.inc("notifications", { airline: digestId, notifier: notifier.id, result: "success" });
+        } catch (error) {
+            logger.error(`Failed to post the digest via ${notifier.id}`, { notifier: notifier.id, error });
+            metrics.inc("notifications", { airline: digestId, notifier: notifier.id, result: "failure" });
+            errors.push(error);
+        }
+    }
+
+    if (errors.length > 0) {
+        throw new AggregateError(errors, "Failed to post the digest");
+    }
+};
+
+/**
+ * 保存されている状態から空港ごとのまとめを作り、変更の有無にかかわらず送信する
+ *
+ * 通知先は `DIGEST_NOTIFIERS` (省略した場合は設定されているすべての通知先)、言語は通知先ごとの設定に従う
+ *
+ * @param options.dryRun 送信せずに送信するメッセージを表示する
+ */
+export const postDigest = (providers: AirlineProvider[], options: { dryRun?: boolean } = {}): Promise<void> =>
+    withRunContext({ runId: createRunId(), airline: digestId }, () => sendDigest(providers, options));
@@ -0,0 +1,97 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, setSystemTime, test } from "bun:test";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { createAnaService } from "./ana";
+import { diffFlightInfos } from "./diff";
+import { type FeedEntry, buildFeedEntry, createFeedStore, renderAtomFeed } from "./feed";
+
+const irregularHTML = fs.readFileSync("fixtures/ana/irregular.html", "utf-8");
+
+describe("feed", () => {
+    const ana = createAnaService();
+
+    beforeAll(() => {
+        setSystemTime(new Date("2025-02-05T10:00:00+09:00"));
+    });
+
+    afterAll(() => {
+        setSystemTime();
+    });
+
+    test("buildFeedEntry derives a stable id from the states", () => {
+        const flightInfos = ana.parseIrregularFlights(irregularHTML);
+        const updateTime = ana.getUpdateTime(irregularHTML);
+        const entry = buildFeedEntry(ana, [], flightInfos, updateTime, diffFlightInfos([], flightInfos));
+
+        expect(entry.title).toBe("ANA: 特別な取り扱いが更新されました (追加 4件)");
+        expect(entry.link).toBe(ana.url);
+        expect(entry.content).toContain("札幌(新千歳): 2月5日～2月7日");
+        expect(buildFeedEntry(ana, [], flightInfos, updateTime, diffFlightInfos([], flightInfos)).id).toBe(entry.id);
+
+        const ended = buildFeedEntry(ana, flightInfos, [], updateTime, diffFlightInfos(flightInfos, []));
+        expect(ended.title).toBe("ANA: 特別な取り扱いが終了しました");
+        expect(ended.id).not.toBe(entry.id);
+    });
+
+    test("renderAtomFeed escapes entries", () => {
+        const xml = renderAtomFeed({
+            id: "urn:test",
+            title: "A & B",
+            entries: [
+                {
+                    id: "urn:test:1",
+                    airline: "ana",
+                    title: "<title>",
+                    link: "https://example.com/?a=1&b=2",
+                    updated: "2025-02-05T01:00:00.000Z",
+                    content: "東京(羽田) & 成田",
+                },
+            ],
+        });
+
+        expect(xml).toContain("<title>A &amp; B</title>");
+        expect(xml).toContain("<updated>2025-02-05T01:00:00.000Z</updated>");
+        expect(xml).toContain("<title>&lt;title&gt;</title>");
+        expect(xml).toContain('<link href="https://example.com/?a=1&amp;b=2"/>');
+        expect(xml).toContain('<content type="text">東京(羽田) &amp; 成田</content>');
+    });
+});
+
+describe("createFeedStore", () => {
+    let directory: string;
+    const entry = (id: string): FeedEntry => ({
+        id,
+        airline: "ana",
+        title: id,
+        link: "https://example.com/ana",
+        updated: "2025-02-05T01:00:00.000Z",
+        content: "",
+    });
+
+    beforeEach(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), "feed-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    test("adds entries newest first and skips duplicates", async () => {
+        const store = createFeedStore("ana", directory);
+        await store.addEntry(entry("1"));
+        await store.addEntry(entry("2"));
+        await store.addEntry(entry("1"));
+
+        expect((await store.loadEntries()).map(({ id }) => id)).toEqual(["2", "1"]);
+    });
+
+    test("keeps an unreadable feed instead of replacing it", async () => {
+        const filePath = path.join(directory, "ana.json");
+        fs.writeFileSync(filePath, "[{", "utf-8");
+        const store = createFeedStore("ana", directory);
+
+        await expect(store.addEntry(entry("1"))).rejects.toThrow("is not valid JSON");
+        expect(fs.readFileSync(filePath, "utf-8")).toBe("[{");
+    });
+});
@@ -0,0 +1,204 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import type { AirportInfoOf, FlightInfoDiff } from "./diff";
+import { withFileLock, writeFileAtomic } from "./file_store";
+import { hashContent } from "./hash";
+import { renderPlainText } from "./notification";
+import type { AirlineProvider } from "./provider";
+import type { BaseFlightInfo } from "./state_manager";
+
+export interface FeedEntry {
+    /** 変更前後の状態から求めたID。同じ変更を再び記録しても重複しない */
+    id: string;
+    airline: string;
+    title: string;
+    link: string;
+    /** 変更を検知した日時 (ISO 8601) */
+    updated: string;
+    content: string;
+}
+
+export interface Feed {
+    id: string;
+    title: string;
+    /** まとめたフィードではundefined */
+    link?: string;
+    entries: FeedEntry[];
+}
+
+export interface FeedStore {
+    /** 新しい順に返す */
+    loadEntries: () => Promise<FeedEntry[]>;
+    /** エントリーを追加し、古いエントリーは上限を超えた分を削除する */
+    addEntry: (entry: FeedEntry) => Promise<void>;
+}
+
+const feedDirectory = path.join("storage", "feeds");
+const maxEntries = 50;
+
+/** 航空会社をまとめたフィードのファイル名 */
+export const combinedFeedId = "all";
+
+/**
+ * フィードのファイルを読み込んでから書き込む間のロック。まとめたフィードはすべての航空会社の確認で書き換える
+ */
+const withFeedLock = <R>(directory: string, fn: () => Promise<R>): Promise<R> =>
+    withFileLock(path.join(directory, "feeds.lock"), fn);
+
+/**
+ * @param directory フィードを保存するディレクトリ
+ */
+export const createFeedStore = (airlineId: string, directory = feedDirectory): FeedStore => {
+    const filePath = path.join(directory, `${airlineId}.json`);
+
+    const loadEntries = async (): Promise<FeedEntry[]> => {
+        let data: string;
+        try {
+            data = await fs.readFile(filePath, "utf-8");
+        } catch (error) {
+            // まだエントリーが記録されていない
+            if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+                return [];
+            }
+            throw error;
+        }
+
+        // 読み込めないファイルを空として扱うと、次の追加でこれまでのエントリーが失われる
+        try {
+            return JSON.parse(data) as FeedEntry[];
+        } catch (error) {
+            throw new Error(`Feed file ${filePath} is not valid JSON: ${error}`);
+        }
+    };
+
+    const addEntry = async (entry: FeedEntry): Promise<void> => {
+        await withFeedLock(directory, async () => {
+            const entries = await loadEntries();
+            if (entries.some(({ id }) => id === entry.id)) {
+                return;
+            }
+
+            await writeFileAtomic(filePath, JSON.stringify([entry, ...entries].slice(0, maxEntries), null, 2));
+        });
+    };
+
+    return {
+        loadEntries,
+        addEntry,
+    };
+};
+
+/**
+ * 前回の状態からの変更を1件のエントリーにする
+ */
+export const buildFeedEntry = <T extends BaseFlightInfo>(
+    provider: AirlineProvider<T>,
+    previous: T[],
+    flightInfos: T[],
+    updateTime: string,
+    diff: FlightInfoDiff<AirportInfoOf<T>>,
+): FeedEntry => {
+    const counts = [
+        ["追加", diff.added.length],
+        ["解除", diff.removed.length],
+        ["変更", diff.changed.length],
+    ]
+        .filter(([, count]) => count !== 0)
+        .map(([label, count]) => `${label} ${count}件`);
+    const title =
+        flightInfos.length === 0
+            ? `${provider.name}: 特別な取り扱いが終了しました`
+            : `${provider.name}: 特別な取り扱いが更新されました (${counts.join(" / ")})`;
+
+    const hash = hashContent(JSON.stringify([previous, flightInfos, updateTime]));
+
+    return {
+        id: `urn:airline-irregular-notification:${provider.id}:${hash.slice(0, 32)}`,
+        airline: provider.id,
+        title,
+        link: provider.url,
+        updated: new Date().toISOString(),
+        content: renderPlainText(provider.formatMessage(flightInfos, updateTime, false, diff)),
+    };
+};
+
+const escapeXML = (value: string): string =>
+    value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&apos;");
+
+export const renderAtomFeed = (feed: Feed): string => {
+    const updated = feed.entries[0]?.updated ?? new Date(0).toISOString();
+    const entries = feed.entries.map(entry =>
+        [
+            "  <entry>",
+            `    <id>${escapeXML(entry.id)}</id>`,
+            `    <title>${escapeXML(entry.title)}</title>`,
+            `    <link href="${escapeXML(entry.link)}"/>`,
+            `    <updated>${entry.updated}</updated>`,
+            `    <content type="text">${escapeXML(entry.content)}</content>`,
+            "  </entry>",
+        ].join("\n"),
+    );
+
+    return [
+        '<?xml version="1.0" encoding="utf-8"?>',
+        '<feed xmlns="http://www.w3.org/2005/Atom">',
+        `  <id>${escapeXML(feed.id)}</id>`,
+        `  <title>${escapeXML(feed.title)}</title>`,
+        ...(feed.link ? [`  <link href="${escapeXML(feed.link)}"/>`] : []),
+        `  <updated>${updated}</updated>`,
+        "  <author><name>airline-irregular-notification</name></author>",
+        ...entries,
+        "</feed>",
+        "",
+    ].join("\n");
+};
+
+/**
+ * 航空会社のフィード、または `all` を指定した場合はすべての航空会社をまとめたフィードを作る
+ */
+export const buildFeed = async (providers: AirlineProvider[], feedId: string): Promise<Feed | undefined> => {
+    if (feedId === combinedFeedId) {
+        const entries = (await Promise.all(providers.map(provider => createFeedStore(provider.id).loadEntries())))
+            .flat()
+            .sort((a, b) => b.updated.localeCompare(a.updated))
+            .slice(0, maxEntries);
+
+        return {
+            id: `urn:airline-irregular-notification:${combinedFeedId}`,
+            title: "特別な取り扱いの一覧",
+            entries,
+        };
+    }
+
+    const provider = providers.find(provider => provider.id === feedId);
+    if (!provider) {
+        return undefined;
+    }
+
+    return {
+        id: `urn:airline-irregular-notification:${provider.id}`,
+        title: `${provider.name} 特別な取り扱いの一覧`,
+        link: provider.url,
+        entries: await createFeedStore(provider.id).loadEntries(),
+    };
+};
+
+/**
+ * 航空会社のフィードとまとめたフィードを `storage/feeds/*.atom` に書き出す
+ */
+export const writeFeeds = async (providers: AirlineProvider[], airlineId: string): Promise<void> => {
+    // 他の航空会社の確認と同時にまとめたフィードを書き換えないよう、エントリーの読み込みから書き込みまでロックする
+    await withFeedLock(feedDirectory, async () => {
+        for (const feedId of [airlineId, combinedFeedId]) {
+            const feed = await buildFeed(providers, feedId);
+            if (feed) {
+                await writeFileAtomic(path.join(feedDirectory, `${feedId}.atom`), renderAtomFeed(feed));
+            }
+        }
+    });
+};
@@ -0,0 +1,188 @@
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { logger } from "./logger";
+
+export interface FileLockOptions {
+    /** ロックが解放されるまで待つ最大の時間 (ミリ秒) */
+    timeout: number;
+    /** ロックを確認し直す間隔 (ミリ秒) */
+    retryInterval: number;
+    /** この時間より前に作成されたロックは終了したプロセスが残したものとみなす (ミリ秒) */
+    staleAfter: number;
+}
+
+interface LockOwner {
+    pid: number;
+    hostname: string;
+    createdAt: string;
+}
+
+/**
+ * 他のプロセスがロックを解放しないまま待ち時間を過ぎた場合のエラー
+ */
+export class FileLockTimeoutError extends Error {
+    constructor(
+        readonly lockPath: string,
+        readonly owner?: LockOwner,
+    ) {
+        super(
+            `Timed out waiting for ${lockPath}${owner ? ` (held by pid ${owner.pid} on ${owner.hostname} since ${owner.createdAt})` : ""}`,
+        );
+        this.name = "FileLockTimeoutError";
+    }
+}
+
+const defaultLockOptions: FileLockOptions = {
+    timeout: 10 * 60 * 1000,
+    retryInterval: 1000,
+    staleAfter: 30 * 60 * 1000,
+};
+
+const isErrorCode = (error: unknown, code: string): boolean => (error as NodeJS.ErrnoException)?.code === code;
+
+/**
+ * 一時ファイルに書き込んでから置き換える。書き込みの途中で終了しても元のファイルは壊れない
+ *
+ * 保存先のディレクトリがない場合は作成する
+ */
+export const writeFileAtomic = async (filePath: string, data: string): Promise<void> => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+
+    try {
+        await fs.writeFile(tempPath, data, "utf-8");
+        await fs.rename(tempPath, filePath);
+    } catch (error) {
+        await fs.rm(tempPath, { force: true });
+        throw error;
+    }
+};
+
+interface LockFile {
+    owner?: LockOwner;
+    /** 所有者の比較に使う内容 */
+    content: string;
+    mtimeMs: number;
+}
+
+const readLock = async (lockPath: string): Promise<LockFile | undefined> => {
+    try {
+        const [content, stat] = await Promise.all([fs.readFile(lockPath, "utf-8"), fs.stat(lockPath)]);
+        return { owner: parseLockOwner(content), content, mtimeMs: stat.mtimeMs };
+    } catch (error) {
+        // 解放された直後のロック
+        return undefined;
+    }
+};
+
+const parseLockOwner = (content: string): LockOwner | undefined => {
+    try {
+        return JSON.parse(content) as LockOwner;
+    } catch (error) {
+        // 書き込み中のロック
+        return undefined;
+    }
+};
+
+const isProcessAlive = (pid: number): boolean => {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (error) {
+        // 権限がない場合はプロセスが存在する
+        return isErrorCode(error, "EPERM");
+    }
+};
+
+/**
+ * 作成から時間が経ったロックや、同じホストで作成したプロセスが終了しているロックは残ったものとみなす
+ */
+const isStaleLock = (lock: LockFile, staleAfter: number): boolean => {
+    if (Date.now() - lock.mtimeMs > staleAfter) {
+        return true;
+    }
+
+    const { owner } = lock;
+    return owner !== undefined && owner.hostname === os.hostname() && !isProcessAlive(owner.pid);
+};
+
+/**
+ * 残ったロックを削除する。他のプロセスが削除している途中の場合は削除せずにfalseを返す
+ *
+ * 複数のプロセスが同じロックを残ったものと判定した場合に、先に削除して取り直したプロセスのロックを削除しないよう、
+ * 削除は `<ロック>.takeover` を作成できた1つのプロセスのみが行い、判定したときと同じロックか確認してから削除する
+ */
+const removeStaleLock = async (lockPath: string, lock: LockFile, staleAfter: number): Promise<boolean> => {
+    const takeoverPath = `${lockPath}.takeover`;
+    try {
+        await fs.writeFile(takeoverPath, String(process.pid), { encoding: "utf-8", flag: "wx" });
+    } catch (error) {
+        if (!isErrorCode(error, "EEXIST")) {
+            throw error;
+        }
+
+        // 削除の途中で終了したプロセスが残したファイル
+        const stat = await fs.stat(takeoverPath).catch(() => undefined);
+        if (stat && Date.now() - stat.mtimeMs > staleAfter) {
+            await fs.rm(takeoverPath, { force: true });
+        }
+        return false;
+    }
+
+    try {
+        const current = await readLock(lockPath);
+        if (current?.content === lock.content && current.mtimeMs === lock.mtimeMs) {
+            logger.warn("Removing stale lock", { lockPath, pid: lock.owner?.pid });
+            await fs.rm(lockPath, { force: true });
+        }
+        return true;
+    } finally {
+        await fs.rm(takeoverPath, { force: true });
+    }
+};
+
+/**
+ * ロックファイルを作成してから処理を実行し、終了後にロックを解放する
+ *
+ * 他のプロセスがロックしている場合は解放されるまで待つため、同じロックを使う処理は順番に実行される
+ */
+export const withFileLock = async <R>(
+    lockPath: string,
+    fn: () => Promise<R>,
+    options: Partial<FileLockOptions> = {},
+): Promise<R> => {
+    const { timeout, retryInterval, staleAfter } = { ...defaultLockOptions, ...options };
+    const deadline = Date.now() + timeout;
+    await fs.mkdir(path.dirname(lockPath), { recursive: true });
+
+    while (true) {
+        try {
+            const owner: LockOwner = { pid: process.pid, hostname: os.hostname(), createdAt: new Date().toISOString() };
+            // ファイルが存在する場合は作成に失敗するため、1つのプロセスのみがロックを取得できる
+            await fs.writeFile(lockPath, JSON.stringify(owner), { encoding: "utf-8", flag: "wx" });
+            break;
+        } catch (error) {
+            if (!isErrorCode(error, "EEXIST")) {
+                throw error;
+            }
+        }
+
+        const lock = await readLock(lockPath);
+        if (lock && isStaleLock(lock, staleAfter) && (await removeStaleLock(lockPath, lock, staleAfter))) {
+            continue;
+        }
+
+        if (Date.now() >= deadline) {
+            throw new FileLockTimeoutError(lockPath, lock?.owner);
+        }
+
+        await new Promise(resolve => setTimeout(resolve, retryInterval));
+    }
+
+    try {
+        return await fn();
+    } finally {
+        await fs.rm(lockPath, { force: true });
+    }
+};
@@ -0,0 +1,6 @@
+import { createHash } from "node:crypto";
+
+/**
+ * 内容のSHA-256を16進数の文字列で返す。変更の検出や識別子に使う
+ */
+export const hashContent = (content: string): string => createHash("sha256").update(content).digest("hex");
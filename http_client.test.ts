@@ -0,0 +1,131 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import * as fs from "node:fs";
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+import * as os from "node:os";
+import * as path from "node:path";
+import { type FetchHTMLOptions, HttpStatusError, fetchHTML, getRetryDelay, parseRetryAfter } from "./http_client";
+
+const requests: http.IncomingHttpHeaders[] = [];
+let respond: (request: http.IncomingMessage, response: http.ServerResponse) => void = () => {};
+
+const server = http.createServer((request, response) => {
+    requests.push(request.headers);
+    respond(request, response);
+});
+
+let baseUrl = "";
+let options: FetchHTMLOptions;
+
+describe("fetchHTML", () => {
+    beforeAll(async () => {
+        await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(() => {
+        server.close();
+    });
+
+    beforeEach(() => {
+        requests.length = 0;
+        options = {
+            userAgent: "test",
+            timeout: 1000,
+            retries: 2,
+            retryDelay: 1,
+            cacheDirectory: fs.mkdtempSync(path.join(os.tmpdir(), "http-cache-")),
+        };
+    });
+
+    test("sends conditional requests and returns the cached page when not modified", async () => {
+        respond = (request, response) => {
+            if (request.headers["if-none-match"] === '"v1"') {
+                response.writeHead(304).end();
+                return;
+            }
+            response.writeHead(200, { etag: '"v1"' }).end("<p>page</p>");
+        };
+
+        expect(await fetchHTML(`${baseUrl}/page`, options)).toBe("<p>page</p>");
+        expect(await fetchHTML(`${baseUrl}/page`, options)).toBe("<p>page</p>");
+        expect(requests.map(headers => headers["if-none-match"])).toEqual([undefined, '"v1"']);
+    });
+
+    test("ignores a cached response without a body", async () => {
+        respond = (request, response) => {
+            if (request.headers["if-none-match"]) {
+                response.writeHead(304).end();
+                return;
+            }
+            response.writeHead(200, { etag: '"v2"' }).end("<p>fresh</p>");
+        };
+        await fetchHTML(`${baseUrl}/broken`, options);
+        const [cacheFile] = fs.readdirSync(options.cacheDirectory);
+        fs.writeFileSync(path.join(options.cacheDirectory, cacheFile), JSON.stringify({ etag: '"v2"' }));
+        requests.length = 0;
+
+        expect(await fetchHTML(`${baseUrl}/broken`, options)).toBe("<p>fresh</p>");
+        expect(requests.map(headers => headers["if-none-match"])).toEqual([undefined]);
+    });
+
+    test("refetches when the server returns 304 without a cached response", async () => {
+        let count = 0;
+        respond = (_, response) => {
+            count++;
+            if (count === 1) {
+                response.writeHead(304).end();
+                return;
+            }
+            response.writeHead(200).end("<p>page</p>");
+        };
+
+        expect(await fetchHTML(`${baseUrl}/unexpected`, { ...options, retries: 0 })).toBe("<p>page</p>");
+        expect(requests).toHaveLength(2);
+    });
+
+    test("retries transient failures", async () => {
+        let count = 0;
+        respond = (_, response) => {
+            count++;
+            if (count < 3) {
+                response.writeHead(503, { "retry-after": "0" }).end();
+                return;
+            }
+            response.writeHead(200).end("ok");
+        };
+
+        expect(await fetchHTML(`${baseUrl}/flaky`, options)).toBe("ok");
+        expect(requests).toHaveLength(3);
+    });
+
+    test("does not retry client errors", async () => {
+        respond = (_, response) => {
+            response.writeHead(404).end();
+        };
+
+        const error = await fetchHTML(`${baseUrl}/missing`, options).catch(error => error);
+        expect(error).toBeInstanceOf(HttpStatusError);
+        expect(error.status).toBe(404);
+        expect(requests).toHaveLength(1);
+    });
+});
+
+describe("retry delay", () => {
+    test("parseRetryAfter", () => {
+        expect(parseRetryAfter("120")).toBe(120000);
+        expect(parseRetryAfter("Wed, 05 Feb 2025 01:00:30 GMT", Date.parse("2025-02-05T01:00:00Z"))).toBe(30000);
+        expect(parseRetryAfter(null)).toBeUndefined();
+        expect(parseRetryAfter("soon")).toBeUndefined();
+    });
+
+    test("getRetryDelay backs off exponentially and honours Retry-After", () => {
+        const error = new Error("network");
+        expect(getRetryDelay(1, 1000, error, () => 0.5)).toBe(1000);
+        expect(getRetryDelay(3, 1000, error, () => 0.5)).toBe(4000);
+        expect(getRetryDelay(3, 1000, error, () => 0)).toBe(2000);
+        expect(getRetryDelay(1, 1000, new HttpStatusError("https://example.com", 429, "Too Many Requests", 5000))).toBe(
+            5000,
+        );
+    });
+});
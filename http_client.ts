@@ -1,18 +1,139 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
 import { getConfig } from "./config";
+import { writeFileAtomic } from "./file_store";
+import { hashContent } from "./hash";
+import { logger } from "./logger";
+import { metrics } from "./metrics";
 
-export async function fetchHTML(url: string): Promise<string> {
-    const maxRetries = 3;
-    const retryDelay = 1000; // 1秒
+export interface FetchHTMLOptions {
+    userAgent: string;
+    /** 1回のリクエストのタイムアウト (ミリ秒) */
+    timeout: number;
+    /** 失敗した場合に再試行する回数 */
+    retries: number;
+    /** 再試行までの待ち時間の基準 (ミリ秒)。再試行のたびに2倍にする */
+    retryDelay: number;
+    /** ETag / Last-Modified とレスポンスを保存するディレクトリ */
+    cacheDirectory: string;
+    /** 保存したレスポンスを使うが、新しいレスポンスは保存しない */
+    readOnlyCache?: boolean;
+}
+
+interface CachedResponse {
+    etag?: string;
+    lastModified?: string;
+    body: string;
+}
+
+/**
+ * HTTPステータスが成功以外だった場合のエラー
+ */
+export class HttpStatusError extends Error {
+    constructor(
+        readonly url: string,
+        readonly status: number,
+        statusText: string,
+        /** Retry-After で指定された待ち時間 (ミリ秒) */
+        readonly retryAfter?: number,
+    ) {
+        super(`Failed to fetch ${url}: ${status} ${statusText}`);
+        this.name = "HttpStatusError";
+    }
+}
+
+const maxRetryDelay = 2 * 60 * 1000;
+
+let readOnlyCache = false;
+
+/**
+ * 取得したレスポンスを保存しないようにする。`--dry-run` などで `storage/` を変更しないために使う
+ */
+export const setHttpCacheReadOnly = (readOnly: boolean): void => {
+    readOnlyCache = readOnly;
+};
+
+const getDefaultOptions = (): FetchHTMLOptions => {
     const config = getConfig();
 
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    return {
+        userAgent: config.userAgent,
+        timeout: config.fetch.timeout,
+        retries: config.fetch.retries,
+        retryDelay: 1000,
+        cacheDirectory: path.join("storage", "http_cache"),
+        readOnlyCache,
+    };
+};
+
+/**
+ * Retry-After の秒数またはHTTP日付を待ち時間 (ミリ秒) にする
+ */
+export const parseRetryAfter = (value: string | null, now = Date.now()): number | undefined => {
+    if (!value) {
+        return undefined;
+    }
+
+    if (/^\d+$/.test(value.trim())) {
+        return Number(value.trim()) * 1000;
+    }
+
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+/**
+ * タイムアウトや通信エラー、408 / 429 / 5xx のみを一時的な失敗として再試行する
+ */
+const isTransient = (error: unknown): boolean =>
+    error instanceof HttpStatusError ? error.status === 408 || error.status === 429 || error.status >= 500 : true;
+
+/**
+ * 指数関数的に待ち時間を延ばし、同時に再試行しないよう±50%の範囲でずらす。Retry-After が指定された場合はそれに従う
+ */
+export const getRetryDelay = (attempt: number, baseDelay: number, error: unknown, random = Math.random): number => {
+    if (error instanceof HttpStatusError && error.retryAfter !== undefined) {
+        return Math.min(error.retryAfter, maxRetryDelay);
+    }
+
+    return Math.min(Math.round(baseDelay * 2 ** (attempt - 1) * (0.5 + random())), maxRetryDelay);
+};
+
+const loadCache = async (filePath: string): Promise<CachedResponse | undefined> => {
+    let cached: CachedResponse;
+    try {
+        cached = JSON.parse(await fs.readFile(filePath, "utf-8")) as CachedResponse;
+    } catch (error) {
+        // まだ取得していないURLや、書き込みの途中で終了したファイル
+        return undefined;
+    }
+
+    // 本文のないキャッシュで条件付きリクエストを送ると、304が返されたときに返す内容がない
+    return typeof cached?.body === "string" ? cached : undefined;
+};
+
+/**
+ * ページを取得する
+ *
+ * 前回のレスポンスに ETag / Last-Modified があった場合は条件付きリクエストを送り、304の場合は保存したレスポンスを返す
+ */
+export async function fetchHTML(url: string, options: FetchHTMLOptions = getDefaultOptions()): Promise<string> {
+    const cachePath = path.join(options.cacheDirectory, `${hashContent(url).slice(0, 16)}.json`);
+    const cached = await loadCache(cachePath);
+    const maxAttempts = options.retries + 1;
+    let refetched = false;
+    const host = new URL(url).host;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
         const controller = new AbortController();
-        const timeout = setTimeout(() => controller.abort(), 30000);
+        const timeout = setTimeout(() => controller.abort(), options.timeout);
+        const start = performance.now();
+        let responded = false;
 
         try {
             const response = await fetch(url, {
                 headers: {
-                    "user-agent": config.userAgent,
+                    "user-agent": options.userAgent,
                     accept: "text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8,application/signed-exchange;v=b3;q=0.7",
                     "accept-encoding": "gzip, deflate, br, zstd",
                     "accept-language": "ja,en-US;q=0.9,en;q=0.8",
@@ -26,24 +147,63 @@ export async function fetchHTML(url: string): Promise<string> {
                     "sec-fetch-site": "none",
                     "sec-fetch-user": "?1",
                     "upgrade-insecure-requests": "1",
+                    ...(cached?.etag ? { "if-none-match": cached.etag } : {}),
+                    ...(cached?.lastModified ? { "if-modified-since": cached.lastModified } : {}),
                 },
                 referrerPolicy: "strict-origin-when-cross-origin",
                 signal: controller.signal,
             });
+            responded = true;
+            metrics.observe("httpRequestDuration", { host }, (performance.now() - start) / 1000);
+            metrics.inc("httpRequests", { host, status: String(response.status) });
+
+            // 前回から変更されていない
+            if (response.status === 304 && cached) {
+                return cached.body;
+            }
+
+            // 保存したレスポンスがないのに304が返された場合は、条件を付けずにすぐに取得し直す
+            if (response.status === 304 && !refetched) {
+                logger.warn("Received 304 without a cached response, refetching", { url });
+                refetched = true;
+                attempt--;
+                continue;
+            }
 
             if (!response.ok) {
-                throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`);
+                throw new HttpStatusError(
+                    url,
+                    response.status,
+                    response.statusText,
+                    parseRetryAfter(response.headers.get("retry-after")),
+                );
             }
 
-            return await response.text();
+            const body = await response.text();
+            const etag = response.headers.get("etag") ?? undefined;
+            const lastModified = response.headers.get("last-modified") ?? undefined;
+
+            if ((etag || lastModified) && !options.readOnlyCache) {
+                const entry: CachedResponse = { etag, lastModified, body };
+                // 書き込みの途中で終了しても壊れたキャッシュが残らないようにする
+                await writeFileAtomic(cachePath, JSON.stringify(entry));
+            }
+
+            return body;
         } catch (error) {
             clearTimeout(timeout);
+            // レスポンスを受け取った場合はHTTPステータスで数えている
+            if (!responded) {
+                metrics.inc("httpRequests", { host, status: "error" });
+            }
 
-            if (attempt === maxRetries) {
+            if (attempt === maxAttempts || !isTransient(error)) {
                 throw error;
             }
 
-            console.warn(`Attempt ${attempt} failed, retrying in ${retryDelay}ms...`, error);
+            const retryDelay = getRetryDelay(attempt, options.retryDelay, error);
+            metrics.inc("httpRetries", { host });
+            logger.warn(`Attempt ${attempt} failed, retrying in ${retryDelay}ms`, { url, attempt, retryDelay, error });
             await new Promise(resolve => setTimeout(resolve, retryDelay));
         } finally {
             clearTimeout(timeout);
@@ -0,0 +1,106 @@
+import { afterAll, beforeAll, describe, expect, setSystemTime, test } from "bun:test";
+import * as fs from "node:fs";
+import { createJalService } from "./jal";
+
+const irregularHTML = fs.readFileSync("fixtures/jal/irregular.html", "utf-8");
+const normalHTML = fs.readFileSync("fixtures/jal/normal.html", "utf-8");
+
+describe("JAL", () => {
+    const jal = createJalService();
+
+    beforeAll(() => {
+        setSystemTime(new Date("2025-02-05T10:00:00+09:00"));
+    });
+
+    afterAll(() => {
+        setSystemTime();
+    });
+
+    test("hasIrregularFlights", () => {
+        expect(jal.hasIrregularFlights(irregularHTML)).toBe(true);
+        expect(jal.hasIrregularFlights(normalHTML)).toBe(false);
+    });
+
+    test("getUpdateTime", () => {
+        expect(jal.getUpdateTime(irregularHTML)).toBe("2025年2月5日 10:00更新");
+    });
+
+    test("parseIrregularFlights skips the English section", () => {
+        const flightInfos = jal.parseIrregularFlights(irregularHTML);
+
+        expect(flightInfos.map(info => info.region)).toEqual(["北海道", "九州・沖縄"]);
+        expect(flightInfos[0].airports[0]).toEqual({
+            name: "札幌（新千歳）",
+            date: "2月5日（水）～2月7日（金）",
+            content: "大雪の影響",
+            range: { start: "2025-02-05", end: "2025-02-07" },
+            resolved: { iata: "CTS", icao: "RJCC", nameJa: "新千歳", nameEn: "New Chitose" },
+        });
+        expect(flightInfos.flatMap(info => info.airports.map(airport => airport.resolved?.iata))).toEqual([
+            "CTS",
+            "MMB",
+            "OKA",
+        ]);
+    });
+
+    test("parseIrregularFlights reads the English section", () => {
+        expect(jal.parseIrregularFlights(irregularHTML, "en")).toEqual([
+            {
+                region: "Hokkaido",
+                airports: [
+                    {
+                        name: "Sapporo (New Chitose)",
+                        date: "Feb. 5 - Feb. 7",
+                        content: "Heavy snow",
+                        resolved: { iata: "CTS", icao: "RJCC", nameJa: "新千歳", nameEn: "New Chitose" },
+                    },
+                ],
+            },
+        ]);
+        expect(jal.parseIrregularFlights(normalHTML, "en")).toEqual([]);
+    });
+
+    test("formatMessage", () => {
+        const flightInfos = jal.parseIrregularFlights(irregularHTML);
+        const message = jal.formatMessage(flightInfos, jal.getUpdateTime(irregularHTML));
+
+        expect(message.airline).toBe("JAL");
+        expect(message.sections).toEqual([
+            { heading: "本日対象 / 北海道", lines: ["札幌（新千歳）: 2月5日（水）～2月7日（金） - 大雪の影響"] },
+            { heading: "今後 / 北海道", lines: ["女満別: 2月6日（木） - 大雪の影響"] },
+            { heading: "今後 / 九州・沖縄", lines: ["沖縄（那覇）: 2月8日（土）～2月9日（日） - 台風の影響"] },
+        ]);
+    });
+
+    test("formatMessage shows changed content", () => {
+        const flightInfos = jal.parseIrregularFlights(irregularHTML);
+        const changed = flightInfos.map(info => ({
+            ...info,
+            airports: info.airports.map(airport =>
+                airport.name === "女満別" ? { ...airport, content: "大雪・強風の影響" } : airport,
+            ),
+        }));
+        const diff = jal.diffState({ lastCheck: "", flightInfos }, changed);
+        const message = jal.formatMessage(changed, "", false, diff);
+
+        expect(message.changes).toEqual([
+            {
+                heading: "✏️ 変更",
+                lines: ["北海道 / 女満別: 2月6日（木） - 大雪の影響 → 2月6日（木） - 大雪・強風の影響"],
+            },
+        ]);
+    });
+
+    test("formatMessage in English", () => {
+        const message = jal.formatMessage([], "", false, undefined, "en");
+
+        expect(message.title).toBe("Airports subject to special handling");
+        expect(message.sections).toEqual([{ lines: ["There are currently no applicable airports."] }]);
+    });
+
+    test("formatMessage without flights", () => {
+        const message = jal.formatMessage([], "", false);
+
+        expect(message.sections).toEqual([{ lines: ["現在、対象空港はございません"] }]);
+    });
+});
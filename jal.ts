@@ -1,11 +1,28 @@
-import type { Block, KnownBlock } from "@slack/web-api";
 import * as cheerio from "cheerio";
+import { withResolvedAirport } from "./airports";
+import { parseDateRange } from "./date_range";
+import { type FlightInfoDiff, formatDiffSections, formatStatusSections } from "./diff";
 import { fetchHTML } from "./http_client";
-import type { SlackMessage } from "./notification";
-import { type BaseAirportInfo, type BaseFlightInfo, type BaseState, createStateManager } from "./state_manager";
+import type { Locale } from "./locale";
+import type { NotificationMessage } from "./notification";
+import { type PageInspection, fingerprintStructure } from "./page_check";
+import type { AirlineProvider } from "./provider";
+import type { BaseAirportInfo, BaseFlightInfo } from "./state_manager";
+import { createAirlineStateManager } from "./state_store";
 
 const JAL_URL = "https://www.jal.co.jp/cms/other/ja/info.html";
 
+const messages: Record<Locale, { title: string; normalMessage: string }> = {
+    ja: {
+        title: "特別な取り扱い対象空港の一覧",
+        normalMessage: "現在、対象空港はございません",
+    },
+    en: {
+        title: "Airports subject to special handling",
+        normalMessage: "There are currently no applicable airports.",
+    },
+};
+
 export interface JalAirportInfo extends BaseAirportInfo {
     name: string;
     date: string;
@@ -17,19 +34,11 @@ export interface JalFlightInfo extends BaseFlightInfo {
     airports: JalAirportInfo[];
 }
 
-export interface JalService {
-    hasIrregularFlights: (html: string) => boolean;
-    parseIrregularFlights: (html: string) => JalFlightInfo[];
-    getUpdateTime: (html: string) => string;
-    formatMessage: (flightInfos: JalFlightInfo[], updateTime: string, withMention?: boolean) => SlackMessage;
-    loadState: () => Promise<BaseState<JalFlightInfo> | null>;
-    saveState: (state: BaseState<JalFlightInfo>) => Promise<void>;
-    hasStateChanged: (oldState: BaseState<JalFlightInfo> | null, newFlightInfos: JalFlightInfo[]) => boolean;
-    fetchFlightInfo: () => Promise<string>;
-}
+export type JalService = AirlineProvider<JalFlightInfo>;
 
 export const createJalService = (): JalService => {
-    const stateManager = createStateManager<JalFlightInfo>("jal.json");
+    const stateFileName = "jal.json";
+    const stateManager = createAirlineStateManager<JalFlightInfo>("jal", stateFileName);
 
     const hasIrregularFlights = (html: string): boolean => {
         const $ = cheerio.load(html);
@@ -38,23 +47,22 @@ export const createJalService = (): JalService => {
         return normalMessage.length === 0;
     };
 
-    const parseIrregularFlights = (html: string): JalFlightInfo[] => {
+    const parseIrregularFlights = (html: string, locale: Locale = "ja"): JalFlightInfo[] => {
         const $ = cheerio.load(html);
         const flightInfos: JalFlightInfo[] = [];
         let currentRegion = "";
 
-        // 英語版のセクションを除外するため、id="en"より前のテーブルのみを対象とする
+        // 同じページに英語版のセクション (id="en") があるため、言語に応じてどちらかのテーブルのみを対象とする
         $(".table_typeB_01 table").each((_, table) => {
             const $table = $(table);
-            // 英語版のセクション内のテーブルは除外
-            if ($table.closest("#en").length > 0) {
+            if ($table.closest("#en").length > 0 !== (locale === "en")) {
                 return;
             }
 
             const region = $table.find("thead th").first().text().trim();
             currentRegion = region;
 
-            const airports: { name: string; date: string; content: string }[] = [];
+            const airports: JalAirportInfo[] = [];
             $table.find("tbody tr").each((_, row) => {
                 const $cells = $(row).find("td");
                 if ($cells.length === 3) {
@@ -62,7 +70,8 @@ export const createJalService = (): JalService => {
                     const date = $cells.eq(1).text().trim();
                     const content = $cells.eq(2).text().trim();
 
-                    airports.push({ name, date, content });
+                    const range = parseDateRange(date);
+                    airports.push(withResolvedAirport({ name, date, content, ...(range ? { range } : {}) }));
                 }
             });
 
@@ -83,83 +92,84 @@ export const createJalService = (): JalService => {
         return timeText || new Date().toLocaleString("ja-JP", { timeZone: "Asia/Tokyo" });
     };
 
-    const formatMessage = (flightInfos: JalFlightInfo[], updateTime: string, withMention = true): SlackMessage => {
-        const headerText = `*特別な取り扱い対象空港の一覧 / <${JAL_URL}|JAL>* ${withMention ? " @channel" : ""}\n`;
-        const blocks: (Block | KnownBlock)[] = [
-            {
-                type: "section",
-                text: {
-                    type: "mrkdwn",
-                    text: headerText,
-                },
-            },
-        ];
-
-        if (flightInfos.length === 0) {
-            blocks.push({
-                type: "section",
-                text: {
-                    type: "mrkdwn",
-                    text: "現在、対象空港はございません",
-                },
-            });
-        } else {
-            for (const info of flightInfos) {
-                blocks.push({
-                    type: "section",
-                    text: {
-                        type: "mrkdwn",
-                        text: `*${info.region}*`,
-                    },
-                });
+    const inspectPage = (html: string): PageInspection => {
+        const $ = cheerio.load(html);
+        const issues: string[] = [];
 
-                // 空港情報のリスト
-                const airportList = info.airports
-                    .map(airport => `${airport.name}: ${airport.date} - ${airport.content}`)
-                    .join("\n");
-
-                blocks.push({
-                    type: "section",
-                    text: {
-                        type: "mrkdwn",
-                        text: airportList,
-                    },
-                });
-            }
+        if ($(".alR").first().text().trim() === "") {
+            issues.push("更新日時 (.alR) が見つかりません");
         }
 
-        // 取得日時を追加
-        blocks.push({
-            type: "divider",
-            block_id: "divider",
-        });
-        blocks.push({
-            type: "context",
-            elements: [
-                {
-                    type: "mrkdwn",
-                    text: updateTime,
-                },
-            ],
-        });
+        // 空港名、対象日、内容の3列以外の行は読み取れない
+        const columnCounts = new Set(
+            $(".table_typeB_01 table tbody tr")
+                .toArray()
+                .filter(row => $(row).closest("#en").length === 0)
+                .map(row => $(row).find("td").length)
+                .filter(count => count > 0 && count !== 3),
+        );
+        if (columnCounts.size > 0) {
+            issues.push(`想定外の列数の行があります (${[...columnCounts].join(", ")}列)`);
+        }
+
+        return { issues, fingerprint: fingerprintStructure($, ".table_typeB_01, .alR") };
+    };
+
+    const describeAirport = (airport: JalAirportInfo): [string, string][] => [
+        ["対象日", airport.date],
+        ["内容", airport.content],
+    ];
+
+    const formatMessage = (
+        flightInfos: JalFlightInfo[],
+        updateTime: string,
+        withMention = true,
+        diff?: FlightInfoDiff<JalAirportInfo>,
+        locale: Locale = "ja",
+    ): NotificationMessage => {
+        // 終了した空港は表示せず、本日対象と今後に分けて表示する
+        const sections = formatStatusSections(
+            flightInfos,
+            airport => `${airport.date} - ${airport.content}`,
+            messages[locale].normalMessage,
+            locale,
+        );
 
         return {
-            text: headerText,
-            blocks,
+            airline: "JAL",
+            title: messages[locale].title,
+            url: JAL_URL,
+            mention: withMention,
+            // 前回からの変更点
+            changes: diff ? formatDiffSections(diff, airport => `${airport.date} - ${airport.content}`, locale) : [],
+            sections,
+            footer: updateTime,
         };
     };
 
+    // 英語版は同じページにあるため、言語によらず同じページを取得する
     const fetchFlightInfo = async (): Promise<string> => {
         return await fetchHTML(JAL_URL);
     };
 
     return {
+        id: "jal",
+        name: "JAL",
+        url: JAL_URL,
+        englishUrl: JAL_URL,
+        stateFileName,
+        defaultIcon: ":jal:",
+        defaultUsername: "JAL運航情報",
         hasIrregularFlights,
         parseIrregularFlights,
         getUpdateTime,
+        inspectPage,
+        describeAirport,
         formatMessage,
         loadState: stateManager.loadState,
         saveState: stateManager.saveState,
+        withLock: stateManager.withLock,
+        diffState: stateManager.diffState,
         hasStateChanged: stateManager.hasStateChanged,
         fetchFlightInfo,
     };
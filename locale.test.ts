@@ -0,0 +1,33 @@
+import { describe, expect, test } from "bun:test";
+import { withResolvedAirport } from "./airports";
+import { diffFlightInfos, formatDiffSections } from "./diff";
+import { localizeDiff } from "./locale";
+
+interface TestFlightInfo {
+    region: string;
+    airports: { name: string; period: string }[];
+}
+
+const naha = (period: string): TestFlightInfo[] => [
+    { region: "沖縄", airports: [withResolvedAirport({ name: "沖縄(那覇)", period })] },
+];
+
+describe("localizeDiff", () => {
+    const diff = diffFlightInfos(naha("2月8日"), naha("2月9日"));
+
+    test("shows only the new value when the previous English text is unknown", () => {
+        const translations = [
+            { region: "Okinawa", airports: [withResolvedAirport({ name: "Okinawa (Naha)", period: "Feb 9" })] },
+        ];
+
+        const sections = formatDiffSections(localizeDiff(diff, translations), airport => airport.period, "en");
+
+        expect(sections).toEqual([{ heading: "✏️ Changed", lines: ["Okinawa / Okinawa (Naha): Feb 9"] }]);
+    });
+
+    test("shows both values when neither side is translated", () => {
+        const sections = formatDiffSections(localizeDiff<TestFlightInfo>(diff, []), airport => airport.period, "en");
+
+        expect(sections[0].lines).toEqual(["沖縄 / Okinawa Naha: 2月8日 → 2月9日"]);
+    });
+});
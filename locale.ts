@@ -0,0 +1,123 @@
+import type { AirportInfoOf, FlightInfoDiff } from "./diff";
+import type { NotificationMessage } from "./notification";
+import type { BaseFlightInfo } from "./state_manager";
+
+export type Locale = "ja" | "en";
+
+/** 通知先ごとのメッセージの言語。"both" は日本語と英語を1つのメッセージにまとめる */
+export type MessageLanguage = Locale | "both";
+
+export const messageLanguages = ["ja", "en", "both"] as const;
+
+export interface MessageLabels {
+    active: string;
+    upcoming: string;
+    added: string;
+    removed: string;
+    changed: string;
+}
+
+/**
+ * 航空会社に共通するメッセージの見出し
+ */
+export const messageLabels: Record<Locale, MessageLabels> = {
+    ja: { active: "本日対象", upcoming: "今後", added: "🆕 追加", removed: "✅ 解除", changed: "✏️ 変更" },
+    en: { active: "Today", upcoming: "Upcoming", added: "🆕 Added", removed: "✅ Lifted", changed: "✏️ Changed" },
+};
+
+interface Translation<T extends BaseFlightInfo> {
+    region: string;
+    airport: AirportInfoOf<T>;
+}
+
+const findTranslation = <T extends BaseFlightInfo>(
+    translations: T[],
+    airport: AirportInfoOf<T>,
+): Translation<T> | undefined => {
+    const iata = airport.resolved?.iata;
+    if (!iata) {
+        return undefined;
+    }
+
+    for (const info of translations) {
+        const match = info.airports.find(candidate => candidate.resolved?.iata === iata);
+        if (match) {
+            return { region: info.region, airport: match };
+        }
+    }
+
+    return undefined;
+};
+
+const localizeAirport = <T extends BaseFlightInfo>(
+    airport: AirportInfoOf<T>,
+    translation: Translation<T> | undefined,
+): AirportInfoOf<T> => {
+    if (!translation) {
+        return airport.resolved ? { ...airport, name: airport.resolved.nameEn } : airport;
+    }
+
+    // 期間の判定には日本語のページの日付を使う
+    return { ...airport, ...translation.airport, range: airport.range, resolved: airport.resolved };
+};
+
+/**
+ * 日本語のページの運航情報を、英語のページに記載された同じ空港の表記に置き換える
+ *
+ * 空港はIATAコードで対応付ける。英語のページにない空港は空港名のみ辞書の英語名にし、地域名はそのままにする
+ */
+export const localizeFlightInfos = <T extends BaseFlightInfo>(flightInfos: T[], translations: T[]): T[] =>
+    flightInfos.map(info => {
+        const found = info.airports.map(airport => findTranslation(translations, airport));
+        return {
+            ...info,
+            region: found.find(translation => translation)?.region ?? info.region,
+            airports: info.airports.map((airport, index) => localizeAirport(airport, found[index])),
+        };
+    });
+
+/**
+ * 差分の空港を英語の表記に置き換える
+ *
+ * 前回の英語の表記は保存していないため、変更された空港は日本語と英語を混ぜないよう変更後の値のみ表示する
+ */
+export const localizeDiff = <T extends BaseFlightInfo>(
+    diff: FlightInfoDiff<AirportInfoOf<T>>,
+    translations: T[],
+): FlightInfoDiff<AirportInfoOf<T>> => {
+    const localizeEntry = (entry: { region: string; airport: AirportInfoOf<T> }) => {
+        const translation = findTranslation(translations, entry.airport);
+        return {
+            region: translation?.region ?? entry.region,
+            airport: localizeAirport(entry.airport, translation),
+        };
+    };
+
+    return {
+        ...diff,
+        added: diff.added.map(localizeEntry),
+        removed: diff.removed.map(localizeEntry),
+        changed: diff.changed.map(change => {
+            const translation = findTranslation(translations, change.after);
+            return {
+                ...change,
+                region: translation?.region ?? change.region,
+                before: localizeAirport(change.before, undefined),
+                after: localizeAirport(change.after, translation),
+                // 英語のページにない空港は変更前後とも日本語の表記のため、両方を表示できる
+                ...(translation ? { beforeUnknown: true } : {}),
+            };
+        }),
+    };
+};
+
+/**
+ * 日本語と英語のメッセージを1つにまとめる。日本語の内容の後に英語の内容を続ける
+ */
+export const combineMessages = (ja: NotificationMessage, en: NotificationMessage): NotificationMessage => ({
+    ...ja,
+    title: `${ja.title} / ${en.title}`,
+    changes: [...ja.changes, ...en.changes],
+    sections: [...ja.sections, ...en.sections],
+    footer: ja.footer === en.footer ? ja.footer : `${ja.footer} / ${en.footer}`,
+});
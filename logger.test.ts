@@ -0,0 +1,44 @@
+import { describe, expect, test } from "bun:test";
+import { formatLogLine, getRunContext, withRunContext } from "./logger";
+
+describe("formatLogLine", () => {
+    test("writes JSON with the fields and the error", () => {
+        const line = formatLogLine(
+            "error",
+            "Check failed",
+            { runId: "abc123", airline: "ana", error: new Error("timeout") },
+            "json",
+        );
+
+        expect(JSON.parse(line)).toMatchObject({
+            level: "error",
+            msg: "Check failed",
+            runId: "abc123",
+            airline: "ana",
+            error: { name: "Error", message: "timeout" },
+        });
+    });
+
+    test("writes text with the airline and route as a prefix", () => {
+        const line = formatLogLine(
+            "info",
+            "No changes",
+            { runId: "abc123", airline: "ana", route: "kyushu", count: 2 },
+            "text",
+        );
+
+        expect(line).toBe("[ana:kyushu] No changes count=2");
+    });
+});
+
+describe("withRunContext", () => {
+    test("keeps the context across async calls", async () => {
+        const context = await withRunContext({ runId: "abc123", airline: "jal" }, async () => {
+            await new Promise(resolve => setTimeout(resolve, 1));
+            return getRunContext();
+        });
+
+        expect(context).toEqual({ runId: "abc123", airline: "jal" });
+        expect(getRunContext()).toBeUndefined();
+    });
+});
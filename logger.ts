@@ -0,0 +1,121 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomUUID } from "node:crypto";
+import { type LogFormat, type LogLevel, logLevels } from "./config_options";
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+    debug(message: string, fields?: LogFields): void;
+    info(message: string, fields?: LogFields): void;
+    warn(message: string, fields?: LogFields): void;
+    /** `fields.error` にエラーを渡すと名前とメッセージ、スタックトレースを出力する */
+    error(message: string, fields?: LogFields): void;
+    /** 指定した項目をすべてのログに付けるロガーを作る */
+    child(fields: LogFields): Logger;
+}
+
+export interface LogOptions {
+    format: LogFormat;
+    level: LogLevel;
+}
+
+/**
+ * 1回の確認や送信の間、すべてのログに付ける項目
+ */
+export interface RunContext {
+    runId: string;
+    airline?: string;
+}
+
+let options: LogOptions = { format: "text", level: "info" };
+const runContext = new AsyncLocalStorage<RunContext>();
+
+/**
+ * ログの形式と出力するレベルを設定する
+ */
+export const configureLogger = (logOptions: LogOptions): void => {
+    options = logOptions;
+};
+
+export const createRunId = (): string => randomUUID().slice(0, 8);
+
+/**
+ * 関数の実行中に出力するログに実行IDと航空会社を付ける
+ */
+export const withRunContext = <R>(context: RunContext, fn: () => R): R => runContext.run(context, fn);
+
+export const getRunContext = (): RunContext | undefined => runContext.getStore();
+
+const serializeError = (error: unknown): unknown => {
+    if (error instanceof AggregateError) {
+        return { name: error.name, message: error.message, errors: error.errors.map(serializeError) };
+    }
+    if (error instanceof Error) {
+        return { name: error.name, message: error.message, stack: error.stack };
+    }
+    return String(error);
+};
+
+const formatErrorText = (error: unknown): string => {
+    if (!(error instanceof Error)) {
+        return String(error);
+    }
+    const text = error.stack ?? `${error.name}: ${error.message}`;
+    return error instanceof AggregateError
+        ? [text, ...error.errors.map(inner => `  ${formatErrorText(inner).replaceAll("\n", "\n  ")}`)].join("\n")
+        : text;
+};
+
+const formatValue = (value: unknown): string => (typeof value === "string" ? value : JSON.stringify(value));
+
+/**
+ * ログを1行にする。JSONはログの収集に、テキストは端末での確認に使う
+ */
+export const formatLogLine = (level: LogLevel, message: string, fields: LogFields, format: LogFormat): string => {
+    const { error, ...rest } = fields;
+
+    if (format === "json") {
+        return JSON.stringify({
+            time: new Date().toISOString(),
+            level,
+            msg: message,
+            ...rest,
+            ...(error !== undefined ? { error: serializeError(error) } : {}),
+        });
+    }
+
+    // テキストでは航空会社を先頭に表示し、実行IDは省略する
+    const { runId, airline, route, ...others } = rest;
+    const label = airline ? `[${airline}${route ? `:${route}` : ""}] ` : "";
+    const extra = Object.entries(others)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => ` ${key}=${formatValue(value)}`)
+        .join("");
+    return `${label}${message}${extra}${error !== undefined ? `\n${formatErrorText(error)}` : ""}`;
+};
+
+export const createLogger = (bindings: LogFields = {}): Logger => {
+    const write = (level: LogLevel, message: string, fields: LogFields = {}) => {
+        if (logLevels.indexOf(level) < logLevels.indexOf(options.level)) {
+            return;
+        }
+
+        const line = formatLogLine(level, message, { ...getRunContext(), ...bindings, ...fields }, options.format);
+        // 警告とエラーは標準エラー出力に出す
+        if (level === "warn" || level === "error") {
+            process.stderr.write(`${line}\n`);
+        } else {
+            process.stdout.write(`${line}\n`);
+        }
+    };
+
+    return {
+        debug: (message, fields) => write("debug", message, fields),
+        info: (message, fields) => write("info", message, fields),
+        warn: (message, fields) => write("warn", message, fields),
+        error: (message, fields) => write("error", message, fields),
+        child: fields => createLogger({ ...bindings, ...fields }),
+    };
+};
+
+export const logger = createLogger();
@@ -0,0 +1,39 @@
+import { describe, expect, test } from "bun:test";
+import { withResolvedAirport } from "./airports";
+import { decideMention, isEscalated, isQuietTime } from "./mention_policy";
+import { allAirportsRoute } from "./routing";
+
+const flightInfos = [
+    {
+        region: "北海道",
+        airports: [withResolvedAirport({ name: "札幌(新千歳)" }), withResolvedAirport({ name: "旭川" })],
+    },
+];
+
+describe("isQuietTime", () => {
+    test("handles quiet hours that span midnight in Japan time", () => {
+        const quietHours = { start: "22:00", end: "07:00", mode: "defer" as const };
+
+        expect(isQuietTime(quietHours, new Date("2025-02-05T23:30:00+09:00"))).toBe(true);
+        expect(isQuietTime(quietHours, new Date("2025-02-05T00:30:00+09:00"))).toBe(true);
+        expect(isQuietTime(quietHours, new Date("2025-02-05T07:00:00+09:00"))).toBe(false);
+        expect(isQuietTime(quietHours, new Date("2025-02-05T12:00:00+09:00"))).toBe(false);
+    });
+});
+
+describe("decideMention", () => {
+    test("mentions everyone by default and the given targets instead when configured", () => {
+        expect(decideMention({}, allAirportsRoute, flightInfos)).toEqual({ all: true, mentions: [] });
+        expect(decideMention({ mentions: ["S1"] }, allAirportsRoute, flightInfos)).toEqual({
+            all: false,
+            mentions: ["S1"],
+        });
+    });
+
+    test("escalates by the number of airports or a hub", () => {
+        expect(isEscalated({ minAirports: 3 }, flightInfos)).toBe(false);
+        expect(isEscalated({ minAirports: 2 }, flightInfos)).toBe(true);
+        expect(isEscalated({ hubs: ["CTS"] }, flightInfos)).toBe(true);
+        expect(isEscalated({ hubs: ["HND"] }, flightInfos)).toBe(false);
+    });
+});
@@ -0,0 +1,113 @@
+import type { Route } from "./routing";
+import type { BaseFlightInfo } from "./state_manager";
+
+export const quietHoursModes = ["suppress", "defer"] as const;
+
+export type QuietHoursMode = (typeof quietHoursModes)[number];
+
+/**
+ * メンションしない時間帯 (日本時間)。開始が終了より遅い場合は日付をまたぐ時間帯とする
+ */
+export interface QuietHours {
+    /** "HH:MM" */
+    start: string;
+    /** "HH:MM" */
+    end: string;
+    /** "suppress" はメンションしない。"defer" は時間帯が終わった後の確認でメンションする */
+    mode: QuietHoursMode;
+}
+
+/**
+ * 通知先の全員 (@channel) にメンションする条件。いずれかを満たす場合にメンションする
+ */
+export interface MentionEscalation {
+    /** 対象の空港がこの数以上の場合 */
+    minAirports?: number;
+    /** 対象にこの空港 (IATAコードまたは空港名の一部) が含まれる場合 */
+    hubs?: string[];
+}
+
+export interface MentionPolicy {
+    quietHours?: QuietHours;
+    /** 指定した場合は条件を満たす場合のみ全員にメンションする */
+    escalation?: MentionEscalation;
+    /** 全員の代わりにメンションするSlackのユーザーIDまたはユーザーグループID */
+    mentions?: string[];
+}
+
+export interface Mention {
+    /** 通知先の全員にメンションするか */
+    all: boolean;
+    mentions: string[];
+}
+
+export const noMention: Mention = { all: false, mentions: [] };
+
+export const hasMention = (mention: Mention): boolean => mention.all || mention.mentions.length > 0;
+
+export const timePattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const toMinutes = (time: string): number => {
+    const [hours, minutes] = time.split(":").map(Number);
+    return hours * 60 + minutes;
+};
+
+/**
+ * 日本時間で静かな時間帯に入っているか
+ */
+export const isQuietTime = (quietHours: QuietHours, now = new Date()): boolean => {
+    const time = now.toLocaleTimeString("en-GB", {
+        timeZone: "Asia/Tokyo",
+        hour: "2-digit",
+        minute: "2-digit",
+        hourCycle: "h23",
+    });
+    const current = toMinutes(time);
+    const start = toMinutes(quietHours.start);
+    const end = toMinutes(quietHours.end);
+
+    return start <= end ? start <= current && current < end : current >= start || current < end;
+};
+
+/**
+ * 特別な取り扱いの規模が全員にメンションする条件を満たすか
+ */
+export const isEscalated = (escalation: MentionEscalation, flightInfos: BaseFlightInfo[]): boolean => {
+    const airports = flightInfos.flatMap(info => info.airports);
+    const hubs = escalation.hubs ?? [];
+
+    return (
+        (escalation.minAirports !== undefined && airports.length >= escalation.minAirports) ||
+        airports.some(airport => hubs.some(hub => airport.resolved?.iata === hub || airport.name.includes(hub)))
+    );
+};
+
+/**
+ * 新しく特別な取り扱いを通知する際のメンションを決める。静かな時間帯は考慮しない
+ *
+ * ルーティングのルールの通知先はルールのメンションのみを使い、既定の通知先にポリシーを適用する
+ */
+export const decideMention = (policy: MentionPolicy, route: Route, flightInfos: BaseFlightInfo[]): Mention => {
+    if (!route.mentionAll) {
+        return { all: false, mentions: route.mentions };
+    }
+
+    return {
+        all: policy.escalation ? isEscalated(policy.escalation, flightInfos) : policy.mentions === undefined,
+        mentions: [...route.mentions, ...(policy.mentions ?? [])],
+    };
+};
+
+/**
+ * 続報で全員にメンションするか。規模が条件を満たすようになった場合のみメンションする
+ */
+export const isNewlyEscalated = (
+    policy: MentionPolicy,
+    route: Route,
+    lastInfos: BaseFlightInfo[],
+    currentInfos: BaseFlightInfo[],
+): boolean =>
+    route.mentionAll &&
+    policy.escalation !== undefined &&
+    !isEscalated(policy.escalation, lastInfos) &&
+    isEscalated(policy.escalation, currentInfos);
@@ -0,0 +1,86 @@
+import { describe, expect, test } from "bun:test";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { createMetricsRegistry, writeMetricsFile } from "./metrics";
+
+describe("createMetricsRegistry", () => {
+    test("renders counters and gauges with labels", () => {
+        const registry = createMetricsRegistry();
+        registry.inc("checks", { airline: "ana", result: "success" });
+        registry.inc("checks", { airline: "ana", result: "success" });
+        registry.inc("checks", { airline: "jal", result: "failure" });
+        registry.set("affectedAirports", { airline: "ana" }, 3);
+        registry.set("affectedAirports", { airline: "ana" }, 5);
+
+        expect(registry.render()).toBe(
+            [
+                "# HELP airline_notification_checks_total Checks by airline and result",
+                "# TYPE airline_notification_checks_total counter",
+                'airline_notification_checks_total{airline="ana",result="success"} 2',
+                'airline_notification_checks_total{airline="jal",result="failure"} 1',
+                "# HELP airline_notification_affected_airports Airports currently subject to special handling",
+                "# TYPE airline_notification_affected_airports gauge",
+                'airline_notification_affected_airports{airline="ana"} 5',
+                "",
+            ].join("\n"),
+        );
+    });
+
+    test("renders cumulative histogram buckets", async () => {
+        const registry = createMetricsRegistry();
+        registry.observe("parseDuration", { airline: "ana" }, 0.2);
+        registry.observe("parseDuration", { airline: "ana" }, 3);
+        await expect(
+            registry.time("fetchDuration", { airline: "ana" }, async () => {
+                throw new Error("timeout");
+            }),
+        ).rejects.toThrow("timeout");
+
+        const lines = registry.render().split("\n");
+        expect(lines).toContain('airline_notification_parse_duration_seconds_bucket{airline="ana",le="0.1"} 0');
+        expect(lines).toContain('airline_notification_parse_duration_seconds_bucket{airline="ana",le="0.25"} 1');
+        expect(lines).toContain('airline_notification_parse_duration_seconds_bucket{airline="ana",le="5"} 2');
+        expect(lines).toContain('airline_notification_parse_duration_seconds_bucket{airline="ana",le="+Inf"} 2');
+        expect(lines).toContain('airline_notification_parse_duration_seconds_sum{airline="ana"} 3.2');
+        // 失敗した場合も時間を記録する
+        expect(lines).toContain('airline_notification_fetch_duration_seconds_count{airline="ana"} 1');
+    });
+
+    test("escapes label values", () => {
+        const registry = createMetricsRegistry();
+        registry.inc("httpRequests", { host: 'a"b\\c', status: "error" });
+
+        expect(registry.render()).toContain('{host="a\\"b\\\\c",status="error"} 1');
+    });
+});
+
+describe("writeMetricsFile", () => {
+    test("keeps counters across runs and the gauges of other processes", async () => {
+        const filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "metrics-")), "airline.prom");
+
+        // 1回目の実行
+        const first = createMetricsRegistry();
+        first.inc("checks", { airline: "ana", result: "success" });
+        first.set("lastSuccess", { airline: "ana" }, 100);
+        first.observe("parseDuration", { airline: "ana" }, 0.2);
+        await writeMetricsFile(filePath, first);
+
+        // 2回目の実行。同じプロセスで続けて書き出しても重複して数えない
+        const second = createMetricsRegistry();
+        second.inc("checks", { airline: "ana", result: "success" });
+        second.set("lastSuccess", { airline: "jal" }, 200);
+        await writeMetricsFile(filePath, second);
+        second.inc("checks", { airline: "ana", result: "failure" });
+        second.observe("parseDuration", { airline: "ana" }, 3);
+        await writeMetricsFile(filePath, second);
+
+        const lines = fs.readFileSync(filePath, "utf-8").split("\n");
+        expect(lines).toContain('airline_notification_checks_total{airline="ana",result="success"} 2');
+        expect(lines).toContain('airline_notification_checks_total{airline="ana",result="failure"} 1');
+        expect(lines).toContain('airline_notification_last_success_timestamp_seconds{airline="ana"} 100');
+        expect(lines).toContain('airline_notification_last_success_timestamp_seconds{airline="jal"} 200');
+        expect(lines).toContain('airline_notification_parse_duration_seconds_count{airline="ana"} 2');
+        expect(lines).toContain('airline_notification_parse_duration_seconds_sum{airline="ana"} 3.2');
+    });
+});
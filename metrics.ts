@@ -0,0 +1,328 @@
+import * as fs from "node:fs/promises";
+import { withFileLock, writeFileAtomic } from "./file_store";
+import { logger } from "./logger";
+import type { AirlineProvider } from "./provider";
+
+export type MetricLabels = Record<string, string>;
+
+type MetricType = "counter" | "gauge" | "histogram";
+
+interface MetricDefinition {
+    name: string;
+    help: string;
+    type: MetricType;
+}
+
+interface HistogramValue {
+    buckets: number[];
+    sum: number;
+    count: number;
+}
+
+/**
+ * ラベルごとのメトリクスの値。ファイルへの保存と読み込みに使う
+ */
+export interface MetricSeries {
+    name: MetricName;
+    labels: MetricLabels;
+    value: number | HistogramValue;
+}
+
+/** 取得や解析にかかる時間 (秒) の区切り */
+const durationBuckets = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+const prefix = "airline_notification";
+
+/**
+ * 出力するメトリクス。名前にはすべて `airline_notification_` を付ける
+ */
+export const metricDefinitions = {
+    httpRequests: {
+        name: "http_requests_total",
+        help: "HTTP requests by host and response status (error for network failures)",
+        type: "counter",
+    },
+    httpRetries: { name: "http_retries_total", help: "Retried HTTP requests by host", type: "counter" },
+    httpRequestDuration: {
+        name: "http_request_duration_seconds",
+        help: "Duration of a single HTTP request",
+        type: "histogram",
+    },
+    fetchDuration: {
+        name: "fetch_duration_seconds",
+        help: "Time to fetch the page of an airline including retries",
+        type: "histogram",
+    },
+    parseDuration: { name: "parse_duration_seconds", help: "Time to parse the page of an airline", type: "histogram" },
+    checks: { name: "checks_total", help: "Checks by airline and result", type: "counter" },
+    notifications: {
+        name: "notifications_total",
+        help: "Notifications by airline, notifier and result",
+        type: "counter",
+    },
+    affectedAirports: {
+        name: "affected_airports",
+        help: "Airports currently subject to special handling",
+        type: "gauge",
+    },
+    lastCheck: {
+        name: "last_check_timestamp_seconds",
+        help: "Unix time of the last check of an airline",
+        type: "gauge",
+    },
+    lastSuccess: {
+        name: "last_success_timestamp_seconds",
+        help: "Unix time of the last check that completed successfully",
+        type: "gauge",
+    },
+} satisfies Record<string, MetricDefinition>;
+
+export type MetricName = keyof typeof metricDefinitions;
+
+const labelKey = (labels: MetricLabels): string => JSON.stringify(Object.entries(labels).sort());
+
+const escapeLabel = (value: string): string =>
+    value.replaceAll("\\", "\\\\").replaceAll("\n", "\\n").replaceAll('"', '\\"');
+
+const formatLabels = (labels: MetricLabels): string => {
+    const entries = Object.entries(labels);
+    return entries.length > 0 ? `{${entries.map(([key, value]) => `${key}="${escapeLabel(value)}"`).join(",")}}` : "";
+};
+
+/**
+ * プロセス内のメトリクスを集計し、Prometheusのテキスト形式で出力する
+ */
+export const createMetricsRegistry = () => {
+    const values = new Map<MetricName, Map<string, { labels: MetricLabels; value: number | HistogramValue }>>();
+
+    const entry = (name: MetricName, labels: MetricLabels) => {
+        const series = values.get(name) ?? new Map();
+        values.set(name, series);
+        const key = labelKey(labels);
+        return { series, key, current: series.get(key) };
+    };
+
+    /** カウンターを増やす */
+    const inc = (name: MetricName, labels: MetricLabels = {}, value = 1): void => {
+        const { series, key, current } = entry(name, labels);
+        series.set(key, { labels, value: ((current?.value as number | undefined) ?? 0) + value });
+    };
+
+    /** ゲージを設定する */
+    const set = (name: MetricName, labels: MetricLabels, value: number): void => {
+        const { series, key } = entry(name, labels);
+        series.set(key, { labels, value });
+    };
+
+    /** ヒストグラムに値を追加する */
+    const observe = (name: MetricName, labels: MetricLabels, value: number): void => {
+        const { series, key, current } = entry(name, labels);
+        const histogram = (current?.value as HistogramValue | undefined) ?? {
+            buckets: durationBuckets.map(() => 0),
+            sum: 0,
+            count: 0,
+        };
+        durationBuckets.forEach((bound, index) => {
+            if (value <= bound) {
+                histogram.buckets[index]++;
+            }
+        });
+        histogram.sum += value;
+        histogram.count++;
+        series.set(key, { labels, value: histogram });
+    };
+
+    /**
+     * 関数の実行にかかった時間 (秒) をヒストグラムに追加する。失敗した場合も追加する
+     */
+    const time = async <R>(name: MetricName, labels: MetricLabels, fn: () => Promise<R>): Promise<R> => {
+        const start = performance.now();
+        try {
+            return await fn();
+        } finally {
+            observe(name, labels, (performance.now() - start) / 1000);
+        }
+    };
+
+    const render = (): string => {
+        const lines: string[] = [];
+
+        for (const [name, definition] of Object.entries(metricDefinitions) as [MetricName, MetricDefinition][]) {
+            const series = values.get(name);
+            if (!series || series.size === 0) {
+                continue;
+            }
+
+            const fullName = `${prefix}_${definition.name}`;
+            lines.push(`# HELP ${fullName} ${definition.help}`, `# TYPE ${fullName} ${definition.type}`);
+            for (const { labels, value } of series.values()) {
+                if (typeof value === "number") {
+                    lines.push(`${fullName}${formatLabels(labels)} ${value}`);
+                    continue;
+                }
+
+                durationBuckets.forEach((bound, index) => {
+                    lines.push(
+                        `${fullName}_bucket${formatLabels({ ...labels, le: String(bound) })} ${value.buckets[index]}`,
+                    );
+                });
+                lines.push(
+                    `${fullName}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${value.count}`,
+                    `${fullName}_sum${formatLabels(labels)} ${value.sum}`,
+                    `${fullName}_count${formatLabels(labels)} ${value.count}`,
+                );
+            }
+        }
+
+        return lines.length > 0 ? `${lines.join("\n")}\n` : "";
+    };
+
+    const reset = (): void => {
+        values.clear();
+    };
+
+    /** 現在の値の複製を返す */
+    const snapshot = (): MetricSeries[] =>
+        [...values].flatMap(([name, series]) =>
+            [...series.values()].map(({ labels, value }) => ({
+                name,
+                labels,
+                value: typeof value === "number" ? value : { ...value, buckets: [...value.buckets] },
+            })),
+        );
+
+    /** 値をすべて置き換える */
+    const restore = (series: MetricSeries[]): void => {
+        values.clear();
+        for (const { name, labels, value } of series) {
+            entry(name, labels).series.set(labelKey(labels), { labels, value });
+        }
+    };
+
+    return { inc, set, observe, time, render, reset, snapshot, restore };
+};
+
+export type MetricsRegistry = ReturnType<typeof createMetricsRegistry>;
+
+export const metrics = createMetricsRegistry();
+
+const toSeconds = (time: string): number => Math.floor(Date.parse(time) / 1000);
+
+/**
+ * 保存されている状態から航空会社ごとのゲージを設定する
+ *
+ * 確認を別のプロセスで実行している場合も、最後の確認の結果を `/metrics` で返すために使う
+ */
+export const collectStateMetrics = async (
+    providers: AirlineProvider[],
+    registry: MetricsRegistry = metrics,
+): Promise<void> => {
+    for (const provider of providers) {
+        const state = await provider.loadState({ readOnly: true });
+        if (!state) {
+            continue;
+        }
+
+        const labels = { airline: provider.id };
+        registry.set("affectedAirports", labels, state.flightInfos.flatMap(info => info.airports).length);
+        registry.set("lastCheck", labels, toSeconds(state.lastFetch?.at ?? state.lastCheck));
+        // lastCheckはページの構造の異常や通知の失敗でも更新するため、成功した日時は別に記録したものを使う
+        if (state.lastSuccess) {
+            registry.set("lastSuccess", labels, toSeconds(state.lastSuccess));
+        }
+    }
+};
+
+const seriesKey = (series: MetricSeries): string => JSON.stringify([series.name, labelKey(series.labels)]);
+
+const isSameValue = (a: MetricSeries["value"] | undefined, b: MetricSeries["value"]): boolean =>
+    JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * 保存されている値に、前回の書き出しからこのプロセスで増えた分を加える
+ *
+ * カウンターとヒストグラムは増加分を加え、ゲージはこのプロセスで変わったもののみ置き換える。
+ * 他のプロセスが書き出した値を上書きしないようにするため
+ */
+export const mergeMetrics = (
+    saved: MetricSeries[],
+    current: MetricSeries[],
+    previous: MetricSeries[],
+): MetricSeries[] => {
+    const merged = new Map(saved.map(series => [seriesKey(series), series]));
+    const written = new Map(previous.map(series => [seriesKey(series), series.value]));
+
+    for (const series of current) {
+        const key = seriesKey(series);
+        const base = merged.get(key)?.value;
+        const last = written.get(key);
+        if (isSameValue(last, series.value)) {
+            continue;
+        }
+
+        if (typeof series.value === "number") {
+            const value =
+                metricDefinitions[series.name].type === "gauge"
+                    ? series.value
+                    : ((base as number | undefined) ?? 0) + series.value - ((last as number | undefined) ?? 0);
+            merged.set(key, { ...series, value });
+            continue;
+        }
+
+        const histogram = series.value;
+        const baseHistogram = base as HistogramValue | undefined;
+        const lastHistogram = last as HistogramValue | undefined;
+        const delta = (pick: (value: HistogramValue) => number) =>
+            (baseHistogram ? pick(baseHistogram) : 0) + pick(histogram) - (lastHistogram ? pick(lastHistogram) : 0);
+        merged.set(key, {
+            ...series,
+            value: {
+                buckets: histogram.buckets.map((_, index) => delta(value => value.buckets[index])),
+                sum: delta(value => value.sum),
+                count: delta(value => value.count),
+            },
+        });
+    }
+
+    return [...merged.values()];
+};
+
+const readSavedMetrics = async (statePath: string): Promise<MetricSeries[]> => {
+    try {
+        const saved = JSON.parse(await fs.readFile(statePath, "utf-8")) as MetricSeries[];
+        // 名前を変えたメトリクスは引き継がない
+        return saved.filter(series => Object.hasOwn(metricDefinitions, series.name));
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+            logger.warn("Discarding unreadable saved metrics", { statePath, error });
+        }
+        return [];
+    }
+};
+
+/** 前回ファイルに書き出したときの値 */
+const lastWritten = new WeakMap<MetricsRegistry, MetricSeries[]>();
+
+/**
+ * node_exporterのtextfile collectorなどで読み込むよう、メトリクスをファイルに書き出す
+ *
+ * cronで実行するたびにカウンターが0に戻らないよう、値を `<ファイル名>.json` に保存し、次の実行で引き継ぐ
+ */
+export const writeMetricsFile = async (filePath: string, registry: MetricsRegistry = metrics): Promise<void> => {
+    const statePath = `${filePath}.json`;
+
+    await withFileLock(
+        `${filePath}.lock`,
+        async () => {
+            const current = registry.snapshot();
+            const merged = mergeMetrics(await readSavedMetrics(statePath), current, lastWritten.get(registry) ?? []);
+            const output = createMetricsRegistry();
+            output.restore(merged);
+
+            await writeFileAtomic(statePath, JSON.stringify(merged));
+            await writeFileAtomic(filePath, output.render());
+            lastWritten.set(registry, current);
+        },
+        { timeout: 30 * 1000, retryInterval: 100 },
+    );
+};
@@ -1,31 +1,84 @@
-import { WebClient } from "@slack/web-api";
-import type { Block, KnownBlock } from "@slack/web-api";
+export interface MessageSection {
+    heading?: string;
+    lines: string[];
+}
 
-export interface SlackMessage {
-    text: string;
-    blocks: (Block | KnownBlock)[];
+/**
+ * 通知先に依存しないメッセージ
+ *
+ * Slack / Discord / メールなどの形式には各Notifierが変換する
+ */
+export interface NotificationMessage {
+    /** 航空会社名 (例: "ANA") */
+    airline: string;
+    /** 見出し (例: "特別な取り扱いの一覧") */
+    title: string;
+    /** 運航情報ページのURL */
+    url: string;
+    /** 通知先の全員にメンションするか */
+    mention: boolean;
+    /** 個別にメンションするユーザーやグループのID */
+    mentions?: string[];
+    /** 前回からの変更点 */
+    changes: MessageSection[];
+    /** 地域ごとの空港情報。特別な取り扱いがない場合は通常運航のメッセージのみ */
+    sections: MessageSection[];
+    /** 更新日時 */
+    footer: string;
 }
 
-export interface SlackPostOptions {
+export interface NotificationSender {
     username: string;
     icon: string;
-    token: string;
-    channel: string;
 }
 
-export const postToSlack = async (message: SlackMessage, options: SlackPostOptions): Promise<void> => {
-    const slack = new WebClient(options.token);
+/**
+ * 投稿済みのメッセージを特定する情報。スレッドへの返信やメッセージの更新に使う
+ */
+export interface NotificationThread {
+    channel?: string;
+    id: string;
+}
+
+export interface SendOptions {
+    sender: NotificationSender;
+    /** 既定のチャンネルの代わりに送信するチャンネル。チャンネルに対応した通知先のみ使う */
+    channel?: string;
+    /** 指定された場合はこのメッセージへの返信として送信する */
+    thread?: NotificationThread;
+    /** 返信を通知先の全体にも表示する (Slackのreply_broadcast) */
+    broadcast?: boolean;
+}
+
+export interface Notifier {
+    /** 状態の保存や設定で使う識別子 (例: "slack") */
+    id: string;
+    /** 送信先のチャンネルを指定できるか。対応している通知先のみ空港ごとのルーティングの対象になる */
+    supportsChannels: boolean;
+    /**
+     * メッセージを送信する
+     *
+     * @returns 返信や更新に使えるメッセージの情報。対応していない通知先はundefined
+     */
+    send(message: NotificationMessage, options: SendOptions): Promise<NotificationThread | undefined>;
+    /** 投稿済みのメッセージを更新する。対応していない通知先では未定義 */
+    update?(thread: NotificationThread, message: NotificationMessage): Promise<void>;
+}
+
+export const renderPlainText = (message: NotificationMessage): string => {
+    const lines = [`${message.title} / ${message.airline}`, message.url, ""];
 
-    const result = await slack.chat.postMessage({
-        channel: options.channel,
-        text: message.text,
-        blocks: message.blocks,
-        mrkdwn: true,
-        username: options.username,
-        icon_emoji: options.icon,
-    });
+    for (const section of message.changes) {
+        if (section.heading) lines.push(section.heading);
+        lines.push(...section.lines, "");
+    }
 
-    if (!result.ok) {
-        throw new Error(`Failed to post to Slack: ${result.error}`);
+    for (const section of message.sections) {
+        if (section.heading) lines.push(`[${section.heading}]`);
+        lines.push(...section.lines, "");
     }
+
+    lines.push(message.footer);
+
+    return lines.join("\n");
 };
@@ -0,0 +1,144 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+import type { NotificationMessage } from "../notification";
+import { createDiscordNotifier, renderDiscordMessage } from "./discord";
+
+const message: NotificationMessage = {
+    airline: "ANA",
+    title: "特別な取り扱いの一覧",
+    url: "https://example.com/ana",
+    mention: true,
+    changes: [{ heading: "🆕 追加", lines: ["沖縄(那覇): 2月5日"] }],
+    sections: [{ heading: "本日対象 / 沖縄", lines: ["沖縄(那覇): 2月5日"] }],
+    footer: "2025年2月5日 10:00",
+};
+
+const normalMessage: NotificationMessage = {
+    ...message,
+    mention: false,
+    changes: [],
+    sections: [{ lines: ["現在、特別な取り扱いの対象となる空港はありません。"] }],
+};
+
+describe("renderDiscordMessage", () => {
+    test("mentions everyone only when the message mentions", () => {
+        expect(renderDiscordMessage(message)).toMatchObject({
+            content: "@everyone",
+            allowed_mentions: { parse: ["everyone"] },
+        });
+
+        const rendered = renderDiscordMessage({ ...message, mention: false });
+        expect(rendered.content).toBeUndefined();
+        // 本文に@everyoneが含まれていてもメンションしない
+        expect(rendered.allowed_mentions).toEqual({ parse: [] });
+    });
+
+    test("shows regions as fields and changes in the description", () => {
+        const [embed] = renderDiscordMessage(message).embeds;
+
+        expect(embed).toEqual({
+            title: "特別な取り扱いの一覧 / ANA",
+            url: "https://example.com/ana",
+            description: "**🆕 追加**\n沖縄(那覇): 2月5日",
+            color: 0xe01e5a,
+            fields: [{ name: "本日対象 / 沖縄", value: "沖縄(那覇): 2月5日" }],
+            footer: { text: "2025年2月5日 10:00" },
+        });
+    });
+
+    test("uses the normal color without regions", () => {
+        const [embed] = renderDiscordMessage(normalMessage).embeds;
+
+        expect(embed.color).toBe(0x2eb67d);
+        expect(embed.description).toBe("現在、特別な取り扱いの対象となる空港はありません。");
+        expect(embed.fields).toEqual([]);
+    });
+
+    test("truncates the description and fields to the embed limits", () => {
+        const [embed] = renderDiscordMessage({
+            ...message,
+            changes: [{ lines: ["a".repeat(5000)] }],
+            sections: Array.from({ length: 30 }, (_, index) => ({
+                heading: `地域${index}`,
+                lines: Array.from({ length: 100 }, () => "空港: 2月5日～2月6日"),
+            })),
+        }).embeds;
+
+        expect(embed.description).toHaveLength(4096);
+        expect(embed.description).toEndWith("…");
+        expect(embed.fields).toHaveLength(25);
+        for (const field of embed.fields) {
+            expect(field.value).toHaveLength(1024);
+            expect(field.value).toEndWith("…");
+        }
+    });
+});
+
+describe("createDiscordNotifier", () => {
+    const requests: { method?: string; url?: string; body: unknown }[] = [];
+    let status = 200;
+
+    const server = http.createServer((request, response) => {
+        let body = "";
+        request.on("data", chunk => {
+            body += chunk;
+        });
+        request.on("end", () => {
+            requests.push({ method: request.method, url: request.url, body: body ? JSON.parse(body) : undefined });
+            response.writeHead(status, { "content-type": "application/json" }).end(JSON.stringify({ id: "123" }));
+        });
+    });
+
+    let webhookUrl = "";
+
+    beforeAll(async () => {
+        await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+        webhookUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/webhooks/1/token`;
+    });
+
+    afterAll(() => {
+        server.close();
+    });
+
+    beforeEach(() => {
+        requests.length = 0;
+        status = 200;
+    });
+
+    test("posts the embed with the sender name and waits for the message ID", async () => {
+        const notifier = createDiscordNotifier({ webhookUrl });
+        const thread = await notifier.send(message, { sender: { username: "ANA運航情報", icon: ":ana:" } });
+
+        expect(thread).toEqual({ id: "123" });
+        expect(requests).toEqual([
+            {
+                method: "POST",
+                url: "/api/webhooks/1/token?wait=true",
+                body: { ...renderDiscordMessage(message), username: "ANA運航情報" },
+            },
+        ]);
+    });
+
+    test("updates the posted message", async () => {
+        const notifier = createDiscordNotifier({ webhookUrl });
+        await notifier.update?.({ id: "123" }, normalMessage);
+
+        expect(requests).toEqual([
+            {
+                method: "PATCH",
+                url: "/api/webhooks/1/token/messages/123",
+                body: renderDiscordMessage(normalMessage),
+            },
+        ]);
+    });
+
+    test("throws when Discord rejects the message", async () => {
+        status = 400;
+        const notifier = createDiscordNotifier({ webhookUrl });
+
+        await expect(notifier.send(message, { sender: { username: "ANA運航情報", icon: ":ana:" } })).rejects.toThrow(
+            "Failed to post to Discord: 400",
+        );
+    });
+});
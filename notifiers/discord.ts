@@ -0,0 +1,108 @@
+import type { DiscordConfig } from "../config";
+import type { NotificationMessage, NotificationThread, Notifier, SendOptions } from "../notification";
+
+export interface DiscordEmbed {
+    title: string;
+    url: string;
+    description?: string;
+    color: number;
+    fields: { name: string; value: string }[];
+    footer: { text: string };
+}
+
+export interface DiscordMessage {
+    content?: string;
+    embeds: DiscordEmbed[];
+    allowed_mentions: { parse: string[] };
+}
+
+// Discordの埋め込みの制限
+const maxDescriptionLength = 4096;
+const maxFieldValueLength = 1024;
+const maxFields = 25;
+
+const irregularColor = 0xe01e5a;
+const normalColor = 0x2eb67d;
+
+const truncate = (text: string, maxLength: number): string =>
+    text.length <= maxLength ? text : `${text.slice(0, maxLength - 1)}…`;
+
+/**
+ * メッセージをDiscordの埋め込み形式に変換する
+ */
+export const renderDiscordMessage = (message: NotificationMessage): DiscordMessage => {
+    const changeText = message.changes
+        .flatMap(section => (section.heading ? [`**${section.heading}**`, ...section.lines] : section.lines))
+        .join("\n");
+    const regionSections = message.sections.filter(section => section.heading);
+    // 地域の見出しがない場合は通常運航のメッセージのみ
+    const normalText = message.sections
+        .filter(section => !section.heading)
+        .flatMap(section => section.lines)
+        .join("\n");
+    const description = [changeText, normalText].filter(text => text !== "").join("\n\n");
+
+    return {
+        ...(message.mention ? { content: "@everyone" } : {}),
+        embeds: [
+            {
+                title: `${message.title} / ${message.airline}`,
+                url: message.url,
+                ...(description ? { description: truncate(description, maxDescriptionLength) } : {}),
+                color: regionSections.length > 0 ? irregularColor : normalColor,
+                fields: regionSections.slice(0, maxFields).map(section => ({
+                    name: section.heading as string,
+                    value: truncate(section.lines.join("\n"), maxFieldValueLength),
+                })),
+                footer: { text: message.footer },
+            },
+        ],
+        allowed_mentions: { parse: message.mention ? ["everyone"] : [] },
+    };
+};
+
+export const createDiscordNotifier = (config: DiscordConfig): Notifier => {
+    // Webhookではスレッドへの返信ができないため、続報も新しいメッセージとして送信する
+    const send = async (message: NotificationMessage, options: SendOptions): Promise<NotificationThread> => {
+        const url = new URL(config.webhookUrl);
+        url.searchParams.set("wait", "true");
+
+        const response = await fetch(url, {
+            method: "POST",
+            headers: { "content-type": "application/json" },
+            body: JSON.stringify({
+                ...renderDiscordMessage(message),
+                username: options.sender.username,
+            }),
+        });
+
+        if (!response.ok) {
+            throw new Error(`Failed to post to Discord: ${response.status} ${response.statusText}`);
+        }
+
+        const result = (await response.json()) as { id: string };
+        return { id: result.id };
+    };
+
+    const update = async (thread: NotificationThread, message: NotificationMessage): Promise<void> => {
+        const url = new URL(config.webhookUrl);
+        url.pathname = `${url.pathname.replace(/\/$/, "")}/messages/${thread.id}`;
+
+        const response = await fetch(url, {
+            method: "PATCH",
+            headers: { "content-type": "application/json" },
+            body: JSON.stringify(renderDiscordMessage(message)),
+        });
+
+        if (!response.ok) {
+            throw new Error(`Failed to update Discord message: ${response.status} ${response.statusText}`);
+        }
+    };
+
+    return {
+        id: "discord",
+        supportsChannels: false,
+        send,
+        update,
+    };
+};
@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, mock, test } from "bun:test";
+import type { NotificationMessage } from "../notification";
+
+const mails: Record<string, unknown>[] = [];
+
+mock.module("nodemailer", () => ({
+    default: {
+        createTransport: () => ({
+            sendMail: async (mail: Record<string, unknown>) => {
+                mails.push(mail);
+                return { messageId: `<${mails.length}@example.com>` };
+            },
+        }),
+    },
+}));
+
+const { createEmailNotifier, renderEmailMessage } = await import("./email");
+
+const message: NotificationMessage = {
+    airline: "ANA",
+    title: "特別な取り扱いの一覧",
+    url: "https://example.com/ana?lang=ja&region=okinawa",
+    mention: true,
+    changes: [{ heading: "🆕 追加", lines: ["沖縄(那覇): 2月5日"] }],
+    sections: [{ heading: "本日対象 / 沖縄", lines: ["<script>alert(\"x\")</script> & '那覇'"] }],
+    footer: "2025年2月5日 10:00",
+};
+
+const config = { smtpUrl: "smtp://localhost:25", from: "notify@example.com", to: ["ops@example.com"] };
+const sender = { username: "ANA運航情報", icon: ":ana:" };
+
+describe("renderEmailMessage", () => {
+    test("escapes the page contents in the HTML body", () => {
+        const { html } = renderEmailMessage(message);
+
+        expect(html).toContain("<li>&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt; &amp; &#39;那覇&#39;</li>");
+        expect(html).toContain('<a href="https://example.com/ana?lang=ja&amp;region=okinawa">');
+        expect(html).not.toContain("<script>");
+    });
+
+    test("uses the airline and the title as the subject", () => {
+        const email = renderEmailMessage(message);
+
+        expect(email.subject).toBe("[ANA] 特別な取り扱いの一覧");
+        expect(email.text).toContain('<script>alert("x")</script>');
+    });
+});
+
+describe("createEmailNotifier", () => {
+    beforeEach(() => {
+        mails.length = 0;
+    });
+
+    test("sends the first message as a new email", async () => {
+        const thread = await createEmailNotifier(config).send(message, { sender });
+
+        expect(thread).toEqual({ id: "<1@example.com>" });
+        expect(mails).toEqual([
+            {
+                from: '"ANA運航情報" <notify@example.com>',
+                to: ["ops@example.com"],
+                ...renderEmailMessage(message),
+            },
+        ]);
+    });
+
+    test("replies to the first email in follow-ups", async () => {
+        await createEmailNotifier(config).send(message, { sender, thread: { id: "<first@example.com>" } });
+
+        expect(mails).toEqual([
+            expect.objectContaining({
+                subject: "Re: [ANA] 特別な取り扱いの一覧",
+                inReplyTo: "<first@example.com>",
+                references: ["<first@example.com>"],
+            }),
+        ]);
+    });
+});
@@ -0,0 +1,74 @@
+import nodemailer from "nodemailer";
+import type { EmailConfig } from "../config";
+import {
+    type MessageSection,
+    type NotificationMessage,
+    type NotificationThread,
+    type Notifier,
+    type SendOptions,
+    renderPlainText,
+} from "../notification";
+
+export interface EmailMessage {
+    subject: string;
+    text: string;
+    html: string;
+}
+
+const escapeHTML = (text: string): string =>
+    text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&#39;");
+
+const renderSectionHTML = (section: MessageSection): string => {
+    const heading = section.heading ? `<h3>${escapeHTML(section.heading)}</h3>` : "";
+    const items = section.lines.map(line => `<li>${escapeHTML(line)}</li>`).join("");
+    return `${heading}<ul>${items}</ul>`;
+};
+
+/**
+ * メッセージをメールの件名・本文 (プレーンテキストとHTML) に変換する
+ */
+export const renderEmailMessage = (message: NotificationMessage): EmailMessage => {
+    const html = [
+        `<h2><a href="${escapeHTML(message.url)}">${escapeHTML(`${message.title} / ${message.airline}`)}</a></h2>`,
+        ...message.changes.map(renderSectionHTML),
+        message.changes.length > 0 ? "<hr>" : "",
+        ...message.sections.map(renderSectionHTML),
+        `<hr><p>${escapeHTML(message.footer)}</p>`,
+    ].join("\n");
+
+    return {
+        subject: `[${message.airline}] ${message.title}`,
+        text: renderPlainText(message),
+        html,
+    };
+};
+
+export const createEmailNotifier = (config: EmailConfig): Notifier => {
+    const transporter = nodemailer.createTransport(config.smtpUrl);
+
+    // 続報はIn-Reply-Toを指定し、メールクライアント上で同じスレッドにまとめる
+    const send = async (message: NotificationMessage, options: SendOptions): Promise<NotificationThread> => {
+        const email = renderEmailMessage(message);
+        const result = await transporter.sendMail({
+            from: `"${options.sender.username}" <${config.from}>`,
+            to: config.to,
+            subject: options.thread ? `Re: ${email.subject}` : email.subject,
+            text: email.text,
+            html: email.html,
+            ...(options.thread ? { inReplyTo: options.thread.id, references: [options.thread.id] } : {}),
+        });
+
+        return { id: result.messageId };
+    };
+
+    return {
+        id: "email",
+        supportsChannels: false,
+        send,
+    };
+};
@@ -0,0 +1,49 @@
+import type { Config } from "../config";
+import type { Notifier } from "../notification";
+import { createDiscordNotifier } from "./discord";
+import { createEmailNotifier } from "./email";
+import { createSlackNotifier } from "./slack";
+import { createWebhookNotifier } from "./webhook";
+
+/**
+ * 航空会社ごとに設定された通知先のNotifierを作成する
+ */
+export const createNotifiers = (config: Config, airlineId: string): Notifier[] => {
+    const ids = config.airlineNotifiers[airlineId] ?? config.defaultNotifiers;
+
+    return ids.map(id => {
+        switch (id) {
+            case "slack":
+                if (!config.slack) break;
+                return createSlackNotifier(config.slack);
+            case "discord":
+                if (!config.discord) break;
+                return createDiscordNotifier(config.discord);
+            case "webhook":
+                if (!config.webhook) break;
+                return createWebhookNotifier(config.webhook);
+            case "email":
+                if (!config.email) break;
+                return createEmailNotifier(config.email);
+        }
+
+        throw new Error(`Notifier "${id}" is enabled for ${airlineId} but not configured`);
+    });
+};
+
+/**
+ * 運用者向けの通知先のNotifierを作成する。設定されていない場合はundefinedを返す
+ */
+export const createOpsNotifier = (config: Config): Notifier | undefined => {
+    if (!config.slack || !config.opsChannel) {
+        return undefined;
+    }
+
+    const notifier = createSlackNotifier(config.slack);
+    const opsChannel = config.opsChannel;
+
+    return {
+        ...notifier,
+        send: (message, options) => notifier.send(message, { ...options, channel: opsChannel }),
+    };
+};
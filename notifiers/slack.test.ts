@@ -0,0 +1,82 @@
+import { describe, expect, test } from "bun:test";
+import type { NotificationMessage } from "../notification";
+import { chunkLines, renderSlackMessage, renderSlackMessages } from "./slack";
+
+const createMessage = (regions: number, airportsPerRegion: number): NotificationMessage => ({
+    airline: "ANA",
+    title: "特別な取り扱いの一覧",
+    url: "https://example.com/ana",
+    mention: true,
+    changes: [],
+    sections: Array.from({ length: regions }, (_, region) => ({
+        heading: `本日対象 / 地域${region}`,
+        lines: Array.from({ length: airportsPerRegion }, (_, airport) => `空港${region}-${airport}: 9月1日～9月3日`),
+    })),
+    footer: "2025年9月1日 10:00",
+});
+
+const sectionTexts = (blocks: unknown[]): string[] =>
+    blocks.flatMap(block => {
+        const { type, text } = block as { type: string; text?: { text: string } };
+        return type === "section" && text ? [text.text] : [];
+    });
+
+describe("chunkLines", () => {
+    test("keeps each chunk within the limit and truncates long lines", () => {
+        const chunks = chunkLines(["a".repeat(6), "b".repeat(3), "c".repeat(20)], 10);
+
+        expect(chunks).toEqual([["aaaaaa", "bbb"], [`${"c".repeat(9)}…`]]);
+    });
+});
+
+describe("renderSlackMessages", () => {
+    test("renders a small message as a single message", () => {
+        const [page, ...rest] = renderSlackMessages(createMessage(2, 3));
+
+        expect(rest).toEqual([]);
+        // 見出し、地域ごとの見出しと空港、区切り線、取得日時
+        expect(page.blocks.map(block => block.type)).toEqual([
+            "section",
+            "section",
+            "section",
+            "section",
+            "section",
+            "divider",
+            "context",
+        ]);
+        expect(page.text).toContain("@channel");
+    });
+
+    test("splits long sections and paginates messages over the block limit", () => {
+        const pages = renderSlackMessages(createMessage(30, 200));
+
+        expect(pages.length).toBeGreaterThan(1);
+        for (const page of pages) {
+            expect(page.blocks.length).toBeLessThanOrEqual(50);
+            for (const text of sectionTexts(page.blocks)) {
+                expect(text.length).toBeLessThanOrEqual(3000);
+            }
+        }
+        // 取得日時は最後のメッセージのみ
+        expect(pages.map(page => page.blocks.some(block => block.type === "context"))).toEqual(
+            pages.map((_, index) => index === pages.length - 1),
+        );
+        expect(pages[1].text).toContain(`(2/${pages.length})`);
+
+        // 省略せずにすべての空港を表示する
+        const lines = pages.flatMap(page => sectionTexts(page.blocks)).flatMap(text => text.split("\n"));
+        expect(lines.filter(line => line.startsWith("空港"))).toHaveLength(30 * 200);
+    });
+
+    test("summarizes the airports that do not fit in the message", () => {
+        const message = createMessage(60, 1);
+        const page = renderSlackMessage(message);
+
+        expect(page.blocks.length).toBeLessThanOrEqual(50);
+        const texts = sectionTexts(page.blocks);
+        const shown = texts.filter(text => text.startsWith("空港")).length;
+        expect(texts).toContain(`…他${60 - shown}空港 / ${60 - shown} more airports: <https://example.com/ana|ANA>`);
+        // 見出しだけが残らない
+        expect(texts[texts.length - 2]).toStartWith("空港");
+    });
+});
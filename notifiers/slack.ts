@@ -0,0 +1,291 @@
+import { WebClient } from "@slack/web-api";
+import type { Block, KnownBlock } from "@slack/web-api";
+import type { SlackConfig } from "../config";
+import { logger } from "../logger";
+import type { NotificationMessage, NotificationThread, Notifier, SendOptions } from "../notification";
+
+export interface SlackMessage {
+    text: string;
+    blocks: (Block | KnownBlock)[];
+}
+
+export interface SlackPostOptions {
+    username: string;
+    icon: string;
+    token: string;
+    channel: string;
+    /** 指定された場合はこのメッセージのスレッドに返信する */
+    threadTs?: string;
+    /** スレッドへの返信をチャンネルにも表示する */
+    replyBroadcast?: boolean;
+}
+
+export interface SlackPostResult {
+    /** 投稿先のチャンネルID */
+    channel: string;
+    ts: string;
+}
+
+export interface SlackUpdateOptions {
+    token: string;
+    /** 更新するメッセージのチャンネルID */
+    channel: string;
+    ts: string;
+}
+
+const mrkdwnSection = (text: string): KnownBlock => ({
+    type: "section",
+    text: {
+        type: "mrkdwn",
+        text,
+    },
+});
+
+/**
+ * ユーザーID (U/W始まり) とユーザーグループID (S始まり) をSlackのメンション形式にする
+ */
+export const formatSlackMention = (id: string): string => (id.startsWith("S") ? `<!subteam^${id}>` : `<@${id}>`);
+
+// Slackのメッセージの制限
+const maxBlocks = 50;
+const maxTextLength = 3000;
+/** 1回の通知で投稿するメッセージの数の上限。超える分の空港は件数とページへのリンクのみ表示する */
+const defaultMaxPages = 5;
+
+const truncate = (text: string, maxLength: number): string =>
+    text.length <= maxLength ? text : `${text.slice(0, maxLength - 1)}…`;
+
+/**
+ * 行を結合した文字数がSlackの制限を超えないように分ける。1行で制限を超える場合は省略する
+ */
+export const chunkLines = (lines: string[], maxLength = maxTextLength): string[][] => {
+    const chunks: string[][] = [];
+    let current: string[] = [];
+    let length = 0;
+
+    for (const line of lines.map(line => truncate(line, maxLength))) {
+        // 改行の分も数える
+        if (current.length > 0 && length + 1 + line.length > maxLength) {
+            chunks.push(current);
+            current = [];
+            length = 0;
+        }
+        length += (current.length > 0 ? 1 : 0) + line.length;
+        current.push(line);
+    }
+
+    if (current.length > 0) {
+        chunks.push(current);
+    }
+    return chunks;
+};
+
+interface ContentBlock {
+    block: KnownBlock | Block;
+    /** 見出しはほかのブロックと同じメッセージに表示する */
+    heading: boolean;
+    /** 含まれる空港の数。省略した件数の表示に使う */
+    airports: number;
+}
+
+const sectionBlocks = (lines: string[], airports: boolean): ContentBlock[] =>
+    chunkLines(lines).map(chunk => ({
+        block: mrkdwnSection(chunk.join("\n")),
+        heading: false,
+        airports: airports ? chunk.length : 0,
+    }));
+
+/**
+ * メッセージをSlackのBlock Kit形式に変換する
+ *
+ * ブロックの数やテキストの長さがSlackの制限を超える場合は複数のメッセージに分ける。
+ * `maxPages` を超える分の空港は省略し、件数と運航情報ページへのリンクを表示する
+ */
+export const renderSlackMessages = (message: NotificationMessage, maxPages = defaultMaxPages): SlackMessage[] => {
+    const mentions = (message.mentions ?? []).map(formatSlackMention).join(" ");
+    const link = `<${message.url}|${message.airline}>`;
+    const headerText = truncate(
+        `*${message.title} / ${link}* ${message.mention ? " @channel" : ""}${mentions ? ` ${mentions}` : ""}\n`,
+        maxTextLength,
+    );
+    const content: ContentBlock[] = [];
+
+    // 前回からの変更点を先頭に表示
+    if (message.changes.length > 0) {
+        const changeLines = message.changes.flatMap(section =>
+            section.heading ? [`*${section.heading}*`, ...section.lines] : section.lines,
+        );
+        content.push(...sectionBlocks(changeLines, false));
+        content.push({ block: { type: "divider" }, heading: false, airports: 0 });
+    }
+
+    for (const section of message.sections) {
+        if (section.heading) {
+            content.push({
+                block: mrkdwnSection(truncate(`*${section.heading}*`, maxTextLength)),
+                heading: true,
+                airports: 0,
+            });
+        }
+
+        // 空港情報のリスト
+        content.push(...sectionBlocks(section.lines, section.heading !== undefined));
+    }
+
+    // 取得日時を追加
+    const footer: (Block | KnownBlock)[] = [
+        {
+            type: "divider",
+            block_id: "divider",
+        },
+        {
+            type: "context",
+            elements: [
+                {
+                    type: "mrkdwn",
+                    text: truncate(message.footer, maxTextLength),
+                },
+            ],
+        },
+    ];
+
+    // 各メッセージに見出しと取得日時の分を空けておく
+    const capacity = maxBlocks - 1 - footer.length;
+    const pages: ContentBlock[][] = [];
+    let rest = content;
+    while (rest.length > 0) {
+        let size = Math.min(capacity, rest.length);
+        // 見出しだけがメッセージの最後に残らないようにする
+        while (size > 1 && size < rest.length && rest[size - 1].heading) {
+            size--;
+        }
+        pages.push(rest.slice(0, size));
+        rest = rest.slice(size);
+    }
+
+    if (pages.length > maxPages) {
+        const kept = pages.slice(0, maxPages);
+        const last = kept[maxPages - 1];
+        // 省略の表示の分を空ける
+        const omitted = [...last.splice(capacity - 1), ...pages.slice(maxPages).flat()];
+        while (last.length > 0 && last[last.length - 1].heading) {
+            omitted.unshift(...last.splice(-1));
+        }
+        const count = omitted.reduce((sum, item) => sum + item.airports, 0);
+        last.push({
+            block: mrkdwnSection(`…他${count}空港 / ${count} more airports: ${link}`),
+            heading: false,
+            airports: 0,
+        });
+        pages.splice(0, pages.length, ...kept);
+    }
+
+    if (pages.length === 0) {
+        pages.push([]);
+    }
+
+    return pages.map((page, index) => {
+        const isLast = index === pages.length - 1;
+        const text = index === 0 ? headerText : `*${message.title} / ${link}* (${index + 1}/${pages.length})\n`;
+        return {
+            text,
+            blocks: [mrkdwnSection(text), ...page.map(item => item.block), ...(isLast ? footer : [])],
+        };
+    });
+};
+
+/**
+ * メッセージを1つのSlackのメッセージに変換する。収まらない空港は省略する
+ */
+export const renderSlackMessage = (message: NotificationMessage): SlackMessage => renderSlackMessages(message, 1)[0];
+
+export const postToSlack = async (message: SlackMessage, options: SlackPostOptions): Promise<SlackPostResult> => {
+    const slack = new WebClient(options.token);
+
+    const args = {
+        channel: options.channel,
+        text: message.text,
+        blocks: message.blocks,
+        mrkdwn: true,
+        username: options.username,
+        icon_emoji: options.icon,
+    };
+    const result = options.threadTs
+        ? await slack.chat.postMessage({
+              ...args,
+              thread_ts: options.threadTs,
+              reply_broadcast: options.replyBroadcast ?? false,
+          })
+        : await slack.chat.postMessage(args);
+
+    if (!result.ok || !result.channel || !result.ts) {
+        throw new Error(`Failed to post to Slack: ${result.error}`);
+    }
+
+    return {
+        channel: result.channel,
+        ts: result.ts,
+    };
+};
+
+export const updateSlackMessage = async (message: SlackMessage, options: SlackUpdateOptions): Promise<void> => {
+    const slack = new WebClient(options.token);
+
+    const result = await slack.chat.update({
+        channel: options.channel,
+        ts: options.ts,
+        text: message.text,
+        blocks: message.blocks,
+    });
+
+    if (!result.ok) {
+        throw new Error(`Failed to update Slack message: ${result.error}`);
+    }
+};
+
+export const createSlackNotifier = (config: SlackConfig): Notifier => {
+    const send = async (message: NotificationMessage, options: SendOptions): Promise<NotificationThread> => {
+        const [first, ...rest] = renderSlackMessages(message);
+        const result = await postToSlack(first, {
+            username: options.sender.username,
+            icon: options.sender.icon,
+            token: config.token,
+            channel: options.thread?.channel ?? options.channel ?? config.channel,
+            threadTs: options.thread?.id,
+            replyBroadcast: options.broadcast,
+        });
+
+        // 続きはスレッドに返信する。続きの投稿に失敗しても最初のメッセージは送信済みとする
+        for (const page of rest) {
+            try {
+                await postToSlack(page, {
+                    username: options.sender.username,
+                    icon: options.sender.icon,
+                    token: config.token,
+                    channel: result.channel,
+                    threadTs: options.thread?.id ?? result.ts,
+                });
+            } catch (error) {
+                logger.error("Failed to post the rest of the message to Slack", { error });
+                break;
+            }
+        }
+
+        return { channel: result.channel, id: result.ts };
+    };
+
+    const update = async (thread: NotificationThread, message: NotificationMessage): Promise<void> => {
+        await updateSlackMessage(renderSlackMessage(message), {
+            token: config.token,
+            channel: thread.channel ?? config.channel,
+            ts: thread.id,
+        });
+    };
+
+    return {
+        id: "slack",
+        supportsChannels: true,
+        send,
+        update,
+    };
+};
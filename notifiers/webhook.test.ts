@@ -0,0 +1,74 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, setSystemTime, test } from "bun:test";
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+import { type NotificationMessage, renderPlainText } from "../notification";
+import { createWebhookNotifier } from "./webhook";
+
+const message: NotificationMessage = {
+    airline: "ANA",
+    title: "特別な取り扱いの一覧",
+    url: "https://example.com/ana",
+    mention: true,
+    mentions: ["U0123456789"],
+    changes: [{ heading: "🆕 追加", lines: ["沖縄(那覇): 2月5日"] }],
+    sections: [{ heading: "本日対象 / 沖縄", lines: ["沖縄(那覇): 2月5日"] }],
+    footer: "2025年2月5日 10:00",
+};
+
+const sender = { username: "ANA運航情報", icon: ":ana:" };
+
+describe("createWebhookNotifier", () => {
+    const bodies: unknown[] = [];
+    let status = 204;
+
+    const server = http.createServer((request, response) => {
+        let body = "";
+        request.on("data", chunk => {
+            body += chunk;
+        });
+        request.on("end", () => {
+            bodies.push(JSON.parse(body));
+            response.writeHead(status).end();
+        });
+    });
+
+    let url = "";
+
+    beforeAll(async () => {
+        setSystemTime(new Date("2025-02-05T10:00:00+09:00"));
+        await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+    });
+
+    afterAll(() => {
+        setSystemTime();
+        server.close();
+    });
+
+    beforeEach(() => {
+        bodies.length = 0;
+        status = 204;
+    });
+
+    test("posts the message with the plain text and the send time", async () => {
+        const result = await createWebhookNotifier({ url }).send(message, { sender });
+
+        // 返信や更新には対応しない
+        expect(result).toBeUndefined();
+        expect(bodies).toEqual([{ ...message, text: renderPlainText(message), sentAt: "2025-02-05T01:00:00.000Z" }]);
+    });
+
+    test("includes the ID of the first message in follow-ups", async () => {
+        await createWebhookNotifier({ url }).send(message, { sender, thread: { id: "first" } });
+
+        expect(bodies).toEqual([expect.objectContaining({ thread: "first" })]);
+    });
+
+    test("throws when the endpoint fails", async () => {
+        status = 500;
+
+        await expect(createWebhookNotifier({ url }).send(message, { sender })).rejects.toThrow(
+            "Failed to post to webhook: 500",
+        );
+    });
+});
@@ -0,0 +1,39 @@
+import type { WebhookConfig } from "../config";
+import { type NotificationMessage, type Notifier, type SendOptions, renderPlainText } from "../notification";
+
+export interface WebhookPayload extends NotificationMessage {
+    /** 続報の場合は最初に送信したメッセージのID */
+    thread?: string;
+    /** プレーンテキストで表示したメッセージ */
+    text: string;
+    sentAt: string;
+}
+
+export const createWebhookNotifier = (config: WebhookConfig): Notifier => {
+    const send = async (message: NotificationMessage, options: SendOptions): Promise<undefined> => {
+        const payload: WebhookPayload = {
+            ...message,
+            ...(options.thread ? { thread: options.thread.id } : {}),
+            text: renderPlainText(message),
+            sentAt: new Date().toISOString(),
+        };
+
+        const response = await fetch(config.url, {
+            method: "POST",
+            headers: { "content-type": "application/json" },
+            body: JSON.stringify(payload),
+        });
+
+        if (!response.ok) {
+            throw new Error(`Failed to post to webhook: ${response.status} ${response.statusText}`);
+        }
+
+        return undefined;
+    };
+
+    return {
+        id: "webhook",
+        supportsChannels: false,
+        send,
+    };
+};
@@ -0,0 +1,69 @@
+import type { CheerioAPI } from "cheerio";
+import { hashContent } from "./hash";
+import type { AirlineProvider } from "./provider";
+import type { BaseFlightInfo } from "./state_manager";
+
+export interface PageInspection {
+    /** 解析結果が信用できないと判断した理由。問題がない場合は空 */
+    issues: string[];
+    /** ページの構造から求めたハッシュ。文言や行数が変わっても変化しない */
+    fingerprint: string;
+}
+
+/**
+ * 通常運航時のページと特別な取り扱いがある場合のページは構造が異なるため、構造のハッシュは別々に保存する
+ */
+export type PageMode = "normal" | "irregular";
+
+/**
+ * 選択した要素のタグ名とクラスのみから構造のハッシュを求める
+ *
+ * 同じ構造の兄弟要素は1つにまとめるため、空港の行数が変わってもハッシュは変わらない
+ */
+export const fingerprintStructure = ($: CheerioAPI, selector: string): string => {
+    const describe = (selection: ReturnType<CheerioAPI>): string => {
+        const tagName = String(selection.prop("tagName") ?? "").toLowerCase();
+        const classNames = (selection.attr("class") ?? "").split(/\s+/).filter(Boolean).sort();
+        const children = [
+            ...new Set(
+                selection
+                    .children()
+                    .toArray()
+                    .map(child => describe($(child))),
+            ),
+        ];
+
+        return `${[tagName, ...classNames].join(".")}(${children.join(",")})`;
+    };
+
+    const structure = $(selector)
+        .toArray()
+        .map(element => describe($(element)));
+
+    return hashContent([...new Set(structure)].join("\n"));
+};
+
+/**
+ * 航空会社ごとの検査に加えて、解析結果と矛盾する状態がないかを確認する
+ */
+export const inspectProviderPage = <T extends BaseFlightInfo>(
+    provider: AirlineProvider<T>,
+    html: string,
+    hasIrregularFlights: boolean,
+    flightInfos: T[],
+): PageInspection => {
+    const inspection = provider.inspectPage(html);
+
+    // 通常運航のメッセージがないのに空港を読み取れない場合は、ページの構造が変わった可能性が高い
+    if (hasIrregularFlights && flightInfos.length === 0) {
+        return {
+            ...inspection,
+            issues: [
+                "通常運航のメッセージがないにもかかわらず、対象の空港を読み取れませんでした",
+                ...inspection.issues,
+            ],
+        };
+    }
+
+    return inspection;
+};
@@ -0,0 +1,49 @@
+import { afterAll, beforeAll, describe, expect, setSystemTime, test } from "bun:test";
+import * as fs from "node:fs";
+import { createPeachService } from "./peach";
+
+const irregularHTML = fs.readFileSync("fixtures/peach/irregular.html", "utf-8");
+
+describe("Peach", () => {
+    const peach = createPeachService();
+
+    beforeAll(() => {
+        setSystemTime(new Date("2025-02-05T10:00:00+09:00"));
+    });
+
+    afterAll(() => {
+        setSystemTime();
+    });
+
+    test("inspectPage", () => {
+        expect(peach.inspectPage(irregularHTML.replace("福岡：2月6日", "福岡 2月6日")).issues).toEqual([
+            "空港名と対象日を区切れない項目があります (1件)",
+        ]);
+    });
+
+    test("parseIrregularFlights", () => {
+        const flightInfos = peach.parseIrregularFlights(irregularHTML);
+
+        expect(flightInfos.map(info => info.region)).toEqual(["関西", "九州・沖縄"]);
+        expect(flightInfos[0].airports).toEqual([
+            {
+                name: "大阪(関西)",
+                period: "2月5日～2月6日",
+                range: { start: "2025-02-05", end: "2025-02-06" },
+                resolved: { iata: "KIX", icao: "RJBB", nameJa: "関西", nameEn: "Kansai" },
+            },
+        ]);
+        expect(flightInfos[1].airports.map(airport => airport.resolved?.iata)).toEqual(["FUK", "OKA", "ISG"]);
+    });
+
+    test("formatMessage hides expired airports", () => {
+        const flightInfos = peach.parseIrregularFlights(irregularHTML);
+        const message = peach.formatMessage(flightInfos, peach.getUpdateTime(irregularHTML));
+
+        expect(message.airline).toBe("Peach");
+        expect(message.sections).toEqual([
+            { heading: "本日対象 / 関西", lines: ["大阪(関西): 2月5日～2月6日"] },
+            { heading: "今後 / 九州・沖縄", lines: ["福岡: 2月6日", "沖縄(那覇): 2月8日～2月9日"] },
+        ]);
+    });
+});
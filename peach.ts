@@ -0,0 +1,68 @@
+import type { AirlineProvider } from "./provider";
+import { type SpecialHandlingFlightInfo, createSpecialHandlingProvider } from "./special_handling";
+import type { BaseAirportInfo } from "./state_manager";
+
+const PEACH_URL = "https://www.flypeach.com/jp/ja-jp/special_handling";
+
+export interface PeachAirportInfo extends BaseAirportInfo {
+    name: string;
+    period: string;
+}
+
+export type PeachFlightInfo = SpecialHandlingFlightInfo<PeachAirportInfo>;
+
+export type PeachService = AirlineProvider<PeachFlightInfo>;
+
+// 「大阪(関西)：2月5日～2月6日」のように空港名と対象日を区切る
+const separatorPattern = /[：:]/;
+
+export const createPeachService = (): PeachService =>
+    createSpecialHandlingProvider<PeachAirportInfo>({
+        id: "peach",
+        name: "Peach",
+        url: PEACH_URL,
+        defaultIcon: ":peach:",
+        defaultUsername: "Peach運航情報",
+        messages: {
+            ja: {
+                title: "特別対応の対象空港",
+                normalMessage: "現在、特別対応の対象となる空港はありません。",
+            },
+            en: {
+                title: "Airports subject to special handling",
+                normalMessage: "There are currently no airports subject to special handling.",
+            },
+        },
+        updateTimeSelector: "time.update",
+        structureSelector: ".special-handling",
+        readAirports: $ =>
+            $(".special-handling")
+                .toArray()
+                .flatMap(section => {
+                    const region = $(section).find("h3").first().text().trim();
+                    return $(section)
+                        .find("ul li")
+                        .toArray()
+                        .flatMap(item => {
+                            const text = $(item).text().trim().replace(/\s+/g, " ");
+                            const match = text.match(separatorPattern);
+                            if (!match || match.index === undefined) {
+                                return [];
+                            }
+
+                            const name = text.slice(0, match.index).trim();
+                            const period = text.slice(match.index + 1).trim();
+                            return name && period ? [{ region, airport: { name, period } }] : [];
+                        });
+                }),
+        // 空港名と対象日を区切れない項目は読み取れない
+        findIssues: $ => {
+            const unreadable = $(".special-handling ul li")
+                .toArray()
+                .filter(item => !separatorPattern.test($(item).text()));
+            return unreadable.length > 0 ? [`空港名と対象日を区切れない項目があります (${unreadable.length}件)`] : [];
+        },
+        dateText: airport => airport.period,
+        summarize: airport => airport.period,
+        describeAirport: airport => [["対象日", airport.period]],
+    });
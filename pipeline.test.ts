@@ -0,0 +1,496 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, mock, setSystemTime, spyOn, test } from "bun:test";
+import * as fs from "node:fs";
+import { type AnaFlightInfo, createAnaService } from "./ana";
+import type { Config } from "./config";
+import { collectStateMetrics, createMetricsRegistry, metrics } from "./metrics";
+import type { NotificationMessage, Notifier, SendOptions } from "./notification";
+import { type BaseState, CorruptStateError } from "./state_manager";
+
+const irregularHTML = fs.readFileSync("fixtures/ana/irregular.html", "utf-8");
+const normalHTML = fs.readFileSync("fixtures/ana/normal.html", "utf-8");
+const brokenHTML = fs.readFileSync("fixtures/ana/broken.html", "utf-8");
+const englishHTML = fs.readFileSync("fixtures/ana/irregular_en.html", "utf-8");
+
+const config: Config = {
+    userAgent: "test",
+    defaultNotifiers: ["slack"],
+    airlineNotifiers: {},
+    languages: {},
+    mentionPolicy: {},
+    archive: false,
+    feeds: false,
+    updateParent: false,
+    senders: {},
+    schedule: {},
+    fetch: { timeout: 30000, retries: 2 },
+};
+
+const sent: { message: NotificationMessage; options: SendOptions }[] = [];
+const opsAlerts: NotificationMessage[] = [];
+let nextId = 1;
+
+const notifier: Notifier = {
+    id: "slack",
+    supportsChannels: true,
+    send: async (message, options) => {
+        sent.push({ message, options });
+        return { channel: "C1", id: String(nextId++) };
+    },
+};
+
+const opsNotifier: Notifier = {
+    id: "slack",
+    supportsChannels: true,
+    send: async message => {
+        opsAlerts.push(message);
+        return undefined;
+    },
+};
+
+mock.module("./config", () => ({ getConfig: () => config }));
+mock.module("./notifiers", () => ({ createNotifiers: () => [notifier], createOpsNotifier: () => opsNotifier }));
+
+const { previewProvider, runProvider } = await import("./pipeline");
+
+const createProvider = (html: string, initialState: BaseState<AnaFlightInfo> | null) => {
+    let state = initialState;
+    const provider = {
+        ...createAnaService(),
+        fetchFlightInfo: async () => html,
+        loadState: async () => state,
+        saveState: async (newState: BaseState<AnaFlightInfo>) => {
+            state = newState;
+        },
+        withLock: <R>(fn: () => Promise<R>) => fn(),
+    };
+
+    return { provider, getState: () => state };
+};
+
+/** 実行中に出力したログとともに結果を返す */
+const captureLogs = async <R>(fn: () => Promise<R>): Promise<{ result: R; logs: string }> => {
+    const stdout = spyOn(process.stdout, "write").mockImplementation(() => true);
+    const stderr = spyOn(process.stderr, "write").mockImplementation(() => true);
+    try {
+        const result = await fn();
+        const logs = [...stdout.mock.calls, ...stderr.mock.calls].map(([line]) => String(line)).join("");
+        return { result, logs };
+    } finally {
+        stdout.mockRestore();
+        stderr.mockRestore();
+    }
+};
+
+describe("runProvider", () => {
+    beforeAll(() => {
+        setSystemTime(new Date("2025-02-05T10:00:00+09:00"));
+    });
+
+    afterAll(() => {
+        setSystemTime();
+    });
+
+    beforeEach(() => {
+        config.languages = {};
+        config.mentionPolicy = {};
+        config.routing = undefined;
+        sent.length = 0;
+        opsAlerts.length = 0;
+        nextId = 1;
+    });
+
+    test("does not notify when normal and no previous state exists", async () => {
+        const { provider, getState } = createProvider(normalHTML, null);
+        await runProvider(provider);
+
+        expect(sent).toHaveLength(0);
+        expect(getState()?.flightInfos).toEqual([]);
+    });
+
+    test("posts a new message with mention when irregular flights start", async () => {
+        const { provider, getState } = createProvider(irregularHTML, { lastCheck: "", flightInfos: [] });
+        await runProvider(provider);
+
+        expect(sent).toHaveLength(1);
+        expect(sent[0].message.mention).toBe(true);
+        expect(sent[0].options.thread).toBeUndefined();
+        // 期間が終了した石垣は保存しない
+        expect(getState()?.flightInfos.flatMap(info => info.airports.map(airport => airport.name))).toEqual([
+            "札幌(新千歳)",
+            "旭川",
+            "沖縄(那覇)",
+        ]);
+        expect(getState()?.threads).toEqual({ slack: { channel: "C1", id: "1" } });
+    });
+
+    test("does not notify when nothing changed", async () => {
+        const first = createProvider(irregularHTML, null);
+        await runProvider(first.provider);
+        sent.length = 0;
+
+        const { provider } = createProvider(irregularHTML, {
+            ...(first.getState() as BaseState<AnaFlightInfo>),
+            pageHash: undefined,
+        });
+        await runProvider(provider);
+
+        expect(sent).toHaveLength(0);
+    });
+
+    test("skips parsing when the page is unchanged", async () => {
+        const first = createProvider(irregularHTML, null);
+        await runProvider(first.provider);
+        const previous = first.getState() as BaseState<AnaFlightInfo>;
+        sent.length = 0;
+
+        // 状態が異なっていてもページが同じ場合は解析しない
+        const { provider, getState } = createProvider(irregularHTML, { ...previous, flightInfos: [] });
+        await runProvider(provider);
+
+        expect(sent).toHaveLength(0);
+        expect(getState()?.flightInfos).toEqual([]);
+        expect(getState()?.lastFetch?.ok).toBe(true);
+
+        // --forceオプションが指定された場合は解析する
+        await runProvider(provider, { force: true });
+        expect(sent).toHaveLength(1);
+    });
+
+    test("replies to the thread without mention when flights change", async () => {
+        const first = createProvider(irregularHTML, null);
+        await runProvider(first.provider);
+        const previous = first.getState() as BaseState<AnaFlightInfo>;
+        sent.length = 0;
+
+        // 前回は新千歳のみ
+        const { provider, getState } = createProvider(irregularHTML, {
+            ...previous,
+            pageHash: undefined,
+            flightInfos: previous.flightInfos
+                .slice(0, 1)
+                .map(info => ({ ...info, airports: info.airports.slice(0, 1) })),
+        });
+        await runProvider(provider);
+
+        expect(sent).toHaveLength(1);
+        expect(sent[0].message.mention).toBe(false);
+        expect(sent[0].options.thread).toEqual({ channel: "C1", id: "1" });
+        expect(sent[0].message.changes.map(section => section.heading)).toEqual(["🆕 追加"]);
+        expect(getState()?.threads).toEqual({ slack: { channel: "C1", id: "1" } });
+    });
+
+    test("posts the normal operation message to the thread when flights end", async () => {
+        const first = createProvider(irregularHTML, null);
+        await runProvider(first.provider);
+        sent.length = 0;
+
+        const { provider, getState } = createProvider(normalHTML, first.getState());
+        await runProvider(provider);
+
+        expect(sent).toHaveLength(1);
+        expect(sent[0].options.thread).toEqual({ channel: "C1", id: "1" });
+        expect(sent[0].options.broadcast).toBe(true);
+        expect(sent[0].message.changes.map(section => section.heading)).toEqual(["✅ 解除"]);
+        expect(getState()).toMatchObject({ flightInfos: [] });
+        expect(getState()?.threads).toBeUndefined();
+    });
+
+    test("does not notify when normal and previous state was also empty", async () => {
+        const { provider } = createProvider(normalHTML, { lastCheck: "", flightInfos: [] });
+        await runProvider(provider);
+
+        expect(sent).toHaveLength(0);
+    });
+
+    test("posts the normal operation message when forced", async () => {
+        const { provider } = createProvider(normalHTML, null);
+        await runProvider(provider, { force: true });
+
+        expect(sent).toHaveLength(1);
+        expect(sent[0].message.mention).toBe(false);
+    });
+
+    test("records the last success only when the whole check completes", async () => {
+        metrics.reset();
+        const broken = createProvider(brokenHTML, null);
+        await expect(runProvider(broken.provider)).rejects.toThrow("Page structure of ANA looks broken");
+
+        // 取得には成功しても確認が失敗した場合は記録しない
+        expect(metrics.render()).not.toContain("last_success_timestamp_seconds");
+        expect(metrics.render()).toContain('checks_total{airline="ana",result="failure"} 1');
+
+        await runProvider(createProvider(irregularHTML, null).provider);
+        expect(metrics.render()).toContain(
+            `last_success_timestamp_seconds{airline="ana"} ${Date.parse("2025-02-05T01:00:00.000Z") / 1000}`,
+        );
+    });
+
+    test("logs a failed post as a warning instead of a success", async () => {
+        spyOn(notifier, "send").mockImplementationOnce(async () => {
+            throw new Error("Slack is down");
+        });
+
+        const { result: error, logs } = await captureLogs(() =>
+            runProvider(createProvider(irregularHTML, null).provider).catch(error => error),
+        );
+
+        expect(String(error)).toContain("Failed to send notifications for ANA");
+        expect(logs).toContain('Failed to post irregular flight information notifiers=["slack"]');
+        expect(logs).not.toContain("Posted irregular flight information");
+    });
+
+    test("keeps the last success in the state while the page looks broken", async () => {
+        const { provider, getState } = createProvider(irregularHTML, null);
+        await runProvider(provider);
+        expect(getState()?.lastSuccess).toBe("2025-02-05T01:00:00.000Z");
+
+        setSystemTime(new Date("2025-02-05T11:00:00+09:00"));
+        const broken = createProvider(brokenHTML, getState());
+        await expect(runProvider(broken.provider)).rejects.toThrow("Page structure of ANA looks broken");
+        setSystemTime(new Date("2025-02-05T10:00:00+09:00"));
+
+        expect(broken.getState()?.lastCheck).toBe("2025-02-05T02:00:00.000Z");
+        expect(broken.getState()?.lastSuccess).toBe("2025-02-05T01:00:00.000Z");
+        const registry = createMetricsRegistry();
+        await collectStateMetrics([broken.provider], registry);
+        expect(registry.render()).toContain(
+            `last_success_timestamp_seconds{airline="ana"} ${Date.parse("2025-02-05T01:00:00.000Z") / 1000}`,
+        );
+    });
+
+    test("alerts the ops channel instead of notifying when the page looks broken", async () => {
+        const first = createProvider(irregularHTML, null);
+        await runProvider(first.provider);
+        const previous = first.getState() as BaseState<AnaFlightInfo>;
+        sent.length = 0;
+
+        const { provider, getState } = createProvider(brokenHTML, previous);
+        await expect(runProvider(provider)).rejects.toThrow("Page structure of ANA looks broken");
+
+        expect(sent).toHaveLength(0);
+        expect(opsAlerts).toHaveLength(1);
+        expect(opsAlerts[0].sections[0].lines).toContain("想定外の列数の行があります (3列)");
+        // 前回の状態は変えずに問題のみを保存する
+        expect(getState()?.flightInfos).toEqual(previous.flightInfos);
+        expect(getState()?.threads).toEqual(previous.threads);
+
+        // 同じ問題は繰り返し通知しない
+        await expect(runProvider(provider)).rejects.toThrow();
+        expect(opsAlerts).toHaveLength(1);
+
+        // 解消した場合は運用者に通知し、変更がなければ利用者には通知しない
+        const recovered = createProvider(irregularHTML, getState());
+        await runProvider(recovered.provider);
+        expect(opsAlerts.map(alert => alert.title)).toEqual([
+            "ページの構造の異常を検知しました",
+            "ページの構造の異常が解消しました",
+        ]);
+        expect(sent).toHaveLength(0);
+        expect(recovered.getState()?.pageIssues).toBeUndefined();
+    });
+
+    test("alerts the ops channel when the page structure changes", async () => {
+        const first = createProvider(irregularHTML, null);
+        await runProvider(first.provider);
+        expect(first.getState()?.pageFingerprints?.irregular).toBeDefined();
+
+        const { provider } = createProvider(irregularHTML, {
+            ...(first.getState() as BaseState<AnaFlightInfo>),
+            pageHash: undefined,
+            pageFingerprints: { irregular: "previous" },
+        });
+        await runProvider(provider);
+
+        expect(opsAlerts.map(alert => alert.title)).toEqual(["ページの構造の変化を検知しました"]);
+    });
+
+    test("records a failed fetch without changing the previous state", async () => {
+        const first = createProvider(irregularHTML, null);
+        await runProvider(first.provider);
+        const previous = first.getState() as BaseState<AnaFlightInfo>;
+
+        const { provider, getState } = createProvider(irregularHTML, previous);
+        provider.fetchFlightInfo = async () => {
+            throw new Error("timeout");
+        };
+        await expect(runProvider(provider)).rejects.toThrow("timeout");
+
+        expect(getState()?.flightInfos).toEqual(previous.flightInfos);
+        expect(getState()?.lastFetch).toMatchObject({ ok: false, error: "Error: timeout" });
+    });
+
+    test("reports the fetch error even when the state cannot be loaded", async () => {
+        const { provider } = createProvider(irregularHTML, null);
+        provider.fetchFlightInfo = async () => {
+            throw new Error("timeout");
+        };
+        provider.loadState = async () => {
+            throw new CorruptStateError("state/ana.json", "state/ana.json.corrupt", "invalid JSON");
+        };
+
+        await expect(runProvider(provider)).rejects.toThrow("timeout");
+    });
+
+    test("sends Japanese and English in one message when configured", async () => {
+        config.languages = { slack: "both" };
+        const { provider } = createProvider(irregularHTML, { lastCheck: "", flightInfos: [] });
+        provider.fetchFlightInfo = async (locale = "ja") => (locale === "en" ? englishHTML : irregularHTML);
+        await runProvider(provider);
+
+        expect(sent).toHaveLength(1);
+        expect(sent[0].message.title).toBe("特別な取り扱いの一覧 / Special handling");
+        expect(sent[0].message.sections.map(section => section.heading)).toEqual([
+            "本日対象 / 北海道",
+            "今後 / 北海道",
+            "今後 / 沖縄",
+            "Today / Hokkaido",
+            "Upcoming / Hokkaido",
+            "Upcoming / Okinawa",
+        ]);
+        expect(sent[0].message.sections[3].lines).toEqual(["Sapporo (New Chitose): Feb. 5 - Feb. 7"]);
+        expect(sent[0].message.footer).toBe("2025年2月5日 10:00更新 / Updated: Feb. 5, 2025 10:00");
+    });
+
+    test("falls back to dictionary names when the English page cannot be fetched", async () => {
+        config.languages = { slack: "en" };
+        const { provider, getState } = createProvider(irregularHTML, { lastCheck: "", flightInfos: [] });
+        provider.fetchFlightInfo = async (locale = "ja") => {
+            if (locale === "en") {
+                throw new Error("timeout");
+            }
+            return irregularHTML;
+        };
+        await runProvider(provider);
+
+        expect(sent).toHaveLength(1);
+        expect(sent[0].message.sections[0]).toEqual({
+            heading: "Today / 北海道",
+            lines: ["New Chitose: 2月5日～2月7日"],
+        });
+        // 英語版の取得に失敗しても日本語版の解析結果は保存する
+        expect(getState()?.lastFetch?.ok).toBe(true);
+    });
+
+    test("notifies each route and keeps a thread per route", async () => {
+        config.routing = {
+            rules: [{ name: "okinawa", regions: ["沖縄"], channel: "#okinawa", mentions: ["U0123456789"] }],
+            unmatched: "default",
+        };
+        const { provider, getState } = createProvider(irregularHTML, { lastCheck: "", flightInfos: [] });
+        await runProvider(provider);
+
+        expect(sent.map(({ message, options }) => [options.channel, message.mention, message.mentions])).toEqual([
+            ["#okinawa", false, ["U0123456789"]],
+            [undefined, true, undefined],
+        ]);
+        expect(sent[0].message.sections.flatMap(section => section.lines)).toEqual([
+            expect.stringContaining("沖縄(那覇)"),
+        ]);
+        expect(getState()?.threads).toEqual({
+            "okinawa/slack": { channel: "C1", id: "1" },
+            slack: { channel: "C1", id: "2" },
+        });
+    });
+
+    test("mentions only when the escalation threshold is reached", async () => {
+        config.mentionPolicy = { escalation: { minAirports: 4 }, mentions: ["S0123456789"] };
+        const { provider, getState } = createProvider(irregularHTML, { lastCheck: "", flightInfos: [] });
+        await runProvider(provider);
+
+        // 3空港のため全員にはメンションせず、指定したグループのみメンションする
+        expect(sent[0].message.mention).toBe(false);
+        expect(sent[0].message.mentions).toEqual(["S0123456789"]);
+
+        // 続報で拠点の空港が対象になった場合は全員にメンションする
+        config.mentionPolicy = { escalation: { minAirports: 4, hubs: ["OKA"] } };
+        const previous = getState() as BaseState<AnaFlightInfo>;
+        const next = createProvider(irregularHTML, {
+            ...previous,
+            pageHash: undefined,
+            flightInfos: previous.flightInfos.slice(0, 1),
+        });
+        await runProvider(next.provider);
+
+        expect(sent[1].options.thread).toEqual({ channel: "C1", id: "1" });
+        expect(sent[1].message.mention).toBe(true);
+    });
+
+    test("defers the mention until quiet hours end", async () => {
+        // テストの時刻 (10:00) を含む時間帯
+        config.mentionPolicy = { quietHours: { start: "09:00", end: "11:00", mode: "defer" } };
+        const { provider, getState } = createProvider(irregularHTML, { lastCheck: "", flightInfos: [] });
+        await runProvider(provider);
+
+        expect(sent[0].message.mention).toBe(false);
+        expect(getState()?.deferredMentions).toEqual(["default"]);
+
+        // 時間帯が終わった後は変更がなくても先送りしたメンションをスレッドに送信する
+        config.mentionPolicy = { quietHours: { start: "22:00", end: "07:00", mode: "defer" } };
+        const next = createProvider(irregularHTML, getState());
+        await runProvider(next.provider);
+
+        expect(sent).toHaveLength(2);
+        expect(sent[1].message.mention).toBe(true);
+        expect(sent[1].options).toMatchObject({ thread: { channel: "C1", id: "1" }, broadcast: true });
+        expect(next.getState()?.deferredMentions).toBeUndefined();
+    });
+
+    test("drops the mention during quiet hours in suppress mode", async () => {
+        config.mentionPolicy = { quietHours: { start: "09:00", end: "11:00", mode: "suppress" } };
+        const { provider, getState } = createProvider(irregularHTML, { lastCheck: "", flightInfos: [] });
+        await runProvider(provider);
+
+        expect(sent[0].message.mention).toBe(false);
+        expect(getState()?.deferredMentions).toBeUndefined();
+    });
+});
+
+describe("previewProvider", () => {
+    beforeAll(() => {
+        setSystemTime(new Date("2025-02-05T10:00:00+09:00"));
+    });
+
+    afterAll(() => {
+        setSystemTime();
+    });
+
+    beforeEach(() => {
+        config.languages = {};
+        config.mentionPolicy = {};
+        sent.length = 0;
+        nextId = 1;
+    });
+
+    test("renders the messages and the next state without sending or saving", async () => {
+        const initialState = { lastCheck: "", flightInfos: [] };
+        const { provider, getState } = createProvider(irregularHTML, initialState);
+        const { result: preview, logs } = await captureLogs(() => previewProvider(provider));
+
+        expect(logs).toContain("Rendered irregular flight information (dry run)");
+        expect(logs).not.toContain("Posted");
+        expect(sent).toHaveLength(0);
+        expect(getState()).toBe(initialState);
+        expect(preview.deliveries).toHaveLength(1);
+        expect(preview.deliveries[0]).toMatchObject({ target: "slack", language: "ja", action: "post" });
+        expect(preview.deliveries[0].slack[0].blocks.length).toBeGreaterThan(0);
+        expect(preview.deliveries[0].text).toContain("札幌(新千歳)");
+        expect(preview.diff.added.map(entry => entry.airport.name)).toEqual(["札幌(新千歳)", "旭川", "沖縄(那覇)"]);
+        // 送信しないため、新しいスレッドは保存されない
+        expect(preview.nextState?.threads).toBeUndefined();
+    });
+
+    test("shows follow-ups as replies to the ongoing thread", async () => {
+        const first = createProvider(irregularHTML, null);
+        await runProvider(first.provider);
+        const previous = first.getState() as BaseState<AnaFlightInfo>;
+        sent.length = 0;
+
+        const { provider } = createProvider(normalHTML, previous);
+        const preview = await previewProvider(provider, { updateParent: true });
+
+        expect(sent).toHaveLength(0);
+        expect(preview.deliveries.map(delivery => delivery.action)).toEqual(["reply"]);
+        expect(preview.previousState).toBe(previous);
+        expect(preview.diff.removed).toHaveLength(3);
+    });
+});
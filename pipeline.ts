@@ -0,0 +1,813 @@
+import { findUnknownAirportNames } from "./airports";
+import { createSnapshotArchive } from "./archive";
+import { getConfig, getObservabilityConfig } from "./config";
+import { excludeExpired, todayInTokyo } from "./date_range";
+import { type AirportInfoOf, type FlightInfoDiff, diffFlightInfos, isEmptyDiff } from "./diff";
+import { buildFeedEntry, createFeedStore, writeFeeds } from "./feed";
+import { hashContent } from "./hash";
+import { type Locale, type MessageLanguage, combineMessages, localizeDiff, localizeFlightInfos } from "./locale";
+import { createRunId, logger, withRunContext } from "./logger";
+import { type Mention, decideMention, hasMention, isNewlyEscalated, isQuietTime, noMention } from "./mention_policy";
+import { metrics, writeMetricsFile } from "./metrics";
+import {
+    type NotificationMessage,
+    type NotificationSender,
+    type NotificationThread,
+    type Notifier,
+    renderPlainText,
+} from "./notification";
+import { createNotifiers, createOpsNotifier } from "./notifiers";
+import { type SlackMessage, renderSlackMessage, renderSlackMessages } from "./notifiers/slack";
+import { type PageMode, inspectProviderPage } from "./page_check";
+import type { AirlineProvider } from "./provider";
+import { getProviders } from "./providers";
+import {
+    type Route,
+    type RoutingConfig,
+    allAirportsRoute,
+    buildRoutes,
+    defaultRouteKey,
+    filterFlightInfos,
+} from "./routing";
+import type { BaseFlightInfo, BaseState } from "./state_manager";
+
+export interface RunOptions {
+    icon?: string;
+    username?: string;
+    force?: boolean;
+    /** 続報をスレッドに返信する際に、親メッセージも最新の内容に更新する */
+    updateParent?: boolean;
+    /** 取得したHTMLと解析結果をスナップショットとして保存する。省略した場合は設定に従う */
+    archive?: boolean;
+    /** 通知や状態の保存をせずに、送信するメッセージと状態の変化を表示する */
+    dryRun?: boolean;
+}
+
+/**
+ * 通知先に送信する予定のメッセージ
+ */
+export interface PreviewDelivery {
+    /** 状態に保存する際の通知先のキー (例: "slack"、"kyushu/slack") */
+    target: string;
+    channel?: string;
+    language: MessageLanguage | "ops";
+    /** 新しいメッセージ、スレッドへの返信、最初のメッセージの更新 */
+    action: "post" | "reply" | "update";
+    message: NotificationMessage;
+    /** 2つ目以降のメッセージは最初のメッセージのスレッドに返信する。更新は1つのメッセージに収める */
+    slack: SlackMessage[];
+    text: string;
+}
+
+/**
+ * 通知や保存をせずに実行した結果
+ */
+export interface RunPreview<T extends BaseFlightInfo> {
+    airline: string;
+    deliveries: PreviewDelivery[];
+    previousState: BaseState<T> | null;
+    /** 保存する状態。状態を保存せずに終了する場合はnull */
+    nextState: BaseState<T> | null;
+    /** 保存されている解析結果から保存する解析結果への変化 */
+    diff: FlightInfoDiff<AirportInfoOf<T>>;
+}
+
+type Threads = Record<string, NotificationThread>;
+
+interface RouteTarget {
+    route: Route;
+    notifiers: Notifier[];
+}
+
+/**
+ * スレッドを保存する際のキー。既定の通知先は通知先のIDのみを使う
+ */
+const threadKey = (route: Route, notifier: Notifier): string =>
+    route.key === defaultRouteKey ? notifier.id : `${route.key}/${notifier.id}`;
+
+/**
+ * 通知先ごとに送信する空港の範囲を決める
+ *
+ * ルーティングはチャンネルを指定できる通知先のみに適用し、それ以外の通知先にはすべての空港を送信する
+ */
+const buildRouteTargets = (
+    routing: RoutingConfig | undefined,
+    airlineId: string,
+    notifiers: Notifier[],
+): RouteTarget[] => {
+    if (!routing) {
+        return [{ route: allAirportsRoute, notifiers }];
+    }
+
+    const routable = notifiers.filter(notifier => notifier.supportsChannels);
+    const others = notifiers.filter(notifier => !notifier.supportsChannels);
+
+    return [
+        ...buildRoutes(routing, airlineId).map(route => ({ route, notifiers: routable })),
+        { route: allAirportsRoute, notifiers: others },
+    ].filter(target => target.notifiers.length > 0);
+};
+
+/**
+ * 通知先のメッセージの言語。ルーティングのルールで指定された言語、通知先ごとの設定、日本語の順に使う
+ */
+const getLanguage = (
+    route: Route,
+    notifier: Notifier,
+    languages: Partial<Record<string, MessageLanguage>>,
+): MessageLanguage => route.language ?? languages[notifier.id] ?? "ja";
+
+const previewDelivery = (
+    target: string,
+    channel: string | undefined,
+    language: PreviewDelivery["language"],
+    action: PreviewDelivery["action"],
+    message: NotificationMessage,
+): PreviewDelivery => ({
+    target,
+    ...(channel ? { channel } : {}),
+    language,
+    action,
+    message,
+    slack: action === "update" ? [renderSlackMessage(message)] : renderSlackMessages(message),
+    text: renderPlainText(message),
+});
+
+interface NotifyResult {
+    threads: Threads;
+    errors: unknown[];
+    /** 送信に失敗した通知先のID */
+    failed: string[];
+}
+
+/**
+ * すべての通知先に送信する。1つの通知先が失敗しても残りの通知先には送信する
+ *
+ * @param render 通知先の言語のメッセージを作る
+ * @returns 送信に成功した通知先ごとの最初のメッセージ
+ */
+const notify = async (
+    target: RouteTarget,
+    render: (language: MessageLanguage) => NotificationMessage,
+    options: {
+        /** メトリクスに使う航空会社のID */
+        airline: string;
+        sender: NotificationSender;
+        languages: Partial<Record<string, MessageLanguage>>;
+        threads?: Threads;
+        broadcast?: boolean;
+        parentMessage?: (language: MessageLanguage) => NotificationMessage;
+        /** 指定された場合は送信せずに送信するメッセージを追加する */
+        preview?: PreviewDelivery[];
+    },
+): Promise<NotifyResult> => {
+    const threads: Threads = {};
+    const errors: unknown[] = [];
+    const failed: string[] = [];
+
+    for (const notifier of target.notifiers) {
+        const key = threadKey(target.route, notifier);
+        const thread = options.threads?.[key];
+        const language = getLanguage(target.route, notifier, options.languages);
+
+        if (options.preview) {
+            const { channel } = target.route;
+            options.preview.push(previewDelivery(key, channel, language, thread ? "reply" : "post", render(language)));
+            if (thread && options.parentMessage && notifier.update) {
+                options.preview.push(
+                    previewDelivery(key, channel, language, "update", options.parentMessage(language)),
+                );
+            }
+            // 送信しないため、新しいスレッドは始まらない
+            if (thread) {
+                threads[key] = thread;
+            }
+            continue;
+        }
+
+        try {
+            const sent = await notifier.send(render(language), {
+                sender: options.sender,
+                channel: target.route.channel,
+                thread,
+                broadcast: options.broadcast,
+            });
+
+            if (thread && options.parentMessage && notifier.update) {
+                await notifier.update(thread, options.parentMessage(language));
+            }
+
+            const parent = thread ?? sent;
+            if (parent) {
+                threads[key] = parent;
+            }
+            metrics.inc("notifications", { airline: options.airline, notifier: notifier.id, result: "success" });
+        } catch (error) {
+            logger.error(`Failed to notify via ${notifier.id}`, { notifier: notifier.id, error });
+            metrics.inc("notifications", { airline: options.airline, notifier: notifier.id, result: "failure" });
+            errors.push(error);
+            failed.push(notifier.id);
+            // 送信に失敗しても続いているスレッドは引き継ぐ
+            if (thread) {
+                threads[key] = thread;
+            }
+        }
+    }
+
+    return { threads, errors, failed };
+};
+
+export interface ParseResult<T extends BaseFlightInfo> {
+    airline: string;
+    hasIrregularFlights: boolean;
+    updateTime: string;
+    flightInfos: T[];
+    unknownAirportNames: string[];
+    /** ページの構造の問題。問題がない場合は空 */
+    pageIssues: string[];
+    message: NotificationMessage;
+    slack: SlackMessage[];
+    text: string;
+}
+
+/**
+ * 取得済みのHTMLを解析し、通知せずに解析結果と通知するメッセージを返す
+ */
+export const parseProviderHTML = <T extends BaseFlightInfo>(
+    provider: AirlineProvider<T>,
+    html: string,
+): ParseResult<T> => {
+    const hasIrregularFlights = provider.hasIrregularFlights(html);
+    const updateTime = provider.getUpdateTime(html);
+    const flightInfos = hasIrregularFlights ? provider.parseIrregularFlights(html) : [];
+    const message = provider.formatMessage(flightInfos, updateTime, hasIrregularFlights);
+
+    return {
+        airline: provider.id,
+        hasIrregularFlights,
+        updateTime,
+        flightInfos,
+        unknownAirportNames: findUnknownAirportNames(flightInfos),
+        pageIssues: inspectProviderPage(provider, html, hasIrregularFlights, flightInfos).issues,
+        message,
+        slack: renderSlackMessages(message),
+        text: renderPlainText(message),
+    };
+};
+
+interface Translations<T extends BaseFlightInfo> {
+    flightInfos: T[];
+    updateTime: string;
+}
+
+/**
+ * 英語のメッセージに使う英語版の運航情報を読み取る
+ *
+ * 英語版のない航空会社や取得に失敗した場合は空にし、空港名のみ辞書の英語名で通知する
+ */
+const loadTranslations = async <T extends BaseFlightInfo>(
+    provider: AirlineProvider<T>,
+    html: string,
+    updateTime: string,
+): Promise<Translations<T>> => {
+    if (!provider.englishUrl) {
+        return { flightInfos: [], updateTime };
+    }
+
+    try {
+        // 英語版が同じページにある場合は取得し直さない
+        const englishHTML = provider.englishUrl === provider.url ? html : await provider.fetchFlightInfo("en");
+        return {
+            flightInfos: provider.parseIrregularFlights(englishHTML, "en"),
+            updateTime: englishHTML === html ? updateTime : provider.getUpdateTime(englishHTML),
+        };
+    } catch (error) {
+        logger.warn("Failed to load the English page", { error });
+        return { flightInfos: [], updateTime };
+    }
+};
+
+/**
+ * 運用者向けの通知先にページの構造についての通知を送信する。送信に失敗しても処理は継続する
+ */
+const alertOps = async (
+    ops: Notifier | undefined,
+    message: NotificationMessage,
+    sender: NotificationSender,
+    preview?: PreviewDelivery[],
+): Promise<void> => {
+    if (!ops) {
+        return;
+    }
+
+    if (preview) {
+        preview.push(previewDelivery("ops", undefined, "ops", "post", message));
+        return;
+    }
+
+    try {
+        await ops.send(message, { sender });
+    } catch (error) {
+        logger.error("Failed to alert the ops channel", { error });
+    }
+};
+
+const formatOpsMessage = (
+    provider: AirlineProvider,
+    title: string,
+    lines: string[],
+    updateTime: string,
+): NotificationMessage => ({
+    airline: provider.name,
+    title,
+    url: provider.url,
+    mention: false,
+    changes: [],
+    sections: lines.length > 0 ? [{ lines }] : [],
+    footer: updateTime,
+});
+
+const isSameIssues = (a: string[] | undefined, b: string[]): boolean =>
+    a !== undefined && a.length === b.length && a.every((issue, index) => issue === b[index]);
+
+/**
+ * @param preview 指定された場合は通知や保存をせず、送信するメッセージと保存する状態を追加する
+ */
+const checkProvider = async <T extends BaseFlightInfo>(
+    provider: AirlineProvider<T>,
+    options: RunOptions,
+    preview?: RunPreview<T>,
+): Promise<void> => {
+    const config = getConfig();
+    const notifiers = createNotifiers(config, provider.id);
+    const targets = buildRouteTargets(config.routing, provider.id, notifiers);
+    const force = options.force ?? false;
+    const sender: NotificationSender = {
+        username: options.username ?? config.senders[provider.id]?.username ?? provider.defaultUsername,
+        icon: options.icon ?? config.senders[provider.id]?.icon ?? provider.defaultIcon,
+    };
+    const updateParent = options.updateParent ?? config.updateParent;
+    const deliveries = preview?.deliveries;
+    const saveState = async (state: BaseState<T>): Promise<void> => {
+        if (preview) {
+            preview.nextState = state;
+            preview.diff = diffFlightInfos(preview.previousState?.flightInfos ?? [], state.flightInfos);
+            return;
+        }
+        await provider.saveState(state);
+    };
+    // プレビューでは壊れた状態の退避やデータベースの形式の更新もしない
+    const loadState = () => provider.loadState({ readOnly: preview !== undefined });
+
+    const labels = { airline: provider.id };
+    let html: string;
+    try {
+        html = await metrics.time("fetchDuration", labels, () => provider.fetchFlightInfo());
+    } catch (error) {
+        // 取得に失敗したことのみを記録し、前回の解析結果は残す。記録に失敗しても取得のエラーを報告する
+        try {
+            const state = await loadState();
+            if (state) {
+                await saveState({
+                    ...state,
+                    lastFetch: { at: new Date().toISOString(), ok: false, error: String(error) },
+                });
+            }
+        } catch (stateError) {
+            logger.warn("Failed to record the fetch failure", { error: stateError });
+        }
+        throw error;
+    }
+
+    const lastState = await loadState();
+    if (preview) {
+        preview.previousState = lastState;
+    }
+    const lastFetch = { at: new Date().toISOString(), ok: true };
+    const pageHash = hashContent(html);
+    const { mentionPolicy } = config;
+    const quietHours =
+        mentionPolicy.quietHours && isQuietTime(mentionPolicy.quietHours) ? mentionPolicy.quietHours : undefined;
+    // 静かな時間帯が終わった後は、先送りしたメンションを送信するためにページが同じでも解析する
+    const hasDueMentions = !quietHours && (lastState?.deferredMentions?.length ?? 0) > 0;
+
+    // ページが前回から変わっていない場合は解析を省略する。期間の終了は日付で判定するため、日付が変わった場合は解析する
+    if (
+        !force &&
+        !hasDueMentions &&
+        lastState?.pageHash === pageHash &&
+        todayInTokyo(new Date(lastState.lastCheck)) === todayInTokyo()
+    ) {
+        logger.info("Page unchanged since last check");
+        metrics.set("affectedAirports", labels, lastState.flightInfos.flatMap(info => info.airports).length);
+        const lastCheck = new Date().toISOString();
+        await saveState({ ...lastState, lastCheck, lastFetch, lastSuccess: lastCheck });
+        return;
+    }
+    const parseStart = performance.now();
+    const hasIrregular = provider.hasIrregularFlights(html);
+    const updateTime = provider.getUpdateTime(html);
+    const parsedFlightInfos = hasIrregular ? provider.parseIrregularFlights(html) : [];
+    metrics.observe("parseDuration", labels, (performance.now() - parseStart) / 1000);
+    // 期間が終了した空港は通知の対象にしない
+    const flightInfos = excludeExpired(parsedFlightInfos);
+    metrics.set("affectedAirports", labels, flightInfos.flatMap(info => info.airports).length);
+
+    if (!preview && (options.archive ?? config.archive)) {
+        const snapshot = await createSnapshotArchive<T>(provider.id).saveSnapshot(html, {
+            updateTime,
+            hasIrregularFlights: hasIrregular,
+            flightInfos: parsedFlightInfos,
+        });
+        logger.info(snapshot ? `Archived snapshot ${snapshot.id}` : "Snapshot unchanged");
+    }
+
+    // ページの構造が想定と異なる場合は誤った内容を利用者に通知しないよう、運用者にのみ通知して終了する
+    const ops = createOpsNotifier(config);
+    const inspection = inspectProviderPage(provider, html, hasIrregular, parsedFlightInfos);
+    const pageMode: PageMode = hasIrregular ? "irregular" : "normal";
+
+    if (inspection.issues.length > 0) {
+        logger.error("Page structure looks broken", { issues: inspection.issues });
+
+        // 同じ問題は繰り返し通知しない
+        if (!isSameIssues(lastState?.pageIssues, inspection.issues)) {
+            await alertOps(
+                ops,
+                formatOpsMessage(provider, "ページの構造の異常を検知しました", inspection.issues, updateTime),
+                sender,
+                deliveries,
+            );
+        }
+
+        // 前回の状態は変えずに検知した問題のみを保存する
+        await saveState({
+            ...(lastState ?? { flightInfos: [] }),
+            lastCheck: new Date().toISOString(),
+            lastFetch,
+            // 解消した時点で解析し直すため、ページのハッシュは保存しない
+            pageHash: undefined,
+            pageIssues: inspection.issues,
+        });
+
+        throw new Error(`Page structure of ${provider.name} looks broken: ${inspection.issues.join(" / ")}`);
+    }
+
+    if (lastState?.pageIssues) {
+        logger.info("Page structure recovered");
+        await alertOps(
+            ops,
+            formatOpsMessage(provider, "ページの構造の異常が解消しました", [], updateTime),
+            sender,
+            deliveries,
+        );
+    }
+
+    const lastFingerprint = lastState?.pageFingerprints?.[pageMode];
+    if (lastFingerprint && lastFingerprint !== inspection.fingerprint) {
+        // 解析には成功しているため、利用者への通知は継続する
+        logger.warn("Page structure changed", { pageMode });
+        await alertOps(
+            ops,
+            formatOpsMessage(
+                provider,
+                "ページの構造の変化を検知しました",
+                [
+                    `${pageMode === "irregular" ? "特別な取り扱いがある場合" : "通常運航時"}のページの構造が前回と異なります`,
+                ],
+                updateTime,
+            ),
+            sender,
+            deliveries,
+        );
+    }
+
+    const unknownAirportNames = findUnknownAirportNames(flightInfos);
+    if (unknownAirportNames.length > 0) {
+        logger.warn("Unknown airport names", { airports: unknownAirportNames });
+    }
+
+    const languages = config.languages;
+    const needsEnglish = targets.some(target =>
+        target.notifiers.some(notifier => getLanguage(target.route, notifier, languages) !== "ja"),
+    );
+    const translations: Translations<T> = needsEnglish
+        ? await loadTranslations(provider, html, updateTime)
+        : { flightInfos: [], updateTime };
+
+    const threads: Threads = {};
+    const errors: unknown[] = [];
+    const deferredMentions = new Set<string>();
+
+    for (const target of targets) {
+        const { route } = target;
+        const routeLogger = logger.child({
+            ...(route.key !== defaultRouteKey ? { route: route.key } : {}),
+            ...(preview ? { dryRun: true } : {}),
+        });
+        const log = (message: string) => routeLogger.info(message);
+        // 送信に失敗した通知先がある場合は成功として記録しない
+        const logResult = (result: NotifyResult, description: string) => {
+            if (preview) {
+                log(`Rendered ${description} (dry run)`);
+            } else if (result.failed.length > 0) {
+                routeLogger.warn(`Failed to post ${description}`, { notifiers: result.failed });
+            } else {
+                log(`Posted ${description}`);
+            }
+        };
+
+        const lastInfos = lastState ? filterFlightInfos(lastState.flightInfos, route) : undefined;
+        const currentInfos = filterFlightInfos(flightInfos, route);
+        // 前回まで特別な取り扱いが続いていた場合の最初のメッセージ
+        const ongoingThreads = lastInfos && lastInfos.length > 0 ? lastState?.threads : undefined;
+
+        const wasDeferred = lastState?.deferredMentions?.includes(route.key) ?? false;
+
+        const formatMessage =
+            (infos: T[], mention: Mention, diff?: FlightInfoDiff<AirportInfoOf<T>>) =>
+            (language: MessageLanguage): NotificationMessage => {
+                const format = (locale: Locale) =>
+                    locale === "ja"
+                        ? provider.formatMessage(infos, updateTime, mention.all, diff)
+                        : provider.formatMessage(
+                              localizeFlightInfos(infos, translations.flightInfos),
+                              translations.updateTime,
+                              mention.all,
+                              diff && localizeDiff(diff, translations.flightInfos),
+                              locale,
+                          );
+                const message = language === "both" ? combineMessages(format("ja"), format("en")) : format(language);
+                return mention.mentions.length > 0 ? { ...message, mentions: mention.mentions } : message;
+            };
+
+        // 静かな時間帯はメンションしない。"defer" の場合は時間帯が終わった後の確認でメンションする
+        const applyQuietHours = (mention: Mention): Mention => {
+            if (!quietHours || !hasMention(mention)) {
+                return mention;
+            }
+            if (quietHours.mode === "defer") {
+                deferredMentions.add(route.key);
+            }
+            log(`Mention ${quietHours.mode === "defer" ? "deferred" : "suppressed"} during quiet hours`);
+            return noMention;
+        };
+
+        const keepThreads = () => {
+            for (const notifier of target.notifiers) {
+                const key = threadKey(route, notifier);
+                if (ongoingThreads?.[key]) {
+                    threads[key] = ongoingThreads[key];
+                }
+            }
+        };
+
+        if (currentInfos.length === 0) {
+            // --forceオプションが指定されていない場合は、前回も運航情報がなければ通知しない
+            if (!force) {
+                // 前回の状態がない場合は何もしない
+                if (!lastInfos) {
+                    log("No irregular flights found and no previous state exists");
+                    continue;
+                }
+
+                // 前回の状態がある場合、前回も空だった場合は通知しない
+                if (lastInfos.length === 0) {
+                    log("No irregular flights found and previous state was also empty");
+                    continue;
+                }
+            }
+
+            // 前回は運航情報があり、今回はない場合は通常運航のメッセージを送信
+            // 続いていたスレッドがある場合は解除をスレッドに返信し、チャンネルにも表示する
+            // スレッドは解除とともに終了し、次の特別な取り扱いは新しいメッセージとして送信する
+            const diff = lastInfos ? diffFlightInfos(lastInfos, []) : undefined;
+            const result = await notify(target, formatMessage([], noMention, diff), {
+                sender,
+                languages,
+                threads: ongoingThreads,
+                broadcast: true,
+                parentMessage: updateParent
+                    ? formatMessage([], decideMention(mentionPolicy, route, lastInfos ?? []))
+                    : undefined,
+                preview: deliveries,
+                airline: provider.id,
+            });
+            errors.push(...result.errors);
+            logResult(result, force ? "normal operation message (forced)" : "normal operation message");
+            continue;
+        }
+
+        // 初回は全件が追加扱いになるため差分は表示しない
+        const diff = lastInfos ? diffFlightInfos(lastInfos, currentInfos) : undefined;
+
+        const current = decideMention(mentionPolicy, route, currentInfos);
+        // 変更がない場合は通知しない (ただし--forceオプションの指定や先送りしたメンションがある場合は通知する)
+        const mentionDue = wasDeferred && !quietHours && hasMention(current);
+        if (diff && isEmptyDiff(diff) && !force && !mentionDue) {
+            log("No changes in flight information since last check");
+            keepThreads();
+            if (wasDeferred) {
+                deferredMentions.add(route.key);
+            }
+            continue;
+        }
+
+        // 特別な取り扱いが続いている場合は、最初のメッセージへの返信として続報を送信する
+        // 続報では規模が条件を満たすようになった場合と、先送りしたメンションがある場合のみメンションする
+        const mention = applyQuietHours(
+            !ongoingThreads || wasDeferred || isNewlyEscalated(mentionPolicy, route, lastInfos ?? [], currentInfos)
+                ? current
+                : noMention,
+        );
+        const result = await notify(target, formatMessage(currentInfos, mention, diff), {
+            sender,
+            languages,
+            threads: ongoingThreads,
+            // 先送りしたメンションはチャンネルにも表示する
+            broadcast: mentionDue && ongoingThreads !== undefined,
+            parentMessage: updateParent ? formatMessage(currentInfos, current) : undefined,
+            preview: deliveries,
+            airline: provider.id,
+        });
+        Object.assign(threads, result.threads);
+        errors.push(...result.errors);
+
+        logResult(
+            result,
+            force
+                ? "irregular flight information (forced)"
+                : mentionDue && diff && isEmptyDiff(diff)
+                  ? "the mention deferred during quiet hours"
+                  : "irregular flight information",
+        );
+    }
+
+    if (!preview && config.feeds) {
+        const previous = lastState?.flightInfos ?? [];
+        const diff = diffFlightInfos(previous, flightInfos);
+        if (!isEmptyDiff(diff)) {
+            try {
+                await createFeedStore(provider.id).addEntry(
+                    buildFeedEntry(provider, previous, flightInfos, updateTime, diff),
+                );
+                await writeFeeds(getProviders(), provider.id);
+            } catch (error) {
+                logger.error("Failed to write feeds", { error });
+            }
+        }
+    }
+
+    // 一部の通知先への送信に失敗した場合も状態は保存し、重複して送信しないようにしてからエラーにする
+    const lastCheck = new Date().toISOString();
+    const lastSuccess = errors.length === 0 ? lastCheck : lastState?.lastSuccess;
+    await saveState({
+        lastCheck,
+        flightInfos,
+        updateTime,
+        lastFetch,
+        ...(lastSuccess ? { lastSuccess } : {}),
+        pageHash,
+        ...(Object.keys(threads).length > 0 ? { threads } : {}),
+        ...(deferredMentions.size > 0 ? { deferredMentions: [...deferredMentions] } : {}),
+        pageFingerprints: { ...lastState?.pageFingerprints, [pageMode]: inspection.fingerprint },
+    });
+
+    if (errors.length > 0) {
+        throw new AggregateError(errors, `Failed to send notifications for ${provider.name}`);
+    }
+};
+
+/**
+ * 通知や状態の保存をせずに実行し、送信するメッセージと保存する状態を返す
+ *
+ * 設定や解析の変更を確かめるためのもの。スナップショットやフィードも保存せず、ロックも取らない
+ */
+export const previewProvider = async <T extends BaseFlightInfo>(
+    provider: AirlineProvider<T>,
+    options: RunOptions = {},
+): Promise<RunPreview<T>> => {
+    const preview: RunPreview<T> = {
+        airline: provider.id,
+        deliveries: [],
+        previousState: null,
+        nextState: null,
+        diff: diffFlightInfos([], []),
+    };
+    await withRunContext({ runId: createRunId(), airline: provider.id }, () =>
+        checkProvider(provider, options, preview),
+    );
+    return preview;
+};
+
+/**
+ * 送信するメッセージ (プレーンテキストとBlock KitのJSON) と状態の変化を表示用の文字列にする
+ */
+export const formatPreview = (preview: RunPreview<BaseFlightInfo>): string => {
+    const lines = [`=== ${preview.airline}`];
+
+    if (preview.deliveries.length === 0) {
+        lines.push("", "No notifications would be sent.");
+    }
+
+    for (const delivery of preview.deliveries) {
+        const channel = delivery.channel ? ` ${delivery.channel}` : "";
+        lines.push(
+            "",
+            `--- ${delivery.action} to ${delivery.target}${channel} (${delivery.language})`,
+            delivery.text,
+            "",
+            JSON.stringify(delivery.slack, null, 2),
+        );
+    }
+
+    lines.push("", "--- state");
+    if (!preview.nextState) {
+        lines.push("The state would not be saved.");
+    } else {
+        const { added, removed, changed } = preview.diff;
+        const list = (entries: { region: string; name: string }[]) =>
+            entries.map(entry => `${entry.region} / ${entry.name}`).join(", ") || "-";
+        lines.push(
+            `lastCheck: ${preview.previousState?.lastCheck ?? "(none)"} -> ${preview.nextState.lastCheck}`,
+            `added: ${list(added.map(entry => ({ region: entry.region, name: entry.airport.name })))}`,
+            `removed: ${list(removed.map(entry => ({ region: entry.region, name: entry.airport.name })))}`,
+            `changed: ${list(changed.map(entry => ({ region: entry.region, name: entry.after.name })))}`,
+            `threads: ${Object.keys(preview.nextState.threads ?? {}).join(", ") || "-"}`,
+        );
+    }
+
+    return lines.join("\n");
+};
+
+/**
+ * `METRICS_FILE` が設定されている場合はメトリクスを書き出す。書き出しに失敗しても確認は失敗にしない
+ */
+const exportMetrics = async (): Promise<void> => {
+    try {
+        const { metricsFile } = getObservabilityConfig();
+        if (metricsFile) {
+            await writeMetricsFile(metricsFile);
+        }
+    } catch (error) {
+        logger.warn("Failed to write metrics", { error });
+    }
+};
+
+/**
+ * 航空会社の運航情報を取得し、前回の状態と比較して必要な場合に通知する
+ *
+ * 特別な取り扱いが始まった時点で新しくメッセージを送信し、その後の変更や解除は同じメッセージへの返信として送信する。
+ * ルーティングが設定されている場合は、通知先ごとに対象の空港のみで判定する。
+ * 同じ航空会社を同時に実行しても重複して通知しないよう、状態を読み込んでから保存するまでロックする
+ */
+export const runProvider = async <T extends BaseFlightInfo>(
+    provider: AirlineProvider<T>,
+    options: RunOptions = {},
+): Promise<void> => {
+    if (options.dryRun) {
+        console.log(formatPreview(await previewProvider(provider, options)));
+        return;
+    }
+
+    await withRunContext({ runId: createRunId(), airline: provider.id }, async () => {
+        const labels = { airline: provider.id };
+        metrics.set("lastCheck", labels, Math.floor(Date.now() / 1000));
+        try {
+            await provider.withLock(() => checkProvider(provider, options));
+            metrics.inc("checks", { ...labels, result: "success" });
+            metrics.set("lastSuccess", labels, Math.floor(Date.now() / 1000));
+        } catch (error) {
+            metrics.inc("checks", { ...labels, result: "failure" });
+            throw error;
+        } finally {
+            await exportMetrics();
+        }
+    });
+};
+
+/**
+ * 複数の航空会社を順番に処理する。1社が失敗しても残りの航空会社の処理は継続する
+ */
+export const runProviders = async (
+    providers: AirlineProvider[],
+    options: Pick<RunOptions, "force" | "updateParent" | "archive" | "dryRun"> = {},
+): Promise<boolean> => {
+    let succeeded = true;
+
+    for (const provider of providers) {
+        try {
+            await runProvider(provider, {
+                force: options.force,
+                updateParent: options.updateParent,
+                archive: options.archive,
+                dryRun: options.dryRun,
+            });
+        } catch (error) {
+            logger.error("Check failed", { airline: provider.id, error });
+            succeeded = false;
+        }
+    }
+
+    return succeeded;
+};
@@ -0,0 +1,54 @@
+import type { AirportInfoOf, FlightInfoDiff } from "./diff";
+import type { Locale } from "./locale";
+import type { NotificationMessage } from "./notification";
+import type { PageInspection } from "./page_check";
+import type { BaseFlightInfo, BaseState, LoadStateOptions } from "./state_manager";
+
+export interface AirlineProvider<T extends BaseFlightInfo = BaseFlightInfo> {
+    /** CLIやストレージで使う識別子 (例: "ana") */
+    id: string;
+    /** 表示用の航空会社名 (例: "ANA") */
+    name: string;
+    /** 運航情報ページのURL */
+    url: string;
+    /** 英語の運航情報ページのURL。日本語と同じページに英語版がある場合はurlと同じ。英語版がない場合は省略する */
+    englishUrl?: string;
+    /** 状態を保存するファイル名 */
+    stateFileName: string;
+    /** Slackに投稿する際のデフォルトのアイコン絵文字 */
+    defaultIcon: string;
+    /** Slackに投稿する際のデフォルトのユーザー名 */
+    defaultUsername: string;
+    fetchFlightInfo(locale?: Locale): Promise<string>;
+    hasIrregularFlights(html: string): boolean;
+    /**
+     * @param locale "en" の場合は英語版の空港を読み取る。英語版のない航空会社では使わない
+     */
+    parseIrregularFlights(html: string, locale?: Locale): T[];
+    getUpdateTime(html: string): string;
+    /**
+     * 更新日時や表の列数など、解析が前提とするページの構造を検査する
+     */
+    inspectPage(html: string): PageInspection;
+    /**
+     * 空港ごとの期間などの情報を項目名と値の組で返す (カレンダーなどの説明に使う)
+     */
+    describeAirport(airport: AirportInfoOf<T>): [label: string, value: string][];
+    /**
+     * @param diff 前回からの差分。指定された場合は変更点をメッセージの先頭に表示する
+     * @param locale 見出しや通常運航のメッセージの言語。空港の表記は渡された運航情報のまま表示する
+     */
+    formatMessage(
+        flightInfos: T[],
+        updateTime: string,
+        withMention?: boolean,
+        diff?: FlightInfoDiff<AirportInfoOf<T>>,
+        locale?: Locale,
+    ): NotificationMessage;
+    loadState(options?: LoadStateOptions): Promise<BaseState<T> | null>;
+    saveState(state: BaseState<T>): Promise<void>;
+    /** 状態のロックを取得してから処理を実行する */
+    withLock<R>(fn: () => Promise<R>): Promise<R>;
+    diffState(oldState: BaseState<T> | null, newFlightInfos: T[]): FlightInfoDiff<AirportInfoOf<T>>;
+    hasStateChanged(oldState: BaseState<T> | null, newFlightInfos: T[]): boolean;
+}
@@ -0,0 +1,37 @@
+import { describe, expect, test } from "bun:test";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { parseProviderHTML } from "./pipeline";
+import { getProviders } from "./providers";
+
+/** 実際のページを保存したHTML。手で作ったHTMLは境界条件の確認のみに使う */
+const capturedPages = (airlineId: string): string[] => {
+    const directory = path.join("fixtures", airlineId, "captured");
+    return fs.existsSync(directory)
+        ? fs
+              .readdirSync(directory)
+              .filter(fileName => fileName.endsWith(".html"))
+              .map(fileName => path.join(directory, fileName))
+        : [];
+};
+
+describe("captured pages", () => {
+    for (const provider of getProviders()) {
+        const pages = capturedPages(provider.id);
+        if (pages.length === 0) {
+            test.todo(`${provider.id}: save a real page to fixtures/${provider.id}/captured/`);
+            continue;
+        }
+
+        for (const page of pages) {
+            test(`${provider.id} parses ${path.basename(page)} without structure issues`, () => {
+                const result = parseProviderHTML(provider, fs.readFileSync(page, "utf-8"));
+
+                expect(result.pageIssues).toEqual([]);
+                if (result.hasIrregularFlights) {
+                    expect(result.flightInfos.flatMap(info => info.airports).length).toBeGreaterThan(0);
+                }
+            });
+        }
+    }
+});
@@ -0,0 +1,28 @@
+import { createAnaService } from "./ana";
+import { createJalService } from "./jal";
+import type { AirlineProvider } from "./provider";
+
+// 新しい航空会社を追加する場合はここに登録する
+// skymark.ts / peach.ts / airdo.ts / solaseed.ts / starflyer.ts は実際のページで解析を確かめるまで登録しない
+const providerFactories: (() => AirlineProvider)[] = [createAnaService, createJalService];
+
+let providers: AirlineProvider[] | undefined;
+
+export function getProviders(): AirlineProvider[] {
+    if (!providers) {
+        providers = providerFactories.map(factory => factory());
+    }
+
+    return providers;
+}
+
+export function getProvider(id: string): AirlineProvider {
+    const provider = getProviders().find(provider => provider.id === id);
+
+    if (!provider) {
+        const ids = getProviders().map(provider => provider.id);
+        throw new Error(`Unknown airline: ${id} (available: ${ids.join(", ")})`);
+    }
+
+    return provider;
+}
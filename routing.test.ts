@@ -0,0 +1,109 @@
+import { describe, expect, test } from "bun:test";
+import { withResolvedAirport } from "./airports";
+import { buildRoutes, defaultRouteKey, filterFlightInfos, parseRoutingConfig } from "./routing";
+
+const flightInfos = [
+    {
+        region: "北海道",
+        airports: [withResolvedAirport({ name: "札幌(新千歳)" }), withResolvedAirport({ name: "旭川" })],
+    },
+    { region: "沖縄", airports: [withResolvedAirport({ name: "石垣" })] },
+    { region: "関東", airports: [withResolvedAirport({ name: "東京(羽田)" })] },
+];
+
+const names = (infos: typeof flightInfos) => infos.flatMap(info => info.airports.map(airport => airport.name));
+
+describe("parseRoutingConfig", () => {
+    test("uses the channel as the rule name and defaults unmatched to default", () => {
+        expect(parseRoutingConfig({ rules: [{ regions: ["沖縄"], channel: "#okinawa" }] }, "routing.json")).toEqual({
+            rules: [{ name: "#okinawa", regions: ["沖縄"], channel: "#okinawa" }],
+            unmatched: "default",
+        });
+    });
+
+    test("rejects duplicate and reserved rule names", () => {
+        expect(() =>
+            parseRoutingConfig(
+                {
+                    rules: [
+                        { regions: ["沖縄"], channel: "#okinawa" },
+                        { airports: ["那覇"], channel: "#okinawa" },
+                    ],
+                },
+                "routing.json",
+            ),
+        ).toThrow('Invalid routing config in routing.json: rules[1] has a duplicate name "#okinawa"');
+        expect(() =>
+            parseRoutingConfig(
+                { rules: [{ name: "default", regions: ["沖縄"], channel: "#okinawa" }] },
+                "routing.json",
+            ),
+        ).toThrow('rules[0] cannot be named "default"');
+    });
+
+    test("rejects rules without a target or a channel", () => {
+        expect(() => parseRoutingConfig({ rules: [{ channel: "#okinawa" }] }, "routing.json")).toThrow(
+            "rules[0] must have airports or regions",
+        );
+        expect(() => parseRoutingConfig({ rules: [{ regions: ["沖縄"] }] }, "routing.json")).toThrow(
+            "rules[0].channel is required",
+        );
+        expect(() => parseRoutingConfig({ rules: [], unmatched: "ignore" }, "routing.json")).toThrow(
+            'unmatched must be "default" or "drop"',
+        );
+    });
+});
+
+describe("buildRoutes", () => {
+    test("matches airports by name or IATA code and regions by name", () => {
+        const routing = parseRoutingConfig(
+            {
+                rules: [
+                    { name: "hokkaido", regions: ["北海"], channel: "#hokkaido" },
+                    { name: "islands", airports: ["ISG"], channel: "#islands" },
+                    { name: "tokyo", airports: ["羽田"], channel: "#tokyo" },
+                ],
+                unmatched: "drop",
+            },
+            "routing.json",
+        );
+        const [hokkaido, islands, tokyo] = buildRoutes(routing, "ana");
+
+        expect(names(filterFlightInfos(flightInfos, hokkaido))).toEqual(["札幌(新千歳)", "旭川"]);
+        expect(names(filterFlightInfos(flightInfos, islands))).toEqual(["石垣"]);
+        expect(names(filterFlightInfos(flightInfos, tokyo))).toEqual(["東京(羽田)"]);
+        // 空港がなくなった地域は除外する
+        expect(filterFlightInfos(flightInfos, islands).map(info => info.region)).toEqual(["沖縄"]);
+    });
+
+    test("applies rules only to the listed airlines", () => {
+        const routing = parseRoutingConfig(
+            { rules: [{ regions: ["沖縄"], airlines: ["jal"], channel: "#okinawa" }], unmatched: "drop" },
+            "routing.json",
+        );
+
+        expect(buildRoutes(routing, "jal").map(route => route.key)).toEqual(["#okinawa"]);
+        expect(buildRoutes(routing, "ana")).toEqual([]);
+    });
+
+    test("sends unmatched airports to the default channel or drops them", () => {
+        const rules = [{ name: "okinawa", regions: ["沖縄"], channel: "#okinawa", mentions: ["U0123456789"] }];
+
+        const withDefault = buildRoutes(parseRoutingConfig({ rules, unmatched: "default" }, "routing.json"), "ana");
+        expect(withDefault.map(route => [route.key, route.mentionAll, route.mentions])).toEqual([
+            ["okinawa", false, ["U0123456789"]],
+            [defaultRouteKey, true, []],
+        ]);
+        expect(names(filterFlightInfos(flightInfos, withDefault[1]))).toEqual(["札幌(新千歳)", "旭川", "東京(羽田)"]);
+
+        const dropped = buildRoutes(parseRoutingConfig({ rules, unmatched: "drop" }, "routing.json"), "ana");
+        expect(dropped.map(route => route.key)).toEqual(["okinawa"]);
+    });
+
+    test("sends every airport to the default channel without routing", () => {
+        const [route] = buildRoutes(undefined, "ana");
+
+        expect(route.key).toBe(defaultRouteKey);
+        expect(names(filterFlightInfos(flightInfos, route))).toEqual(names(flightInfos));
+    });
+});
@@ -0,0 +1,184 @@
+import * as fs from "node:fs";
+import { type MessageLanguage, messageLanguages } from "./locale";
+import type { BaseAirportInfo, BaseFlightInfo } from "./state_manager";
+
+/**
+ * 空港や地域の購読ルール。いずれかの条件に一致した空港をルールのチャンネルに通知する
+ */
+export interface RoutingRule {
+    /** 状態の保存に使うルール名。省略した場合はチャンネル名を使う */
+    name?: string;
+    /** 対象の空港名 (部分一致) またはIATAコード */
+    airports?: string[];
+    /** 対象の地域名 (部分一致) */
+    regions?: string[];
+    /** 対象の航空会社ID。省略した場合はすべての航空会社 */
+    airlines?: string[];
+    /** 通知先のSlackチャンネル */
+    channel: string;
+    /** メンションするSlackのユーザーIDまたはユーザーグループID */
+    mentions?: string[];
+    /** メッセージの言語。省略した場合はSlackの設定に従う */
+    language?: MessageLanguage;
+}
+
+export interface RoutingConfig {
+    rules: RoutingRule[];
+    /** どのルールにも一致しない空港の扱い。"default" は既定のチャンネルに通知し、"drop" は通知しない */
+    unmatched: "default" | "drop";
+}
+
+export interface Route {
+    /** 状態の保存に使う識別子 */
+    key: string;
+    /** 指定された場合は既定のチャンネルの代わりにこのチャンネルに通知する */
+    channel?: string;
+    /** 通知先の全員にメンションするか */
+    mentionAll: boolean;
+    mentions: string[];
+    /** 指定された場合は通知先の設定の代わりにこの言語で通知する */
+    language?: MessageLanguage;
+    matches: (region: string, airport: BaseAirportInfo) => boolean;
+}
+
+export const defaultRouteKey = "default";
+
+/**
+ * すべての空港を既定のチャンネルに通知する通知先
+ */
+export const allAirportsRoute: Route = { key: defaultRouteKey, mentionAll: true, mentions: [], matches: () => true };
+
+const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(item => typeof item === "string");
+
+/**
+ * ルーティング設定を検証する
+ *
+ * @param source エラーメッセージに表示する設定の読み込み元
+ */
+export const parseRoutingConfig = (value: unknown, source: string): RoutingConfig => {
+    const fail = (message: string): never => {
+        throw new Error(`Invalid routing config in ${source}: ${message}`);
+    };
+
+    if (typeof value !== "object" || value === null) {
+        return fail("must be an object");
+    }
+
+    const { rules, unmatched = "default" } = value as Record<string, unknown>;
+
+    if (!Array.isArray(rules)) {
+        return fail("rules must be an array");
+    }
+
+    if (unmatched !== "default" && unmatched !== "drop") {
+        return fail('unmatched must be "default" or "drop"');
+    }
+
+    const names = new Set<string>();
+    const parsedRules = rules.map((rule: unknown, index): RoutingRule => {
+        if (typeof rule !== "object" || rule === null) {
+            return fail(`rules[${index}] must be an object`);
+        }
+
+        const { name, airports, regions, airlines, channel, mentions, language } = rule as Record<string, unknown>;
+
+        if (typeof channel !== "string" || channel === "") {
+            return fail(`rules[${index}].channel is required`);
+        }
+
+        for (const [key, list] of Object.entries({ airports, regions, airlines, mentions })) {
+            if (list !== undefined && !isStringArray(list)) {
+                fail(`rules[${index}].${key} must be an array of strings`);
+            }
+        }
+
+        if (airports === undefined && regions === undefined) {
+            return fail(`rules[${index}] must have airports or regions`);
+        }
+
+        if (language !== undefined && !(messageLanguages as readonly unknown[]).includes(language)) {
+            return fail(`rules[${index}].language must be one of ${messageLanguages.join(", ")}`);
+        }
+
+        if (name !== undefined && typeof name !== "string") {
+            return fail(`rules[${index}].name must be a string`);
+        }
+
+        const ruleName = name ?? channel;
+        if (ruleName === defaultRouteKey) {
+            return fail(`rules[${index}] cannot be named "${defaultRouteKey}"`);
+        }
+        if (names.has(ruleName)) {
+            return fail(`rules[${index}] has a duplicate name "${ruleName}"`);
+        }
+        names.add(ruleName);
+
+        return {
+            name: ruleName,
+            airports: airports as string[] | undefined,
+            regions: regions as string[] | undefined,
+            airlines: airlines as string[] | undefined,
+            channel,
+            mentions: mentions as string[] | undefined,
+            language: language as MessageLanguage | undefined,
+        };
+    });
+
+    return { rules: parsedRules, unmatched };
+};
+
+export const loadRoutingConfig = (filePath: string): RoutingConfig => {
+    let data: unknown;
+    try {
+        data = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    } catch (error) {
+        throw new Error(`Failed to load routing config from ${filePath}: ${error}`);
+    }
+
+    return parseRoutingConfig(data, filePath);
+};
+
+const matchesRule = (rule: RoutingRule, region: string, airport: BaseAirportInfo): boolean =>
+    (rule.airports ?? []).some(name => airport.name.includes(name) || airport.resolved?.iata === name) ||
+    (rule.regions ?? []).some(name => region.includes(name));
+
+/**
+ * 航空会社の通知先を求める
+ *
+ * ルーティングが設定されていない場合は、すべての空港を既定のチャンネルに通知する
+ */
+export const buildRoutes = (routing: RoutingConfig | undefined, airlineId: string): Route[] => {
+    if (!routing) {
+        return [allAirportsRoute];
+    }
+
+    const rules = routing.rules.filter(rule => !rule.airlines || rule.airlines.includes(airlineId));
+    const routes: Route[] = rules.map(rule => ({
+        key: rule.name ?? rule.channel,
+        channel: rule.channel,
+        mentionAll: false,
+        mentions: rule.mentions ?? [],
+        language: rule.language,
+        matches: (region, airport) => matchesRule(rule, region, airport),
+    }));
+
+    if (routing.unmatched === "default") {
+        routes.push({
+            key: defaultRouteKey,
+            mentionAll: true,
+            mentions: [],
+            matches: (region, airport) => !rules.some(rule => matchesRule(rule, region, airport)),
+        });
+    }
+
+    return routes;
+};
+
+/**
+ * 通知先に一致する空港のみを残す。空港がなくなった地域は除外する
+ */
+export const filterFlightInfos = <T extends BaseFlightInfo>(flightInfos: T[], route: Route): T[] =>
+    flightInfos
+        .map(info => ({ ...info, airports: info.airports.filter(airport => route.matches(info.region, airport)) }))
+        .filter(info => info.airports.length > 0);
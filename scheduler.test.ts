@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { type AnaFlightInfo, createAnaService } from "./ana";
+import { logger } from "./logger";
+import type { AirlineProvider } from "./provider";
+import { applyJitter, msUntilTime, watchProviders } from "./scheduler";
+import type { BaseState } from "./state_manager";
+
+const createProvider = (id: string, state: BaseState<AnaFlightInfo> | null = null): AirlineProvider<AnaFlightInfo> => ({
+    ...createAnaService(),
+    id,
+    name: id.toUpperCase(),
+    loadState: async () => state,
+});
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe("applyJitter", () => {
+    test("shifts the interval within the ratio", () => {
+        expect(applyJitter(1000, 0.1, () => 0)).toBe(900);
+        expect(applyJitter(1000, 0.1, () => 0.5)).toBe(1000);
+        expect(applyJitter(1000, 0.1, () => 1)).toBe(1100);
+        expect(applyJitter(1000, 0, () => 1)).toBe(1000);
+    });
+});
+
+describe("msUntilTime", () => {
+    test("waits until the next occurrence of the time in Japan", () => {
+        const now = Date.parse("2025-02-05T07:00:00+09:00");
+        const minute = 60 * 1000;
+
+        expect(msUntilTime("07:30", now)).toBe(30 * minute);
+        // 過ぎた時刻は翌日
+        expect(msUntilTime("07:00", now)).toBe(24 * 60 * minute);
+        expect(msUntilTime("00:10", Date.parse("2025-02-05T23:50:00+09:00"))).toBe(20 * minute);
+    });
+});
+
+describe("watchProviders", () => {
+    // 確認の予定と失敗のログを出力しない
+    beforeEach(() => {
+        spyOn(logger, "info").mockImplementation(() => {});
+        spyOn(logger, "error").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        mock.restore();
+    });
+
+    test("checks more often while irregular flights continue", async () => {
+        const normal = createProvider("normal", { lastCheck: "", flightInfos: [] });
+        const irregular = createProvider("irregular", {
+            lastCheck: "",
+            flightInfos: [{ region: "北海道", airports: [{ name: "新千歳", period: "2月5日" }] }],
+        });
+        const runs: string[] = [];
+
+        const watcher = watchProviders(
+            [normal, irregular],
+            { normalInterval: 1000, irregularInterval: 10, jitter: 0 },
+            async provider => {
+                runs.push(provider.id);
+            },
+        );
+        await wait(100);
+        await watcher.stop();
+
+        expect(runs.filter(id => id === "normal")).toHaveLength(1);
+        expect(runs.filter(id => id === "irregular").length).toBeGreaterThan(2);
+    });
+
+    test("keeps checking when a run fails", async () => {
+        let count = 0;
+
+        const watcher = watchProviders(
+            [createProvider("ana")],
+            { normalInterval: 10, irregularInterval: 10, jitter: 0 },
+            async () => {
+                count++;
+                throw new Error("fetch failed");
+            },
+        );
+        await wait(100);
+        await watcher.stop();
+
+        expect(count).toBeGreaterThan(2);
+        expect(logger.error).toHaveBeenCalledWith("Check failed", expect.objectContaining({ airline: "ana" }));
+    });
+
+    test("waits for the running check before stopping", async () => {
+        let finished = false;
+
+        const watcher = watchProviders(
+            [createProvider("ana")],
+            { normalInterval: 1000, irregularInterval: 1000, jitter: 0 },
+            async () => {
+                await wait(50);
+                finished = true;
+            },
+        );
+        await watcher.stop();
+
+        expect(finished).toBe(true);
+    });
+});
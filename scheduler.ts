@@ -0,0 +1,135 @@
+import { digestId, postDigest } from "./digest";
+import { logger } from "./logger";
+import { type RunOptions, runProvider } from "./pipeline";
+import type { AirlineProvider } from "./provider";
+
+export interface WatchOptions extends Pick<RunOptions, "updateParent" | "archive"> {
+    /** 通常運航時の確認間隔 (ミリ秒) */
+    normalInterval: number;
+    /** 特別な取り扱いが続いている間の確認間隔 (ミリ秒) */
+    irregularInterval: number;
+    /** 確認間隔をずらす割合 (0.1 の場合は±10%) */
+    jitter: number;
+    /** 指定した場合は毎日この時刻 (日本時間の "HH:MM") に空港ごとのまとめを送信する */
+    digestAt?: string;
+}
+
+export interface Watcher {
+    /** 停止するまで解決しない */
+    done: Promise<void>;
+    /** 新しい確認は開始せず、実行中の確認が終わるのを待って停止する */
+    stop: () => Promise<void>;
+}
+
+/**
+ * 複数の航空会社が同時にアクセスし続けないよう、確認間隔をランダムにずらす
+ */
+export const applyJitter = (interval: number, jitter: number, random = Math.random): number =>
+    Math.max(0, Math.round(interval * (1 + (random() * 2 - 1) * jitter)));
+
+/**
+ * 次に日本時間の指定した時刻になるまでのミリ秒
+ */
+export const msUntilTime = (time: string, now = Date.now()): number => {
+    const [hours, minutes] = time.split(":").map(Number);
+    const tokyoOffset = 9 * 60 * 60 * 1000;
+    const day = 24 * 60 * 60 * 1000;
+    // 日本時間の今日の0時 (UTC)
+    const midnight = Math.floor((now + tokyoOffset) / day) * day - tokyoOffset;
+    const target = midnight + (hours * 60 + minutes) * 60 * 1000;
+
+    return target > now ? target - now : target + day - now;
+};
+
+/**
+ * 特別な取り扱いが続いている間は短い間隔で、通常運航時は長い間隔で確認する
+ */
+const nextInterval = async (provider: AirlineProvider, options: WatchOptions): Promise<number> => {
+    const state = await provider.loadState({ readOnly: true });
+    const interval = state && state.flightInfos.length > 0 ? options.irregularInterval : options.normalInterval;
+
+    return applyJitter(interval, options.jitter);
+};
+
+/**
+ * 航空会社ごとに独立した間隔で運航情報の確認を繰り返す
+ *
+ * 1社の確認が失敗しても、その航空会社を含めて次の確認は予定通り行う
+ */
+export const watchProviders = (
+    providers: AirlineProvider[],
+    options: WatchOptions,
+    run: typeof runProvider = runProvider,
+    digest: typeof postDigest = postDigest,
+): Watcher => {
+    let stopped = false;
+    const wakers = new Set<() => void>();
+
+    const sleep = (ms: number): Promise<void> =>
+        new Promise(resolve => {
+            const wake = () => {
+                clearTimeout(timer);
+                wakers.delete(wake);
+                resolve();
+            };
+            const timer = setTimeout(wake, ms);
+            wakers.add(wake);
+        });
+
+    const watch = async (provider: AirlineProvider): Promise<void> => {
+        while (!stopped) {
+            try {
+                await run(provider, { updateParent: options.updateParent, archive: options.archive });
+            } catch (error) {
+                logger.error("Check failed", { airline: provider.id, error });
+            }
+
+            if (stopped) {
+                break;
+            }
+
+            let interval = applyJitter(options.normalInterval, options.jitter);
+            try {
+                interval = await nextInterval(provider, options);
+            } catch (error) {
+                logger.error("Failed to load state", { airline: provider.id, error });
+            }
+
+            logger.info(`Next check in ${Math.round(interval / 1000)}s`, { airline: provider.id });
+            await sleep(interval);
+        }
+    };
+
+    const watchDigest = async (digestAt: string): Promise<void> => {
+        while (!stopped) {
+            const wait = msUntilTime(digestAt);
+            logger.info(`Next digest in ${Math.round(wait / 1000)}s`, { airline: digestId });
+            await sleep(wait);
+
+            if (stopped) {
+                break;
+            }
+
+            try {
+                await digest(providers);
+            } catch (error) {
+                logger.error("Failed to post the digest", { airline: digestId, error });
+            }
+        }
+    };
+
+    const done = Promise.all([
+        ...providers.map(watch),
+        ...(options.digestAt ? [watchDigest(options.digestAt)] : []),
+    ]).then(() => undefined);
+
+    const stop = async (): Promise<void> => {
+        stopped = true;
+        for (const wake of wakers) {
+            wake();
+        }
+        await done;
+    };
+
+    return { done, stop };
+};
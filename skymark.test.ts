@@ -0,0 +1,53 @@
+import { afterAll, beforeAll, describe, expect, setSystemTime, test } from "bun:test";
+import * as fs from "node:fs";
+import { createSkymarkService } from "./skymark";
+
+const irregularHTML = fs.readFileSync("fixtures/skymark/irregular.html", "utf-8");
+
+describe("Skymark", () => {
+    const skymark = createSkymarkService();
+
+    beforeAll(() => {
+        setSystemTime(new Date("2025-02-05T10:00:00+09:00"));
+    });
+
+    afterAll(() => {
+        setSystemTime();
+    });
+
+    test("inspectPage", () => {
+        expect(
+            skymark.inspectPage(irregularHTML.replace(/<td>2月7日<\/td>/, "<td>2月7日</td><td></td>")).issues,
+        ).toEqual(["想定外の列数の行があります (3列)"]);
+    });
+
+    test("parseIrregularFlights", () => {
+        const flightInfos = skymark.parseIrregularFlights(irregularHTML);
+
+        expect(flightInfos.map(info => info.region)).toEqual(["北海道", "九州・沖縄"]);
+        expect(flightInfos[0].airports).toEqual([
+            {
+                name: "札幌(新千歳)",
+                period: "2月5日～2月6日",
+                range: { start: "2025-02-05", end: "2025-02-06" },
+                resolved: { iata: "CTS", icao: "RJCC", nameJa: "新千歳", nameEn: "New Chitose" },
+            },
+        ]);
+        // 期間が空の下地島は含まない
+        expect(flightInfos[1].airports.map(airport => airport.resolved?.iata)).toEqual(["KOJ", "OKA"]);
+    });
+
+    test("formatMessage", () => {
+        const flightInfos = skymark.parseIrregularFlights(irregularHTML);
+        const message = skymark.formatMessage(flightInfos, skymark.getUpdateTime(irregularHTML));
+
+        expect(message.airline).toBe("Skymark");
+        expect(message.sections).toEqual([
+            { heading: "本日対象 / 北海道", lines: ["札幌(新千歳): 2月5日～2月6日"] },
+            { heading: "今後 / 九州・沖縄", lines: ["鹿児島: 2月7日～2月8日", "沖縄(那覇): 2月7日"] },
+        ]);
+        expect(skymark.formatMessage([], "", false).sections).toEqual([
+            { lines: ["現在、特別なお取り扱いの対象となる空港はございません。"] },
+        ]);
+    });
+});
@@ -0,0 +1,65 @@
+import type { AirlineProvider } from "./provider";
+import {
+    type SpecialHandlingFlightInfo,
+    createSpecialHandlingProvider,
+    findUnexpectedColumns,
+} from "./special_handling";
+import type { BaseAirportInfo } from "./state_manager";
+
+const SKYMARK_URL = "https://www.skymark.co.jp/ja/information/special_handling.html";
+
+export interface SkymarkAirportInfo extends BaseAirportInfo {
+    name: string;
+    period: string;
+}
+
+export type SkymarkFlightInfo = SpecialHandlingFlightInfo<SkymarkAirportInfo>;
+
+export type SkymarkService = AirlineProvider<SkymarkFlightInfo>;
+
+export const createSkymarkService = (): SkymarkService =>
+    createSpecialHandlingProvider<SkymarkAirportInfo>({
+        id: "skymark",
+        name: "Skymark",
+        url: SKYMARK_URL,
+        defaultIcon: ":skymark:",
+        defaultUsername: "スカイマーク運航情報",
+        messages: {
+            ja: {
+                title: "特別なお取り扱いの対象空港",
+                normalMessage: "現在、特別なお取り扱いの対象となる空港はございません。",
+            },
+            en: {
+                title: "Airports subject to special handling",
+                normalMessage: "There are currently no airports subject to special handling.",
+            },
+        },
+        updateTimeSelector: ".update-date",
+        structureSelector: ".info-box",
+        // 地域ごとに見出しと空港のテーブルがある
+        readAirports: $ =>
+            $(".info-box")
+                .toArray()
+                .flatMap(box => {
+                    const region = $(box).find("h3").first().text().trim();
+                    return $(box)
+                        .find("table tr")
+                        .toArray()
+                        .flatMap(row => {
+                            const $cells = $(row).find("td");
+                            if ($cells.length !== 2) {
+                                return [];
+                            }
+
+                            const name = $cells.eq(0).text().trim();
+                            const period = $cells.eq(1).text().trim().replace(/\s+/g, " ");
+                            // 空の期間情報は無視
+                            return name && period ? [{ region, airport: { name, period } }] : [];
+                        });
+                }),
+        // 空港名と期間の2列以外の行は読み取れない
+        findIssues: $ => findUnexpectedColumns($, ".info-box table tr", [2]),
+        dateText: airport => airport.period,
+        summarize: airport => airport.period,
+        describeAirport: airport => [["対象期間", airport.period]],
+    });
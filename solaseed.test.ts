@@ -0,0 +1,56 @@
+import { afterAll, beforeAll, describe, expect, setSystemTime, test } from "bun:test";
+import * as fs from "node:fs";
+import { createSolaseedService } from "./solaseed";
+
+const irregularHTML = fs.readFileSync("fixtures/solaseed/irregular.html", "utf-8");
+
+describe("Solaseed Air", () => {
+    const solaseed = createSolaseedService();
+
+    beforeAll(() => {
+        setSystemTime(new Date("2025-02-05T10:00:00+09:00"));
+    });
+
+    afterAll(() => {
+        setSystemTime();
+    });
+
+    test("inspectPage", () => {
+        expect(solaseed.inspectPage(irregularHTML.replace("<dd>2月6日</dd>", "")).issues).toEqual([
+            "空港名と対象期間の数が一致しません (空港名 2件 / 対象期間 1件)",
+        ]);
+    });
+
+    test("parseIrregularFlights", () => {
+        const flightInfos = solaseed.parseIrregularFlights(irregularHTML);
+
+        expect(flightInfos.map(info => info.region)).toEqual(["九州", "沖縄"]);
+        expect(flightInfos[0].airports).toEqual([
+            {
+                name: "宮崎",
+                period: "2月5日～2月6日",
+                range: { start: "2025-02-05", end: "2025-02-06" },
+                resolved: { iata: "KMI", icao: "RJFM", nameJa: "宮崎", nameEn: "Miyazaki" },
+            },
+            {
+                name: "鹿児島",
+                period: "2月6日",
+                range: { start: "2025-02-06", end: "2025-02-06" },
+                resolved: { iata: "KOJ", icao: "RJFK", nameJa: "鹿児島", nameEn: "Kagoshima" },
+            },
+        ]);
+        expect(flightInfos[1].airports[0].resolved?.iata).toBe("OKA");
+    });
+
+    test("formatMessage", () => {
+        const flightInfos = solaseed.parseIrregularFlights(irregularHTML);
+        const message = solaseed.formatMessage(flightInfos, solaseed.getUpdateTime(irregularHTML));
+
+        expect(message.airline).toBe("Solaseed Air");
+        expect(message.sections).toEqual([
+            { heading: "本日対象 / 九州", lines: ["宮崎: 2月5日～2月6日"] },
+            { heading: "今後 / 九州", lines: ["鹿児島: 2月6日"] },
+            { heading: "今後 / 沖縄", lines: ["那覇: 2月7日～2月8日"] },
+        ]);
+    });
+});
@@ -0,0 +1,64 @@
+import type { AirlineProvider } from "./provider";
+import { type SpecialHandlingFlightInfo, createSpecialHandlingProvider } from "./special_handling";
+import type { BaseAirportInfo } from "./state_manager";
+
+const SOLASEED_URL = "https://www.solaseedair.jp/information/special/";
+
+export interface SolaseedAirportInfo extends BaseAirportInfo {
+    name: string;
+    period: string;
+}
+
+export type SolaseedFlightInfo = SpecialHandlingFlightInfo<SolaseedAirportInfo>;
+
+export type SolaseedService = AirlineProvider<SolaseedFlightInfo>;
+
+export const createSolaseedService = (): SolaseedService =>
+    createSpecialHandlingProvider<SolaseedAirportInfo>({
+        id: "solaseed",
+        name: "Solaseed Air",
+        url: SOLASEED_URL,
+        defaultIcon: ":solaseed:",
+        defaultUsername: "ソラシドエア運航情報",
+        messages: {
+            ja: {
+                title: "特別なお取り扱いの対象空港",
+                normalMessage: "現在、対象となる空港はございません。",
+            },
+            en: {
+                title: "Airports subject to special handling",
+                normalMessage: "There are currently no airports subject to special handling.",
+            },
+        },
+        updateTimeSelector: ".update",
+        structureSelector: ".special-area",
+        // 地域ごとに空港名 (dt) と対象期間 (dd) の組が並ぶ
+        readAirports: $ =>
+            $(".special-area")
+                .toArray()
+                .flatMap(area => {
+                    const region = $(area).find("h3").first().text().trim();
+                    return $(area)
+                        .find("dl.airport-list dt")
+                        .toArray()
+                        .flatMap(term => {
+                            const name = $(term).text().trim();
+                            const period = $(term).next("dd").text().trim().replace(/\s+/g, " ");
+                            return name && period ? [{ region, airport: { name, period } }] : [];
+                        });
+                }),
+        // 空港名と対象期間が組になっていない場合は読み取れない
+        findIssues: $ =>
+            $("dl.airport-list")
+                .toArray()
+                .flatMap(list => {
+                    const terms = $(list).children("dt").length;
+                    const definitions = $(list).children("dd").length;
+                    return terms !== definitions
+                        ? [`空港名と対象期間の数が一致しません (空港名 ${terms}件 / 対象期間 ${definitions}件)`]
+                        : [];
+                }),
+        dateText: airport => airport.period,
+        summarize: airport => airport.period,
+        describeAirport: airport => [["対象期間", airport.period]],
+    });
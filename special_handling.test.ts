@@ -0,0 +1,145 @@
+import { afterAll, beforeAll, describe, expect, setSystemTime, test } from "bun:test";
+import * as fs from "node:fs";
+import * as cheerio from "cheerio";
+import { createAirdoService } from "./airdo";
+import { createPeachService } from "./peach";
+import { createSkymarkService } from "./skymark";
+import { createSolaseedService } from "./solaseed";
+import { type SpecialHandlingPage, createSpecialHandlingProvider, findUnexpectedColumns } from "./special_handling";
+import { createStarflyerService } from "./starflyer";
+import type { BaseAirportInfo } from "./state_manager";
+
+// 各航空会社のページに共通する処理を確認する。ページごとの解析は各航空会社のテストで確認する
+const providers = [
+    { provider: createSkymarkService(), updateTime: "2025年2月5日 9:00 更新" },
+    { provider: createPeachService(), updateTime: "2025年2月5日 9:30" },
+    { provider: createAirdoService(), updateTime: "2025年2月5日 8:00現在" },
+    { provider: createSolaseedService(), updateTime: "2025年2月5日 7:00 更新" },
+    { provider: createStarflyerService(), updateTime: "2025年2月5日 10:30更新" },
+];
+
+describe.each(providers)("$provider.name", ({ provider, updateTime }) => {
+    const irregularHTML = fs.readFileSync(`fixtures/${provider.id}/irregular.html`, "utf-8");
+    const normalHTML = fs.readFileSync(`fixtures/${provider.id}/normal.html`, "utf-8");
+
+    test("hasIrregularFlights", () => {
+        expect(provider.hasIrregularFlights(irregularHTML)).toBe(true);
+        expect(provider.hasIrregularFlights(normalHTML)).toBe(false);
+    });
+
+    test("getUpdateTime", () => {
+        expect(provider.getUpdateTime(irregularHTML)).toBe(updateTime);
+    });
+
+    test("inspectPage", () => {
+        expect(provider.inspectPage(irregularHTML).issues).toEqual([]);
+        expect(provider.inspectPage(normalHTML).issues).toEqual([]);
+        expect(provider.inspectPage(irregularHTML.replace(updateTime, "")).issues).toEqual([
+            expect.stringContaining("更新日時"),
+        ]);
+    });
+
+    test("formatMessage without airports", () => {
+        const message = provider.formatMessage([], "", false);
+
+        expect(message.airline).toBe(provider.name);
+        expect(message.url).toBe(provider.url);
+        expect(message.sections).toHaveLength(1);
+        expect(message.sections[0].heading).toBeUndefined();
+    });
+});
+
+interface TestAirportInfo extends BaseAirportInfo {
+    name: string;
+    period: string;
+}
+
+const testPage: SpecialHandlingPage<TestAirportInfo> = {
+    id: "test",
+    name: "Test",
+    url: "https://example.com/special",
+    defaultIcon: ":airplane:",
+    defaultUsername: "運航情報",
+    messages: {
+        ja: { title: "対象空港", normalMessage: "現在、対象となる空港はありません。" },
+        en: { title: "Airports", normalMessage: "There are currently no airports." },
+    },
+    updateTimeSelector: ".updated",
+    structureSelector: "table",
+    readAirports: $ =>
+        $("tr")
+            .toArray()
+            .map(row => {
+                const $cells = $(row).find("td");
+                return {
+                    region: $cells.eq(0).text(),
+                    airport: { name: $cells.eq(1).text(), period: $cells.eq(2).text() },
+                };
+            }),
+    findIssues: () => [],
+    dateText: airport => airport.period,
+    summarize: airport => airport.period,
+    describeAirport: airport => [["対象期間", airport.period]],
+};
+
+describe("createSpecialHandlingProvider", () => {
+    const provider = createSpecialHandlingProvider(testPage);
+
+    beforeAll(() => {
+        setSystemTime(new Date("2025-02-05T10:00:00+09:00"));
+    });
+
+    afterAll(() => {
+        setSystemTime();
+    });
+
+    test("groups airports by region and resolves them", () => {
+        const html = `<table>
+            <tr><td>北海道</td><td>旭川</td><td>2月5日</td></tr>
+            <tr><td>沖縄</td><td>那覇</td><td>2月6日～2月7日</td></tr>
+            <tr><td>北海道</td><td>函館</td><td>未定</td></tr>
+        </table>`;
+
+        expect(provider.parseIrregularFlights(html)).toEqual([
+            {
+                region: "北海道",
+                airports: [
+                    {
+                        name: "旭川",
+                        period: "2月5日",
+                        range: { start: "2025-02-05", end: "2025-02-05" },
+                        resolved: expect.objectContaining({ iata: "AKJ" }),
+                    },
+                    // 日付を読み取れない場合はrangeを付けない
+                    { name: "函館", period: "未定", resolved: expect.objectContaining({ iata: "HKD" }) },
+                ],
+            },
+            {
+                region: "沖縄",
+                airports: [
+                    {
+                        name: "那覇",
+                        period: "2月6日～2月7日",
+                        range: { start: "2025-02-06", end: "2025-02-07" },
+                        resolved: expect.objectContaining({ iata: "OKA" }),
+                    },
+                ],
+            },
+        ]);
+    });
+
+    test("detects the normal message without the trailing period", () => {
+        expect(provider.hasIrregularFlights("<p>現在、対象となる空港はありません</p>")).toBe(false);
+    });
+});
+
+describe("findUnexpectedColumns", () => {
+    test("reports each unexpected column count once", () => {
+        const $ = cheerio.load(
+            "<table><tr><th>空港</th></tr><tr><td>a</td><td>b</td></tr><tr><td>a</td></tr><tr><td>a</td></tr></table>",
+        );
+
+        expect(findUnexpectedColumns($, "tr", [2])).toEqual(["想定外の列数の行があります (1列)"]);
+        expect(findUnexpectedColumns($, "tr", [1, 2])).toEqual([]);
+    });
+});
@@ -0,0 +1,160 @@
+import * as cheerio from "cheerio";
+import type { CheerioAPI } from "cheerio";
+import { withResolvedAirport } from "./airports";
+import { parseDateRange } from "./date_range";
+import { type FlightInfoDiff, formatDiffSections, formatStatusSections } from "./diff";
+import { fetchHTML } from "./http_client";
+import type { Locale } from "./locale";
+import type { NotificationMessage } from "./notification";
+import { type PageInspection, fingerprintStructure } from "./page_check";
+import type { AirlineProvider } from "./provider";
+import type { BaseAirportInfo } from "./state_manager";
+import { createAirlineStateManager } from "./state_store";
+
+export interface SpecialHandlingFlightInfo<A extends BaseAirportInfo> {
+    region: string;
+    airports: A[];
+}
+
+/** ページから読み取った空港。対象期間の日付と空港の解決は共通の処理で行う */
+export type RawAirportInfo<A extends BaseAirportInfo> = Omit<A, "resolved" | "range">;
+
+/**
+ * 特別な取り扱いの対象空港を地域ごとに掲載するページの定義
+ */
+export interface SpecialHandlingPage<A extends BaseAirportInfo> {
+    id: string;
+    name: string;
+    url: string;
+    defaultIcon: string;
+    defaultUsername: string;
+    messages: Record<Locale, { title: string; normalMessage: string }>;
+    /** 更新日時の要素 */
+    updateTimeSelector: string;
+    /** 構造の変化を検出する要素 */
+    structureSelector: string;
+    /** 地域と空港を掲載順に読み取る。同じ地域の空港はまとめる */
+    readAirports: ($: CheerioAPI) => { region: string; airport: RawAirportInfo<A> }[];
+    /** 読み取れない行などの問題を探す */
+    findIssues: ($: CheerioAPI) => string[];
+    /** 対象期間の日付の解析に使う文字列 */
+    dateText: (airport: RawAirportInfo<A>) => string;
+    /** 通知に表示する空港名以外の情報 */
+    summarize: (airport: A) => string;
+    describeAirport: (airport: A) => [string, string][];
+}
+
+/**
+ * テーブルの行のうち、想定外の列数のものを問題として返す
+ */
+export const findUnexpectedColumns = ($: CheerioAPI, rowSelector: string, columnCounts: number[]): string[] => {
+    const unexpected = new Set(
+        $(rowSelector)
+            .toArray()
+            .map(row => $(row).find("td").length)
+            .filter(count => count > 0 && !columnCounts.includes(count)),
+    );
+    return unexpected.size > 0 ? [`想定外の列数の行があります (${[...unexpected].join(", ")}列)`] : [];
+};
+
+/**
+ * 特別な取り扱いの対象空港のページを確認する航空会社を作る
+ */
+export const createSpecialHandlingProvider = <A extends BaseAirportInfo>(
+    page: SpecialHandlingPage<A>,
+): AirlineProvider<SpecialHandlingFlightInfo<A>> => {
+    const stateFileName = `${page.id}.json`;
+    const stateManager = createAirlineStateManager<SpecialHandlingFlightInfo<A>>(page.id, stateFileName);
+
+    const hasIrregularFlights = (html: string): boolean => {
+        const $ = cheerio.load(html);
+        // 通常運航時のメッセージを探す
+        const normalMessage = page.messages.ja.normalMessage.replace(/。$/, "");
+        return $(`p:contains("${normalMessage}")`).length === 0;
+    };
+
+    const parseIrregularFlights = (html: string): SpecialHandlingFlightInfo<A>[] => {
+        const flightInfos: SpecialHandlingFlightInfo<A>[] = [];
+
+        for (const { region, airport } of page.readAirports(cheerio.load(html))) {
+            let regionInfo = flightInfos.find(info => info.region === region);
+            if (!regionInfo) {
+                regionInfo = { region, airports: [] };
+                flightInfos.push(regionInfo);
+            }
+
+            const range = parseDateRange(page.dateText(airport));
+            regionInfo.airports.push(withResolvedAirport({ ...airport, ...(range ? { range } : {}) } as A));
+        }
+
+        return flightInfos;
+    };
+
+    const getUpdateTime = (html: string): string => {
+        const $ = cheerio.load(html);
+        const timeText = $(page.updateTimeSelector).first().text().trim();
+        return timeText || new Date().toLocaleString("ja-JP", { timeZone: "Asia/Tokyo" });
+    };
+
+    const inspectPage = (html: string): PageInspection => {
+        const $ = cheerio.load(html);
+        const issues: string[] = [];
+
+        if ($(page.updateTimeSelector).first().text().trim() === "") {
+            issues.push(`更新日時 (${page.updateTimeSelector}) が見つかりません`);
+        }
+        issues.push(...page.findIssues($));
+
+        return {
+            issues,
+            fingerprint: fingerprintStructure($, `${page.structureSelector}, ${page.updateTimeSelector}`),
+        };
+    };
+
+    const formatMessage = (
+        flightInfos: SpecialHandlingFlightInfo<A>[],
+        updateTime: string,
+        withMention = true,
+        diff?: FlightInfoDiff<A>,
+        locale: Locale = "ja",
+    ): NotificationMessage => {
+        // 終了した空港は表示せず、本日対象と今後に分けて表示する
+        const sections = formatStatusSections(flightInfos, page.summarize, page.messages[locale].normalMessage, locale);
+
+        return {
+            airline: page.name,
+            title: page.messages[locale].title,
+            url: page.url,
+            mention: withMention,
+            // 前回からの変更点
+            changes: diff ? formatDiffSections(diff, page.summarize, locale) : [],
+            sections,
+            footer: updateTime,
+        };
+    };
+
+    const fetchFlightInfo = async (): Promise<string> => {
+        return await fetchHTML(page.url);
+    };
+
+    return {
+        id: page.id,
+        name: page.name,
+        url: page.url,
+        stateFileName,
+        defaultIcon: page.defaultIcon,
+        defaultUsername: page.defaultUsername,
+        hasIrregularFlights,
+        parseIrregularFlights,
+        getUpdateTime,
+        inspectPage,
+        describeAirport: page.describeAirport,
+        formatMessage,
+        loadState: stateManager.loadState,
+        saveState: stateManager.saveState,
+        withLock: stateManager.withLock,
+        diffState: stateManager.diffState,
+        hasStateChanged: stateManager.hasStateChanged,
+        fetchFlightInfo,
+    };
+};
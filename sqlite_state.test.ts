@@ -0,0 +1,139 @@
+import { Database } from "bun:sqlite";
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { createAnaService } from "./ana";
+import { closeStateDatabases, createSqliteStateManager, importJsonStates, openStateDatabase } from "./sqlite_state";
+import type { BaseFlightInfo } from "./state_manager";
+
+const state = {
+    lastCheck: "2025-02-05T01:00:00.000Z",
+    updateTime: "2025年2月5日 10:00",
+    flightInfos: [{ region: "沖縄", airports: [{ name: "沖縄(那覇)", period: "2月8日" }] }],
+};
+
+describe("createSqliteStateManager", () => {
+    let directory: string;
+    const databasePath = () => path.join(directory, "db", "state.sqlite");
+
+    beforeEach(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), "sqlite-state-"));
+    });
+
+    afterEach(async () => {
+        closeStateDatabases();
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    test("loads the latest check and keeps each airline separate", async () => {
+        const ana = createSqliteStateManager<BaseFlightInfo>("ana", databasePath());
+        const jal = createSqliteStateManager<BaseFlightInfo>("jal", databasePath());
+        expect(await ana.loadState()).toBeNull();
+
+        await ana.saveState(state);
+        await ana.saveState({ ...state, lastCheck: "2025-02-05T02:00:00.000Z" });
+
+        expect(await ana.loadState()).toEqual({ ...state, lastCheck: "2025-02-05T02:00:00.000Z" });
+        expect(await jal.loadState()).toBeNull();
+    });
+
+    test("records every check but stores unchanged flight infos once", async () => {
+        const manager = createSqliteStateManager<BaseFlightInfo>("ana", databasePath());
+
+        await manager.saveState(state);
+        await manager.saveState({ ...state, lastCheck: "2025-02-05T02:00:00.000Z" });
+        await manager.saveState({ ...state, lastCheck: "2025-02-05T03:00:00.000Z", flightInfos: [] });
+
+        const db = openStateDatabase(databasePath());
+        const count = (table: string) =>
+            (db.query(`SELECT COUNT(*) AS count FROM ${table}`).get() as { count: number }).count;
+        expect(count("checks")).toBe(3);
+        expect(count("snapshots")).toBe(2);
+        expect(db.query("SELECT region, name FROM airport_entries").all()).toEqual([
+            { region: "沖縄", name: "沖縄(那覇)" },
+        ]);
+    });
+
+    test("removes checks older than the retention period but keeps the latest check", async () => {
+        const manager = createSqliteStateManager<BaseFlightInfo>("ana", databasePath(), 7);
+        const jal = createSqliteStateManager<BaseFlightInfo>("jal", databasePath(), 7);
+
+        await jal.saveState(state);
+        await manager.saveState(state);
+        await manager.saveState({ ...state, lastCheck: "2025-02-10T01:00:00.000Z" });
+        await manager.saveState({ ...state, lastCheck: "2025-02-20T01:00:00.000Z" });
+
+        const db = openStateDatabase(databasePath());
+        expect(db.query("SELECT airline, checked_at FROM checks ORDER BY id").all()).toEqual([
+            { airline: "jal", checked_at: "2025-02-05T01:00:00.000Z" },
+            { airline: "ana", checked_at: "2025-02-20T01:00:00.000Z" },
+        ]);
+        // 解析結果は変更の履歴として残す
+        expect((db.query("SELECT COUNT(*) AS count FROM snapshots").get() as { count: number }).count).toBe(2);
+        expect(await manager.loadState()).toEqual({ ...state, lastCheck: "2025-02-20T01:00:00.000Z" });
+    });
+
+    test("loads read-only without creating or migrating the database", async () => {
+        const manager = createSqliteStateManager<BaseFlightInfo>("ana", databasePath());
+        expect(await manager.loadState({ readOnly: true })).toBeNull();
+        expect(await fs.exists(databasePath())).toBe(false);
+
+        await manager.saveState(state);
+        closeStateDatabases();
+        expect(await manager.loadState({ readOnly: true })).toEqual(state);
+
+        // 対応していない形式のデータベースは変更せずにエラーにする
+        const db = openStateDatabase(databasePath());
+        db.exec("PRAGMA user_version = 100");
+        closeStateDatabases();
+        await expect(manager.loadState({ readOnly: true })).rejects.toThrow("only versions up to");
+        const readOnly = new Database(databasePath(), { readonly: true });
+        expect(readOnly.query("PRAGMA user_version").get()).toEqual({ user_version: 100 });
+        readOnly.close();
+    });
+
+    test("refuses a database created by a newer version", async () => {
+        const db = openStateDatabase(databasePath());
+        db.exec("PRAGMA user_version = 100");
+        closeStateDatabases();
+
+        expect(() => openStateDatabase(databasePath())).toThrow("only versions up to");
+    });
+});
+
+describe("importJsonStates", () => {
+    let directory: string;
+    const databasePath = () => path.join(directory, "state.sqlite");
+
+    beforeEach(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), "sqlite-import-"));
+    });
+
+    afterEach(async () => {
+        closeStateDatabases();
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    test("imports JSON states and does not overwrite existing ones without force", async () => {
+        const provider = createAnaService();
+        // schemaVersionがない古い形式のファイル
+        await fs.writeFile(path.join(directory, provider.stateFileName), JSON.stringify(state));
+
+        expect(await importJsonStates([provider], databasePath(), { directory })).toEqual({ ana: "imported" });
+        expect(await importJsonStates([provider], databasePath(), { directory })).toEqual({ ana: "exists" });
+        expect(await importJsonStates([provider], databasePath(), { directory, force: true })).toEqual({
+            ana: "imported",
+        });
+
+        // 状態の変換 (空港の解決) はJSONを読み込む時点で済ませる
+        const imported = await createSqliteStateManager<BaseFlightInfo>("ana", databasePath()).loadState();
+        expect(imported?.flightInfos[0].airports[0]).toMatchObject({ resolved: { iata: "OKA" } });
+    });
+
+    test("skips airlines without a JSON state", async () => {
+        expect(await importJsonStates([createAnaService()], databasePath(), { directory })).toEqual({
+            ana: "missing",
+        });
+    });
+});
@@ -0,0 +1,285 @@
+import { Database } from "bun:sqlite";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { withFileLock } from "./file_store";
+import { hashContent } from "./hash";
+import type { AirlineProvider } from "./provider";
+import {
+    type BaseFlightInfo,
+    type BaseState,
+    type LoadStateOptions,
+    type StateManager,
+    createStateManager,
+    diffState,
+    hasStateChanged,
+    migrateState,
+    stateSchemaVersion,
+} from "./state_manager";
+
+/**
+ * データベースの形式を1つ新しいバージョンにするSQL。バージョンは `PRAGMA user_version` に保存する
+ */
+const schemaMigrations = [
+    // バージョン1: 確認の履歴、解析結果のスナップショット、スナップショットごとの空港
+    `
+    CREATE TABLE snapshots (
+        id INTEGER PRIMARY KEY,
+        airline TEXT NOT NULL,
+        hash TEXT NOT NULL,
+        flight_infos TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        UNIQUE (airline, hash)
+    );
+    CREATE TABLE airport_entries (
+        snapshot_id INTEGER NOT NULL REFERENCES snapshots (id),
+        region TEXT NOT NULL,
+        name TEXT NOT NULL,
+        iata TEXT,
+        start_date TEXT,
+        end_date TEXT,
+        info TEXT NOT NULL
+    );
+    CREATE INDEX airport_entries_snapshot ON airport_entries (snapshot_id);
+    CREATE INDEX airport_entries_iata ON airport_entries (iata);
+    CREATE TABLE checks (
+        id INTEGER PRIMARY KEY,
+        airline TEXT NOT NULL,
+        checked_at TEXT NOT NULL,
+        update_time TEXT,
+        snapshot_id INTEGER NOT NULL REFERENCES snapshots (id),
+        state TEXT NOT NULL
+    );
+    CREATE INDEX checks_airline ON checks (airline, id);
+    `,
+];
+
+const databases = new Map<string, Database>();
+
+const getSchemaVersion = (db: Database): number =>
+    (db.query("PRAGMA user_version").get() as { user_version: number }).user_version;
+
+/**
+ * データベースを開き、形式を最新のバージョンにする。同じファイルは同じ接続を使う
+ */
+export const openStateDatabase = (databasePath: string): Database => {
+    const opened = databases.get(databasePath);
+    if (opened) {
+        return opened;
+    }
+
+    fs.mkdirSync(path.dirname(databasePath), { recursive: true });
+    const db = new Database(databasePath, { create: true });
+    // 複数のプロセスから読み書きする間は書き込みを待つ
+    db.exec("PRAGMA journal_mode = WAL; PRAGMA busy_timeout = 5000; PRAGMA foreign_keys = ON");
+
+    const version = getSchemaVersion(db);
+    if (version > schemaMigrations.length) {
+        db.close();
+        throw new Error(
+            `State database ${databasePath} has schema version ${version}, but only versions up to ${schemaMigrations.length} are supported`,
+        );
+    }
+
+    db.transaction(() => {
+        for (let current = version; current < schemaMigrations.length; current++) {
+            db.exec(schemaMigrations[current]);
+        }
+        db.exec(`PRAGMA user_version = ${schemaMigrations.length}`);
+    })();
+
+    databases.set(databasePath, db);
+    return db;
+};
+
+/**
+ * 開いているデータベースを閉じる
+ */
+export const closeStateDatabases = (): void => {
+    for (const db of databases.values()) {
+        db.close();
+    }
+    databases.clear();
+};
+
+interface LatestCheckRow {
+    state: string;
+    flight_infos: string;
+}
+
+/**
+ * 航空会社ごとの状態をSQLiteに保存する
+ *
+ * 確認するたびに履歴を追加し、解析結果は内容が変わった場合のみスナップショットとして追加する。
+ * 確認の履歴は `retentionDays` 日より古いものを削除する。解析結果は変更の履歴として残す
+ *
+ * @param retentionDays 確認の履歴を残す日数
+ */
+export const createSqliteStateManager = <T extends BaseFlightInfo>(
+    airlineId: string,
+    databasePath: string,
+    retentionDays = 90,
+): StateManager<T> => {
+    const readLatestState = (db: Database): BaseState<T> | null => {
+        const row = db
+            .query(
+                `SELECT checks.state, snapshots.flight_infos FROM checks
+                JOIN snapshots ON snapshots.id = checks.snapshot_id
+                WHERE checks.airline = ? ORDER BY checks.id DESC LIMIT 1`,
+            )
+            .get(airlineId) as LatestCheckRow | null;
+
+        // 初回の実行
+        if (!row) {
+            return null;
+        }
+
+        const { schemaVersion, ...state } = JSON.parse(row.state);
+        return migrateState<T>(
+            { ...state, flightInfos: JSON.parse(row.flight_infos) },
+            schemaVersion ?? 0,
+            `State of ${airlineId} in ${databasePath}`,
+        );
+    };
+
+    /**
+     * 形式の更新や設定の変更をせずにデータベースを読み込む。形式が最新でない場合はエラーにする
+     */
+    const readOnlyLatestState = (): BaseState<T> | null => {
+        const db = new Database(databasePath, { readonly: true });
+        try {
+            const version = getSchemaVersion(db);
+            // テーブルがまだ作成されていない
+            if (version === 0) {
+                return null;
+            }
+            if (version > schemaMigrations.length) {
+                throw new Error(
+                    `State database ${databasePath} has schema version ${version}, but only versions up to ${schemaMigrations.length} are supported`,
+                );
+            }
+            if (version < schemaMigrations.length) {
+                throw new Error(
+                    `State database ${databasePath} has schema version ${version}, but version ${schemaMigrations.length} is required; run a check without --dry-run to migrate it`,
+                );
+            }
+            return readLatestState(db);
+        } finally {
+            db.close();
+        }
+    };
+
+    const loadState = async ({ readOnly = false }: LoadStateOptions = {}): Promise<BaseState<T> | null> => {
+        // 読み込むだけの場合はデータベースを作成しない
+        if (!databases.has(databasePath) && !fs.existsSync(databasePath)) {
+            return null;
+        }
+
+        // 開いている接続は形式を更新済み
+        if (readOnly && !databases.has(databasePath)) {
+            return readOnlyLatestState();
+        }
+
+        return readLatestState(openStateDatabase(databasePath));
+    };
+
+    const saveState = async (state: BaseState<T>): Promise<void> => {
+        const db = openStateDatabase(databasePath);
+        const { flightInfos, ...rest } = state;
+        const data = JSON.stringify(flightInfos);
+        const hash = hashContent(data);
+
+        db.transaction(() => {
+            const inserted = db
+                .query("INSERT OR IGNORE INTO snapshots (airline, hash, flight_infos, created_at) VALUES (?, ?, ?, ?)")
+                .run(airlineId, hash, data, state.lastCheck);
+            const { id: snapshotId } = db
+                .query("SELECT id FROM snapshots WHERE airline = ? AND hash = ?")
+                .get(airlineId, hash) as { id: number };
+
+            // 空港ごとの行は新しいスナップショットの場合のみ追加する
+            if (inserted.changes > 0) {
+                const insertAirport = db.query(
+                    "INSERT INTO airport_entries (snapshot_id, region, name, iata, start_date, end_date, info) VALUES (?, ?, ?, ?, ?, ?, ?)",
+                );
+                for (const info of flightInfos) {
+                    for (const airport of info.airports) {
+                        insertAirport.run(
+                            snapshotId,
+                            info.region,
+                            airport.name,
+                            airport.resolved?.iata ?? null,
+                            airport.range?.start ?? null,
+                            airport.range?.end ?? null,
+                            JSON.stringify(airport),
+                        );
+                    }
+                }
+            }
+
+            db.query(
+                "INSERT INTO checks (airline, checked_at, update_time, snapshot_id, state) VALUES (?, ?, ?, ?, ?)",
+            ).run(
+                airlineId,
+                state.lastCheck,
+                state.updateTime ?? null,
+                snapshotId,
+                JSON.stringify({ schemaVersion: stateSchemaVersion, ...rest }),
+            );
+
+            // 古い確認の履歴を削除する。最新の確認は状態の読み込みに使うため残す
+            const cutoff = new Date(Date.parse(state.lastCheck) - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+            db.query(
+                `DELETE FROM checks WHERE airline = ? AND checked_at < ?
+                AND id < (SELECT MAX(id) FROM checks WHERE airline = ?)`,
+            ).run(airlineId, cutoff, airlineId);
+        })();
+    };
+
+    // データベースのロックはトランザクションの間のみのため、実行全体のロックはファイルで取る
+    const withLock = <R>(fn: () => Promise<R>): Promise<R> => withFileLock(`${databasePath}.${airlineId}.lock`, fn);
+
+    return {
+        loadState,
+        saveState,
+        withLock,
+        diffState,
+        hasStateChanged,
+    };
+};
+
+export type ImportResult = "imported" | "exists" | "missing";
+
+/**
+ * `storage/*.json` に保存されている状態をSQLiteに取り込む
+ *
+ * すでにSQLiteに状態がある航空会社は、上書きしないよう `force` を指定しない限り取り込まない
+ *
+ * @param directory JSONの状態を保存しているディレクトリ
+ */
+export const importJsonStates = async (
+    providers: AirlineProvider[],
+    databasePath: string,
+    { directory = "storage", force = false }: { directory?: string; force?: boolean } = {},
+): Promise<Record<string, ImportResult>> => {
+    const results: Record<string, ImportResult> = {};
+
+    for (const provider of providers) {
+        const source = createStateManager(provider.stateFileName, directory);
+        const target = createSqliteStateManager(provider.id, databasePath);
+
+        results[provider.id] = await target.withLock(async () => {
+            const state = await source.loadState({ readOnly: true });
+            if (!state) {
+                return "missing";
+            }
+            if (!force && (await target.loadState())) {
+                return "exists";
+            }
+
+            await target.saveState(state);
+            return "imported";
+        });
+    }
+
+    return results;
+};
@@ -0,0 +1,56 @@
+import { afterAll, beforeAll, describe, expect, setSystemTime, test } from "bun:test";
+import * as fs from "node:fs";
+import { createStarflyerService } from "./starflyer";
+
+const irregularHTML = fs.readFileSync("fixtures/starflyer/irregular.html", "utf-8");
+
+describe("StarFlyer", () => {
+    const starflyer = createStarflyerService();
+
+    beforeAll(() => {
+        setSystemTime(new Date("2025-02-05T10:00:00+09:00"));
+    });
+
+    afterAll(() => {
+        setSystemTime();
+    });
+
+    test("inspectPage", () => {
+        expect(starflyer.inspectPage(irregularHTML.replace("<td>福岡</td>", "")).issues).toEqual([
+            "想定外の列数の行があります (1列)",
+        ]);
+    });
+
+    test("parseIrregularFlights carries the region across rowspan rows", () => {
+        const flightInfos = starflyer.parseIrregularFlights(irregularHTML);
+
+        expect(flightInfos.map(info => info.region)).toEqual(["九州", "関東"]);
+        expect(flightInfos[0].airports).toEqual([
+            {
+                name: "北九州",
+                period: "2月5日～2月6日",
+                range: { start: "2025-02-05", end: "2025-02-06" },
+                resolved: { iata: "KKJ", icao: "RJFR", nameJa: "北九州", nameEn: "Kitakyushu" },
+            },
+            {
+                name: "福岡",
+                period: "2月6日",
+                range: { start: "2025-02-06", end: "2025-02-06" },
+                resolved: { iata: "FUK", icao: "RJFF", nameJa: "福岡", nameEn: "Fukuoka" },
+            },
+        ]);
+        expect(flightInfos[1].airports[0].resolved?.iata).toBe("HND");
+    });
+
+    test("formatMessage", () => {
+        const flightInfos = starflyer.parseIrregularFlights(irregularHTML);
+        const message = starflyer.formatMessage(flightInfos, starflyer.getUpdateTime(irregularHTML));
+
+        expect(message.airline).toBe("StarFlyer");
+        expect(message.sections).toEqual([
+            { heading: "本日対象 / 九州", lines: ["北九州: 2月5日～2月6日"] },
+            { heading: "今後 / 九州", lines: ["福岡: 2月6日"] },
+            { heading: "今後 / 関東", lines: ["東京(羽田): 2月7日"] },
+        ]);
+    });
+});
@@ -0,0 +1,64 @@
+import type { AirlineProvider } from "./provider";
+import {
+    type SpecialHandlingFlightInfo,
+    createSpecialHandlingProvider,
+    findUnexpectedColumns,
+} from "./special_handling";
+import type { BaseAirportInfo } from "./state_manager";
+
+const STARFLYER_URL = "https://www.starflyer.jp/information/special.html";
+
+export interface StarflyerAirportInfo extends BaseAirportInfo {
+    name: string;
+    period: string;
+}
+
+export type StarflyerFlightInfo = SpecialHandlingFlightInfo<StarflyerAirportInfo>;
+
+export type StarflyerService = AirlineProvider<StarflyerFlightInfo>;
+
+export const createStarflyerService = (): StarflyerService =>
+    createSpecialHandlingProvider<StarflyerAirportInfo>({
+        id: "starflyer",
+        name: "StarFlyer",
+        url: STARFLYER_URL,
+        defaultIcon: ":starflyer:",
+        defaultUsername: "スターフライヤー運航情報",
+        messages: {
+            ja: {
+                title: "特別対応の対象空港",
+                normalMessage: "現在、特別対応の対象となる空港はございません。",
+            },
+            en: {
+                title: "Airports subject to special handling",
+                normalMessage: "There are currently no airports subject to special handling.",
+            },
+        },
+        updateTimeSelector: ".update-time",
+        structureSelector: "table.special-table",
+        readAirports: $ => {
+            let currentRegion = "";
+
+            return $("table.special-table tbody tr")
+                .toArray()
+                .flatMap(row => {
+                    const $cells = $(row).find("td");
+
+                    // 地域名のセルはrowspanで複数の行にまたがるため、2列の行は前の行の地域とする
+                    if ($cells.length === 3) {
+                        currentRegion = $cells.eq(0).text().trim();
+                    } else if ($cells.length !== 2) {
+                        return [];
+                    }
+
+                    const name = $cells.eq(-2).text().trim();
+                    const period = $cells.eq(-1).text().trim().replace(/\s+/g, " ");
+                    return name && period ? [{ region: currentRegion, airport: { name, period } }] : [];
+                });
+        },
+        // 地域名、空港名、対象期間の3列か、地域名を省略した2列以外の行は読み取れない
+        findIssues: $ => findUnexpectedColumns($, "table.special-table tbody tr", [2, 3]),
+        dateText: airport => airport.period,
+        summarize: airport => airport.period,
+        describeAirport: airport => [["対象期間", airport.period]],
+    });
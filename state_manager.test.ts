@@ -0,0 +1,184 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+    CorruptStateError,
+    type StateManager,
+    createStateManager,
+    diffState,
+    hasStateChanged,
+    migrateState,
+    stateSchemaVersion,
+} from "./state_manager";
+
+interface TestFlightInfo {
+    region: string;
+    airports: { name: string; period: string }[];
+}
+
+const state = {
+    lastCheck: "2025-02-05T01:00:00.000Z",
+    flightInfos: [{ region: "沖縄", airports: [{ name: "沖縄(那覇)", period: "2月8日" }] }],
+};
+
+describe("createStateManager", () => {
+    let directory: string;
+    let manager: StateManager<TestFlightInfo>;
+    const filePath = () => path.join(directory, "state", "test.json");
+
+    beforeEach(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), "state-"));
+        // 保存先のディレクトリがない状態から始める
+        manager = createStateManager<TestFlightInfo>("test.json", path.join(directory, "state"));
+    });
+
+    afterEach(async () => {
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    test("saves with the schema version and creates the directory", async () => {
+        expect(await manager.loadState()).toBeNull();
+
+        await manager.saveState(state);
+
+        expect(JSON.parse(await fs.readFile(filePath(), "utf-8")).schemaVersion).toBe(stateSchemaVersion);
+        expect(await manager.loadState()).toEqual(state);
+        // 一時ファイルは残さない
+        expect(await fs.readdir(path.dirname(filePath()))).toEqual(["test.json"]);
+    });
+
+    test("migrates states saved without a schema version", async () => {
+        await fs.mkdir(path.dirname(filePath()), { recursive: true });
+        await fs.writeFile(filePath(), JSON.stringify(state));
+
+        const loaded = await manager.loadState();
+
+        expect(loaded?.flightInfos[0].airports[0]).toMatchObject({ name: "沖縄(那覇)", resolved: { iata: "OKA" } });
+    });
+
+    test("quarantines a corrupt file instead of treating it as the first run", async () => {
+        await fs.mkdir(path.dirname(filePath()), { recursive: true });
+        await fs.writeFile(filePath(), '{"lastCheck": "2025-02-05T01:00:00.000Z", "flightInf');
+
+        const error = await manager.loadState().catch(error => error);
+
+        expect(error).toBeInstanceOf(CorruptStateError);
+        expect(error.message).toContain("invalid JSON");
+        const files = await fs.readdir(path.dirname(filePath()));
+        expect(files).toHaveLength(1);
+        expect(files[0]).toStartWith("test.json.corrupt-");
+        // 退避した後は初回の実行として扱う
+        expect(await manager.loadState()).toBeNull();
+    });
+
+    test("reports a corrupt file without moving it when loading read-only", async () => {
+        await fs.mkdir(path.dirname(filePath()), { recursive: true });
+        await fs.writeFile(filePath(), "[]");
+
+        const error = await manager.loadState({ readOnly: true }).catch(error => error);
+
+        expect(error).toBeInstanceOf(CorruptStateError);
+        expect(error.quarantinePath).toBeUndefined();
+        expect(await fs.readdir(path.dirname(filePath()))).toEqual(["test.json"]);
+    });
+
+    test("refuses states saved by a newer version", async () => {
+        await fs.mkdir(path.dirname(filePath()), { recursive: true });
+        await fs.writeFile(filePath(), JSON.stringify({ ...state, schemaVersion: stateSchemaVersion + 1 }));
+
+        await expect(manager.loadState()).rejects.toThrow("only versions up to");
+        // 上書きや退避はしない
+        expect(await fs.readdir(path.dirname(filePath()))).toEqual(["test.json"]);
+    });
+
+    test("withLock runs overlapping calls one at a time", async () => {
+        const events: string[] = [];
+        const run = (name: string) =>
+            manager.withLock(async () => {
+                events.push(`${name}:start`);
+                await new Promise(resolve => setTimeout(resolve, 50));
+                events.push(`${name}:end`);
+            });
+
+        await Promise.all([run("a"), run("b")]);
+
+        // どちらが先にロックを取得するかは決まらない
+        expect([
+            ["a:start", "a:end", "b:start", "b:end"],
+            ["b:start", "b:end", "a:start", "a:end"],
+        ]).toContainEqual(events);
+        expect(await fs.readdir(path.dirname(filePath()))).toEqual([]);
+    });
+
+    test("withLock removes a lock left by a process that has exited", async () => {
+        await fs.mkdir(path.dirname(filePath()), { recursive: true });
+        const exited = Bun.spawnSync(["true"]).pid;
+        await fs.writeFile(
+            `${filePath()}.lock`,
+            JSON.stringify({ pid: exited, hostname: os.hostname(), createdAt: new Date().toISOString() }),
+        );
+
+        expect(await manager.withLock(async () => "done")).toBe("done");
+    });
+
+    test("withLock does not remove a lock taken over by another call", async () => {
+        await fs.mkdir(path.dirname(filePath()), { recursive: true });
+        const exited = Bun.spawnSync(["true"]).pid;
+        await fs.writeFile(
+            `${filePath()}.lock`,
+            JSON.stringify({ pid: exited, hostname: os.hostname(), createdAt: new Date().toISOString() }),
+        );
+
+        // 両方が残ったロックを見つけても、先に取り直した方のロックは削除しない
+        const events: string[] = [];
+        const run = (name: string) =>
+            manager.withLock(async () => {
+                events.push(`${name}:start`);
+                await new Promise(resolve => setTimeout(resolve, 50));
+                events.push(`${name}:end`);
+            });
+
+        await Promise.all([run("a"), run("b")]);
+
+        // どちらが先にロックを取得するかは決まらない
+        expect([
+            ["a:start", "a:end", "b:start", "b:end"],
+            ["b:start", "b:end", "a:start", "a:end"],
+        ]).toContainEqual(events);
+    });
+});
+
+describe("diffState", () => {
+    const okinawa = (periods: string[]): TestFlightInfo[] => [
+        { region: "沖縄", airports: periods.map(period => ({ name: "沖縄(那覇)", period })) },
+    ];
+
+    test("keeps rows of the same airport in the same region separate", () => {
+        const oldState = { lastCheck: "", flightInfos: okinawa(["2月8日", "2月9日"]) };
+
+        expect(diffState(oldState, okinawa(["2月8日", "2月10日"])).changed).toEqual([
+            {
+                region: "沖縄",
+                before: { name: "沖縄(那覇)", period: "2月9日" },
+                after: { name: "沖縄(那覇)", period: "2月10日" },
+                fields: ["period"],
+            },
+        ]);
+        expect(diffState(oldState, okinawa(["2月8日"])).removed).toEqual([
+            { region: "沖縄", airport: { name: "沖縄(那覇)", period: "2月9日" } },
+        ]);
+        expect(hasStateChanged(oldState, okinawa(["2月8日", "2月9日"]))).toBe(false);
+    });
+});
+
+describe("migrateState", () => {
+    test("rejects a state without lastCheck or flightInfos", () => {
+        expect(() =>
+            migrateState({ schemaVersion: stateSchemaVersion, flightInfos: [] }, stateSchemaVersion, "State"),
+        ).toThrow("State is missing lastCheck or flightInfos");
+        expect(migrateState({ schemaVersion: stateSchemaVersion, ...state }, stateSchemaVersion, "State")).toEqual(
+            state,
+        );
+    });
+});
@@ -1,8 +1,19 @@
 import * as fs from "node:fs/promises";
 import * as path from "node:path";
+import { type Airport, withResolvedAirport } from "./airports";
+import type { DateRange } from "./date_range";
+import { type AirportInfoOf, type FlightInfoDiff, diffFlightInfos, isEmptyDiff } from "./diff";
+import { withFileLock, writeFileAtomic } from "./file_store";
+import { logger } from "./logger";
+import type { NotificationThread } from "./notification";
+import type { PageMode } from "./page_check";
 
 export interface BaseAirportInfo {
     name: string;
+    /** 空港辞書で解決した空港。辞書にない空港ではundefined */
+    resolved?: Airport;
+    /** 期間の文字列から求めた開始日と終了日。日付が読み取れない場合はundefined */
+    range?: DateRange;
 }
 
 export interface BaseFlightInfo {
@@ -10,54 +21,211 @@ export interface BaseFlightInfo {
     airports: BaseAirportInfo[];
 }
 
+/**
+ * 運航情報ページの最後の取得結果
+ */
+export interface FetchStatus {
+    at: string;
+    ok: boolean;
+    /** 取得に失敗した場合のエラーメッセージ */
+    error?: string;
+}
+
 export interface BaseState<T extends BaseFlightInfo> {
     lastCheck: string;
     flightInfos: T[];
+    /** ページに記載された更新日時 */
+    updateTime?: string;
+    lastFetch?: FetchStatus;
+    /** 最後に確認が最後まで成功した日時。取得の失敗、ページの構造の異常、通知の失敗では更新しない */
+    lastSuccess?: string;
+    /** 最後に解析したページのSHA-256。ページが変わっていない場合は解析を省略する */
+    pageHash?: string;
+    /** 現在続いている特別な取り扱いについて通知先ごとに最初に送信したメッセージ */
+    threads?: Record<string, NotificationThread>;
+    /** 最後に正常に解析できたページの構造のハッシュ */
+    pageFingerprints?: Partial<Record<PageMode, string>>;
+    /** ページの構造に問題がある間、検知した問題を保存する (同じ問題を繰り返し通知しないため) */
+    pageIssues?: string[];
+    /** 静かな時間帯のためメンションを先送りした通知先 (ルーティングのキー) */
+    deferredMentions?: string[];
+}
+
+export interface LoadStateOptions {
+    /**
+     * 保存先を変更せずに読み込む。状態を保存しない処理 (`preview` / `--dry-run`、状態API、メトリクスなど) で使う
+     *
+     * 壊れた状態は退避せず、データベースの形式も更新せずにエラーにする
+     */
+    readOnly?: boolean;
 }
 
 export interface StateManager<T extends BaseFlightInfo> {
-    loadState: () => Promise<BaseState<T> | null>;
+    /**
+     * 保存されている状態を読み込む。状態がない場合はnullを返す
+     *
+     * @throws {CorruptStateError} 状態のファイルが壊れている場合。読み込み専用でなければ壊れたファイルは退避する
+     */
+    loadState: (options?: LoadStateOptions) => Promise<BaseState<T> | null>;
     saveState: (state: BaseState<T>) => Promise<void>;
+    /** 状態のロックを取得してから処理を実行する。同じ状態を使う処理は複数のプロセスから実行しても順番に実行される */
+    withLock: <R>(fn: () => Promise<R>) => Promise<R>;
+    diffState: (oldState: BaseState<T> | null, newFlightInfos: T[]) => FlightInfoDiff<AirportInfoOf<T>>;
     hasStateChanged: (oldState: BaseState<T> | null, newFlightInfos: T[]) => boolean;
 }
 
-export const createStateManager = <T extends BaseFlightInfo>(fileName: string): StateManager<T> => {
-    const filePath = path.join("storage", fileName);
+/**
+ * 状態のファイルを読み込めなかった場合のエラー
+ */
+export class CorruptStateError extends Error {
+    constructor(
+        readonly filePath: string,
+        /** 退避したファイルのパス。読み込み専用で読み込んだ場合は退避しないためundefined */
+        readonly quarantinePath: string | undefined,
+        reason: string,
+    ) {
+        super(
+            `State file ${filePath} is corrupt (${reason}); ${quarantinePath ? `moved it to ${quarantinePath}` : "left it in place"}`,
+        );
+        this.name = "CorruptStateError";
+    }
+}
+
+/** 保存する状態の形式のバージョン。形式を変える場合は上げてmigrationsに変換を追加する */
+export const stateSchemaVersion = 1;
+
+export type StoredState = Record<string, unknown>;
+
+/**
+ * 保存されている状態を1つ新しいバージョンに変換する。キーは変換前のバージョン
+ */
+const migrations: Record<number, (state: StoredState) => StoredState> = {
+    // バージョン0 (schemaVersionがない状態): 空港辞書の追加前に保存された空港を解決する
+    0: state => ({
+        ...state,
+        flightInfos: (state.flightInfos as BaseFlightInfo[]).map(info => ({
+            ...info,
+            airports: info.airports.map(airport => (airport.resolved ? airport : withResolvedAirport(airport))),
+        })),
+    }),
+};
+
+const isObject = (value: unknown): value is StoredState =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isBaseState = <T extends BaseFlightInfo>(value: unknown): value is BaseState<T> =>
+    isObject(value) && typeof value.lastCheck === "string" && Array.isArray(value.flightInfos);
+
+/**
+ * 保存されていた状態を現在の形式に変換する
+ *
+ * @param source エラーメッセージに表示する状態の読み込み元
+ * @throws 新しいバージョンで保存された状態の場合。上書きしないようにエラーにする。変換後に必要な項目がない場合もエラーにする
+ */
+export const migrateState = <T extends BaseFlightInfo>(
+    stored: StoredState,
+    version: number,
+    source: string,
+): BaseState<T> => {
+    if (version > stateSchemaVersion) {
+        throw new Error(
+            `${source} has schema version ${version}, but only versions up to ${stateSchemaVersion} are supported`,
+        );
+    }
+
+    let state = stored;
+    for (let current = version; current < stateSchemaVersion; current++) {
+        state = migrations[current](state);
+    }
+
+    const { schemaVersion, ...rest } = state;
+    if (!isBaseState<T>(rest)) {
+        throw new Error(`${source} is missing lastCheck or flightInfos`);
+    }
+    return rest;
+};
+
+/**
+ * 前回の状態からの差分を求める。保存先によらず同じ方法で求める
+ */
+export const diffState = <T extends BaseFlightInfo>(
+    oldState: BaseState<T> | null,
+    newFlightInfos: T[],
+): FlightInfoDiff<AirportInfoOf<T>> => {
+    return diffFlightInfos(oldState?.flightInfos ?? [], newFlightInfos);
+};
+
+export const hasStateChanged = <T extends BaseFlightInfo>(
+    oldState: BaseState<T> | null,
+    newFlightInfos: T[],
+): boolean => {
+    if (!oldState) return true;
 
-    const loadState = async (): Promise<BaseState<T> | null> => {
+    return !isEmptyDiff(diffState(oldState, newFlightInfos));
+};
+
+/**
+ * @param directory 状態を保存するディレクトリ
+ */
+export const createStateManager = <T extends BaseFlightInfo>(
+    fileName: string,
+    directory = "storage",
+): StateManager<T> => {
+    const filePath = path.join(directory, fileName);
+
+    const quarantine = async (reason: string, readOnly: boolean): Promise<never> => {
+        if (readOnly) {
+            throw new CorruptStateError(filePath, undefined, reason);
+        }
+
+        const quarantinePath = `${filePath}.corrupt-${new Date().toISOString().replace(/[:.]/g, "-")}`;
+        await fs.rename(filePath, quarantinePath);
+        logger.warn("State file is corrupt", { filePath, reason, quarantinePath });
+        throw new CorruptStateError(filePath, quarantinePath, reason);
+    };
+
+    const loadState = async ({ readOnly = false }: LoadStateOptions = {}): Promise<BaseState<T> | null> => {
+        let data: string;
         try {
-            const data = await fs.readFile(filePath, "utf-8");
-            return JSON.parse(data) as BaseState<T>;
+            data = await fs.readFile(filePath, "utf-8");
         } catch (error) {
-            // ファイルが存在しない場合やJSONパースエラーの場合はnullを返す
-            return null;
+            // 初回の実行
+            if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+                return null;
+            }
+            throw error;
         }
-    };
 
-    const saveState = async (state: BaseState<T>): Promise<void> => {
-        await fs.writeFile(filePath, JSON.stringify(state, null, 2), "utf-8");
-    };
+        let stored: unknown;
+        try {
+            stored = JSON.parse(data);
+        } catch (error) {
+            return await quarantine(`invalid JSON: ${error}`, readOnly);
+        }
+
+        if (!isObject(stored) || typeof stored.lastCheck !== "string" || !Array.isArray(stored.flightInfos)) {
+            return await quarantine("missing lastCheck or flightInfos", readOnly);
+        }
 
-    const hasStateChanged = (oldState: BaseState<T> | null, newFlightInfos: T[]): boolean => {
-        if (!oldState) return true;
+        const version = stored.schemaVersion ?? 0;
+        if (typeof version !== "number" || !Number.isInteger(version) || version < 0) {
+            return await quarantine(`invalid schemaVersion: ${JSON.stringify(version)}`, readOnly);
+        }
 
-        // 運航情報を文字列にして比較
-        const stringifyAirports = (infos: T[]) =>
-            JSON.stringify(
-                infos.map(info => ({
-                    ...info,
-                    airports: info.airports.sort((a, b) => a.name.localeCompare(b.name)),
-                })),
-            );
+        return migrateState<T>(stored, version, `State file ${filePath}`);
+    };
 
-        return (
-            stringifyAirports(oldState.flightInfos) !== stringifyAirports(JSON.parse(JSON.stringify(newFlightInfos)))
-        );
+    const saveState = async (state: BaseState<T>): Promise<void> => {
+        await writeFileAtomic(filePath, JSON.stringify({ schemaVersion: stateSchemaVersion, ...state }, null, 2));
     };
 
+    const withLock = <R>(fn: () => Promise<R>): Promise<R> => withFileLock(`${filePath}.lock`, fn);
+
     return {
         loadState,
         saveState,
+        withLock,
+        diffState,
         hasStateChanged,
     };
 };
@@ -0,0 +1,42 @@
+import { getStateConfig } from "./config";
+import { createSqliteStateManager } from "./sqlite_state";
+import {
+    type BaseFlightInfo,
+    type StateManager,
+    createStateManager,
+    diffState,
+    hasStateChanged,
+} from "./state_manager";
+
+/**
+ * 設定された保存先 (`STATE_BACKEND`) に航空会社の状態を保存する
+ *
+ * CLIで指定された設定ファイルを反映するため、保存先は最初に状態を使う時点で決める
+ *
+ * @param fileName JSONに保存する場合のファイル名
+ */
+export const createAirlineStateManager = <T extends BaseFlightInfo>(
+    airlineId: string,
+    fileName: string,
+): StateManager<T> => {
+    const jsonManager = createStateManager<T>(fileName);
+    let manager: StateManager<T> | undefined;
+
+    const resolve = (): StateManager<T> => {
+        if (!manager) {
+            const { backend, database, retentionDays } = getStateConfig();
+            manager =
+                backend === "sqlite" ? createSqliteStateManager<T>(airlineId, database, retentionDays) : jsonManager;
+        }
+
+        return manager;
+    };
+
+    return {
+        loadState: options => resolve().loadState(options),
+        saveState: state => resolve().saveState(state),
+        withLock: fn => resolve().withLock(fn),
+        diffState,
+        hasStateChanged,
+    };
+};
@@ -0,0 +1,130 @@
+import { afterAll, beforeAll, describe, expect, setSystemTime, test } from "bun:test";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { withResolvedAirport } from "./airports";
+import { createAnaService } from "./ana";
+import type { AirlineProvider } from "./provider";
+import { type BaseFlightInfo, type BaseState, CorruptStateError, createStateManager } from "./state_manager";
+import { handleStatusRequest } from "./status_server";
+
+const createProvider = (id: string, state: BaseState<BaseFlightInfo> | null): AirlineProvider =>
+    ({
+        id,
+        name: id.toUpperCase(),
+        url: `https://example.com/${id}`,
+        loadState: async () => state,
+    }) as AirlineProvider;
+
+const ana = createProvider("ana", {
+    lastCheck: "2025-02-05T01:00:00.000Z",
+    updateTime: "2025年2月5日 10:00更新",
+    lastFetch: { at: "2025-02-05T01:00:00.000Z", ok: true },
+    flightInfos: [
+        {
+            region: "関東",
+            airports: [
+                withResolvedAirport({ name: "東京(羽田)", range: { start: "2025-02-05", end: "2025-02-06" } }),
+                withResolvedAirport({ name: "成田", range: { start: "2025-02-08", end: "2025-02-09" } }),
+            ],
+        },
+    ],
+});
+const jal = createProvider("jal", {
+    lastCheck: "2025-02-05T01:00:00.000Z",
+    lastSuccess: "2025-02-05T00:00:00.000Z",
+    lastFetch: { at: "2025-02-05T01:05:00.000Z", ok: false, error: "Error: timeout" },
+    flightInfos: [{ region: "関東", airports: [withResolvedAirport({ name: "羽田" })] }],
+});
+
+describe("handleStatusRequest", () => {
+    beforeAll(() => {
+        setSystemTime(new Date("2025-02-05T10:00:00+09:00"));
+    });
+
+    afterAll(() => {
+        setSystemTime();
+    });
+
+    test("returns the state of an airline", async () => {
+        const response = await handleStatusRequest([ana, jal], "GET", "/airlines/ana");
+
+        expect(response.status).toBe(200);
+        expect(response.body).toMatchObject({ id: "ana", updateTime: "2025年2月5日 10:00更新", pageIssues: [] });
+        expect((await handleStatusRequest([ana, jal], "GET", "/airlines/skymark")).status).toBe(404);
+    });
+
+    test("finds an airport across airlines by IATA code or name", async () => {
+        const response = await handleStatusRequest([ana, jal], "GET", "/airports/HND");
+
+        expect(response.body).toMatchObject({
+            query: "HND",
+            active: true,
+            airports: [
+                { airline: "ana", region: "関東", status: "active" },
+                { airline: "jal", region: "関東", status: "active" },
+            ],
+        });
+        expect(await handleStatusRequest([ana, jal], "GET", `/airports/${encodeURIComponent("成田")}`)).toMatchObject({
+            body: { active: false, airports: [{ airline: "ana", status: "upcoming" }] },
+        });
+    });
+
+    test("reports unhealthy when the last fetch failed", async () => {
+        expect((await handleStatusRequest([ana], "GET", "/health")).status).toBe(200);
+
+        const response = await handleStatusRequest([ana, jal], "GET", "/health");
+        expect(response.status).toBe(503);
+        expect(response.body).toMatchObject({
+            ok: false,
+            airlines: [
+                { id: "ana", ok: true },
+                { id: "jal", ok: false },
+            ],
+        });
+    });
+
+    test("exports the state of each airline as Prometheus metrics", async () => {
+        const response = await handleStatusRequest([ana, jal], "GET", "/metrics");
+
+        expect(response.contentType).toStartWith("text/plain");
+        const body = String(response.body);
+        expect(body).toContain('airline_notification_affected_airports{airline="ana"} 2');
+        // 取得に失敗したJALは最後に成功した日時のまま
+        expect(body).toContain(
+            `airline_notification_last_success_timestamp_seconds{airline="jal"} ${Date.parse("2025-02-05T00:00:00.000Z") / 1000}`,
+        );
+        expect(body).toContain(
+            `airline_notification_last_check_timestamp_seconds{airline="jal"} ${Date.parse("2025-02-05T01:05:00.000Z") / 1000}`,
+        );
+    });
+
+    test("leaves a corrupt state file in place", async () => {
+        const directory = await fs.mkdtemp(path.join(os.tmpdir(), "status-"));
+        await fs.writeFile(path.join(directory, "ana.json"), "{", "utf-8");
+        const provider = { ...createAnaService(), ...createStateManager("ana.json", directory) };
+
+        try {
+            for (const pathname of ["/health", "/metrics", "/airports"]) {
+                await expect(handleStatusRequest([provider], "GET", pathname)).rejects.toBeInstanceOf(
+                    CorruptStateError,
+                );
+            }
+            expect(await fs.readdir(directory)).toEqual(["ana.json"]);
+        } finally {
+            await fs.rm(directory, { recursive: true, force: true });
+        }
+    });
+
+    test("rejects unknown paths and methods", async () => {
+        expect((await handleStatusRequest([ana], "GET", "/")).status).toBe(404);
+        expect((await handleStatusRequest([ana], "POST", "/health")).status).toBe(405);
+    });
+
+    test("rejects a malformed path", async () => {
+        expect(await handleStatusRequest([ana], "GET", "/airports/%E0%A4%A")).toEqual({
+            status: 400,
+            body: { error: "Malformed path" },
+        });
+    });
+});
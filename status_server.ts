@@ -0,0 +1,214 @@
+import * as http from "node:http";
+import { buildAirportView, loadAirlineStates } from "./airport_view";
+import { normalizeAirportName, resolveAirport } from "./airports";
+import { exportCalendar } from "./calendar";
+import { type DateRangeStatus, getDateRangeStatus } from "./date_range";
+import { buildFeed, combinedFeedId, renderAtomFeed } from "./feed";
+import { logger } from "./logger";
+import { collectStateMetrics, metrics } from "./metrics";
+import type { AirlineProvider } from "./provider";
+import type { BaseAirportInfo, BaseFlightInfo, FetchStatus } from "./state_manager";
+
+export interface AirlineStatus {
+    id: string;
+    name: string;
+    url: string;
+    /** 状態が保存されていない場合はnull */
+    lastCheck: string | null;
+    updateTime: string | null;
+    lastFetch: FetchStatus | null;
+    pageIssues: string[];
+    flightInfos: BaseFlightInfo[];
+}
+
+export interface AirportStatus {
+    airline: string;
+    region: string;
+    airport: BaseAirportInfo;
+    /** 問い合わせた時点での期間の状態 */
+    status: DateRangeStatus;
+}
+
+export interface StatusResponse {
+    status: number;
+    /** contentTypeが指定された場合は文字列をそのまま返し、それ以外はJSONにする */
+    body: unknown;
+    contentType?: string;
+}
+
+export interface StatusServerOptions {
+    port: number;
+    host: string;
+}
+
+const toAirlineStatus = async (provider: AirlineProvider): Promise<AirlineStatus> => {
+    const state = await provider.loadState({ readOnly: true });
+
+    return {
+        id: provider.id,
+        name: provider.name,
+        url: provider.url,
+        lastCheck: state?.lastCheck ?? null,
+        updateTime: state?.updateTime ?? null,
+        lastFetch: state?.lastFetch ?? null,
+        pageIssues: state?.pageIssues ?? [],
+        flightInfos: state?.flightInfos ?? [],
+    };
+};
+
+/**
+ * IATAコードまたは空港名で、特別な取り扱いの対象になっている空港を航空会社をまたいで探す
+ */
+export const findAirportStatuses = (airlines: AirlineStatus[], query: string): AirportStatus[] => {
+    const resolved = resolveAirport(query);
+    const normalized = normalizeAirportName(query);
+    const matches = (airport: BaseAirportInfo): boolean =>
+        resolved ? airport.resolved?.iata === resolved.iata : normalizeAirportName(airport.name) === normalized;
+
+    return airlines.flatMap(airline =>
+        airline.flightInfos.flatMap(info =>
+            info.airports.filter(matches).map(airport => ({
+                airline: airline.id,
+                region: info.region,
+                airport,
+                status: getDateRangeStatus(airport.range),
+            })),
+        ),
+    );
+};
+
+/**
+ * 最後の取得に失敗した航空会社やページの構造に問題がある航空会社がある場合は異常とする
+ */
+const toHealth = (airlines: AirlineStatus[]) => {
+    const checks = airlines.map(airline => ({
+        id: airline.id,
+        ok: airline.lastFetch?.ok !== false && airline.pageIssues.length === 0,
+        lastCheck: airline.lastCheck,
+        lastFetch: airline.lastFetch,
+        pageIssues: airline.pageIssues,
+    }));
+
+    return { ok: checks.every(check => check.ok), airlines: checks };
+};
+
+/**
+ * リクエストのパスに応じたレスポンスを返す
+ *
+ * - `GET /health`: 航空会社ごとの最後の取得結果
+ * - `GET /airlines`: すべての航空会社の状態
+ * - `GET /airlines/:id`: 航空会社の状態
+ * - `GET /airports`: 航空会社をまたいで空港ごとにまとめた特別な取り扱い
+ * - `GET /airports/:code`: IATAコードまたは空港名で探した空港の状態
+ * - `GET /feeds/:id.atom`: 航空会社の変更のAtomフィード (`all` はすべての航空会社)
+ * - `GET /calendar/:id.ics`: 航空会社の特別な取り扱いの期間のiCalendar (`all` はすべての航空会社)
+ * - `GET /metrics`: Prometheusのテキスト形式のメトリクス
+ */
+export const handleStatusRequest = async (
+    providers: AirlineProvider[],
+    method: string,
+    pathname: string,
+): Promise<StatusResponse> => {
+    if (method !== "GET") {
+        return { status: 405, body: { error: "Method not allowed" } };
+    }
+
+    let segments: string[];
+    try {
+        segments = pathname.split("/").filter(Boolean).map(decodeURIComponent);
+    } catch (error) {
+        // 不正なパーセントエンコーディング
+        return { status: 400, body: { error: "Malformed path" } };
+    }
+    const loadAll = () => Promise.all(providers.map(toAirlineStatus));
+
+    if (segments.length === 1 && segments[0] === "health") {
+        const health = toHealth(await loadAll());
+        return { status: health.ok ? 200 : 503, body: health };
+    }
+
+    if (segments.length === 1 && segments[0] === "metrics") {
+        await collectStateMetrics(providers);
+        return { status: 200, body: metrics.render(), contentType: "text/plain; version=0.0.4; charset=utf-8" };
+    }
+
+    if (segments[0] === "airlines" && segments.length === 1) {
+        return { status: 200, body: await loadAll() };
+    }
+
+    if (segments[0] === "airlines" && segments.length === 2) {
+        const provider = providers.find(provider => provider.id === segments[1]);
+        if (!provider) {
+            return { status: 404, body: { error: `Unknown airline: ${segments[1]}` } };
+        }
+        return { status: 200, body: await toAirlineStatus(provider) };
+    }
+
+    if (segments[0] === "airports" && segments.length === 1) {
+        return { status: 200, body: buildAirportView(await loadAirlineStates(providers)) };
+    }
+
+    if (segments[0] === "airports" && segments.length === 2) {
+        const airports = findAirportStatuses(await loadAll(), segments[1]);
+        return {
+            status: 200,
+            body: {
+                query: segments[1],
+                active: airports.some(airport => airport.status === "active"),
+                airports,
+            },
+        };
+    }
+
+    const feedMatch = segments.length === 2 && segments[0] === "feeds" ? segments[1].match(/^(.+)\.atom$/) : null;
+    if (feedMatch) {
+        const feed = await buildFeed(providers, feedMatch[1]);
+        if (!feed) {
+            return { status: 404, body: { error: `Unknown feed: ${feedMatch[1]}` } };
+        }
+        return { status: 200, body: renderAtomFeed(feed), contentType: "application/atom+xml; charset=utf-8" };
+    }
+
+    const calendarMatch = segments.length === 2 && segments[0] === "calendar" ? segments[1].match(/^(.+)\.ics$/) : null;
+    if (calendarMatch) {
+        const targets =
+            calendarMatch[1] === combinedFeedId
+                ? providers
+                : providers.filter(provider => provider.id === calendarMatch[1]);
+        if (targets.length === 0) {
+            return { status: 404, body: { error: `Unknown calendar: ${calendarMatch[1]}` } };
+        }
+        return { status: 200, body: await exportCalendar(targets), contentType: "text/calendar; charset=utf-8" };
+    }
+
+    return { status: 404, body: { error: "Not found" } };
+};
+
+/**
+ * 保存されている状態をJSONで返すHTTPサーバーを起動する
+ *
+ * 状態はリクエストごとに読み込むため、別のプロセスで実行した確認の結果も返す
+ */
+export const startStatusServer = (providers: AirlineProvider[], options: StatusServerOptions): http.Server => {
+    const server = http.createServer(async (request, response) => {
+        let result: StatusResponse;
+        try {
+            const url = new URL(request.url ?? "/", "http://localhost");
+            result = await handleStatusRequest(providers, request.method ?? "GET", url.pathname);
+        } catch (error) {
+            logger.error("Failed to handle status request", { path: request.url, error });
+            result = { status: 500, body: { error: "Internal server error" } };
+        }
+
+        response.writeHead(result.status, {
+            "content-type": result.contentType ?? "application/json; charset=utf-8",
+        });
+        response.end(result.contentType ? String(result.body) : JSON.stringify(result.body, null, 2));
+    });
+
+    server.listen(options.port, options.host, () => {
+        logger.info(`Status server listening on http://${options.host}:${options.port}`);
+    });
+
+    return server;
+};